@@ -73,13 +73,18 @@ async function main() {
     console.log(`Sending ${messages.length} messages...`);
     const results = await client.sendSmsBatch(messages);
 
-    console.log(`✅ Successfully sent ${results.length} messages`);
-    results.forEach((result, index) => {
-      console.log(`\nMessage ${index + 1}:`);
-      console.log('  ID:', result.id);
-      console.log('  To:', result.to.join(', '));
-      console.log('  Status:', result.status);
-      console.log('  Cost:', result.cost, result.currency);
+    const sent = results.filter((result) => result.ok);
+    console.log(`✅ Sent ${sent.length} of ${results.length} messages`);
+    results.forEach((result) => {
+      console.log(`\nMessage ${result.index + 1}:`);
+      if (!result.ok) {
+        console.log('  ❌ Failed:', result.payload.to, result.error.message);
+        return;
+      }
+      console.log('  ID:', result.response.id);
+      console.log('  To:', result.response.to.join(', '));
+      console.log('  Status:', result.response.status);
+      console.log('  Cost:', result.response.cost, result.response.currency);
     });
   } catch (error) {
     console.error('❌ Batch send failed:', error);
@@ -0,0 +1,298 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  MsGineClient,
+  MsGineInsufficientBalanceError,
+  MsGinePricingError,
+  MsGineValidationError,
+} from '../src';
+import { MockMsGineApi } from '../src/testing';
+import { createSandbox } from '../src/test-helpers';
+
+describe('Account, pricing and usage', () => {
+  const jsonResponse = (data: unknown) => ({
+    ok: true,
+    status: 200,
+    headers: new Headers({ 'content-type': 'application/json' }),
+    json: () => Promise.resolve({ data }),
+  });
+
+  describe('account.getBalance', () => {
+    it('should return the balance left after sends', async () => {
+      const { client } = createSandbox({
+        sandbox: new MockMsGineApi({ balance: 100 }),
+      });
+
+      await client.sendSms({ to: '0701521269', message: 'Hello' });
+
+      await expect(client.account.getBalance()).resolves.toMatchObject({
+        balance: 70,
+        currency: 'UGX',
+      });
+    });
+
+    it('should reject invalid responses', async () => {
+      const mockFetch = vi.fn().mockResolvedValueOnce(jsonResponse({}));
+      const client = new MsGineClient({
+        apiToken: 'test-token',
+        fetch: mockFetch as unknown as typeof fetch,
+      });
+
+      await expect(client.account.getBalance()).rejects.toThrow(
+        'Invalid balance response'
+      );
+    });
+  });
+
+  describe('pricing.lookup', () => {
+    it('should look up countries and normalised numbers', async () => {
+      const mockFetch = vi
+        .fn()
+        .mockResolvedValue(
+          jsonResponse({ country: 'UG', currency: 'UGX', pricePerSegment: 30 })
+        );
+      const client = new MsGineClient({
+        apiToken: 'test-token',
+        fetch: mockFetch as unknown as typeof fetch,
+        defaultCountry: 'UG',
+      });
+
+      await client.pricing.lookup('ug');
+      await client.pricing.lookup('0771 234 567');
+
+      const urls = mockFetch.mock.calls.map(([url]) => new URL(String(url)));
+      expect(urls.map((url) => url.pathname)).toEqual([
+        '/api/v1/pricing',
+        '/api/v1/pricing',
+      ]);
+      expect(urls[0]!.searchParams.get('country')).toBe('UG');
+      expect(urls[1]!.searchParams.get('to')).toBe('+256771234567');
+    });
+
+    it('should return the carrier of a number', async () => {
+      const { client } = createSandbox();
+
+      await expect(client.pricing.lookup('+256771234567')).resolves.toEqual({
+        country: 'UG',
+        callingCode: '256',
+        currency: 'UGX',
+        pricePerSegment: 30,
+        carrier: 'MTN',
+      });
+    });
+
+    it('should reject invalid countries and numbers', async () => {
+      const { api, client } = createSandbox();
+
+      await expect(client.pricing.lookup('Uganda')).rejects.toThrow(
+        MsGineValidationError
+      );
+      expect(api.requests).toHaveLength(0);
+    });
+  });
+
+  describe('usage.summary', () => {
+    it('should total and group usage over a period', async () => {
+      const { client } = createSandbox();
+      const from = new Date(Date.now() - 60 * 60 * 1000);
+
+      await client.sendSms({ to: '0701521269', message: 'Hello' });
+      await client.sendSms({
+        to: ['0701521270', '+254712345678'],
+        message: 'x'.repeat(200),
+      });
+
+      const usage = await client.usage.summary({
+        from,
+        to: new Date(Date.now() + 60 * 60 * 1000),
+        groupBy: 'country',
+      });
+
+      expect(usage).toMatchObject({
+        from: from.toISOString(),
+        currency: 'UGX',
+        messages: 3,
+        segments: 5,
+        cost: 150,
+        groups: [
+          { key: 'UG', messages: 2, segments: 3, cost: 90 },
+          { key: 'KE', messages: 1, segments: 2, cost: 60 },
+        ],
+      });
+    });
+
+    it('should reject invalid periods before sending', async () => {
+      const { api, client } = createSandbox();
+
+      await expect(
+        client.usage.summary({
+          from: '2025-07-01T00:00:00Z',
+          to: '2025-06-01T00:00:00Z',
+        })
+      ).rejects.toThrow(MsGineValidationError);
+      expect(api.requests).toHaveLength(0);
+    });
+  });
+
+  describe('sendSmsBatch balance check', () => {
+    const batch = [
+      { to: '0701521269', message: 'Hello' },
+      { to: ['0701521270', '0771234567'], message: 'x'.repeat(200) },
+    ];
+
+    it('should refuse a batch the balance does not cover', async () => {
+      const { api, client } = createSandbox({
+        sandbox: new MockMsGineApi({ balance: 140 }),
+      });
+
+      const error = await client
+        .sendSmsBatch(batch, { checkBalance: true })
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(MsGineInsufficientBalanceError);
+      expect(error).toMatchObject({
+        statusCode: 402,
+        code: 'INSUFFICIENT_BALANCE',
+        isRetryable: false,
+        details: { estimatedCost: 150, balance: 140, currency: 'UGX' },
+      });
+      api.expectNoSmsSent();
+    });
+
+    it('should send a batch the balance covers', async () => {
+      const { api, client } = createSandbox({
+        sandbox: new MockMsGineApi({ balance: 150 }),
+      });
+
+      const results = await client.sendSmsBatch(batch, { checkBalance: true });
+
+      expect(results.every((result) => result.ok)).toBe(true);
+      expect(api.balance).toBe(0);
+      expect(
+        api.requests.filter((request) => request.path.endsWith('/pricing'))
+      ).toHaveLength(1);
+    });
+
+    it('should use the given pricing instead of looking it up', async () => {
+      const { api, client } = createSandbox({
+        sandbox: new MockMsGineApi({ balance: 150 }),
+      });
+
+      await expect(
+        client.sendSmsBatch(batch, {
+          checkBalance: true,
+          pricing: { currency: 'UGX', carriers: { 'UG:MTN': 60 }, default: 30 },
+        })
+      ).rejects.toMatchObject({ details: { estimatedCost: 210 } });
+      expect(
+        api.requests.some((request) => request.path.endsWith('/pricing'))
+      ).toBe(false);
+    });
+
+    it('should look up prices by number outside the bundled countries', async () => {
+      const { api, client } = createSandbox({
+        sandbox: new MockMsGineApi({ balance: 60 }),
+      });
+
+      const results = await client.sendSmsBatch(
+        [
+          { to: '+4915123456789', message: 'Hallo' },
+          { to: '0701521269', message: 'Hello' },
+        ],
+        { checkBalance: true }
+      );
+
+      expect(results.every((result) => result.ok)).toBe(true);
+      expect(
+        api.requests
+          .filter((request) => request.path.endsWith('/pricing'))
+          .map((request) => request.query)
+      ).toEqual([{ country: 'UG' }, { to: '+4915123456789' }]);
+    });
+
+    it('should look up prices once per prefix, concurrently', async () => {
+      const api = new MockMsGineApi({ balance: 1000 });
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const client = new MsGineClient({
+        apiToken: 'test-token',
+        defaultCountry: 'UG',
+        fetch: async (input, init) => {
+          maxInFlight = Math.max(maxInFlight, ++inFlight);
+          await new Promise((resolve) => setTimeout(resolve, 1));
+          try {
+            return await api.fetch(input, init);
+          } finally {
+            inFlight--;
+          }
+        },
+      });
+
+      await client.sendSmsBatch(
+        [
+          {
+            to: ['+4915123456789', '+4915198765432', '+4916012345678'],
+            message: 'Hallo',
+          },
+          { to: ['+18765550123', '+18765550199'], message: 'Hello' },
+          { to: ['0701521269', '0771234567'], message: 'Hello' },
+        ],
+        { checkBalance: true }
+      );
+
+      const lookups = api.requests
+        .filter((request) => request.path.endsWith('/pricing'))
+        .map((request) => request.query);
+      expect(lookups).toHaveLength(4);
+      expect(lookups).toEqual(
+        expect.arrayContaining([
+          { country: 'UG' },
+          { to: '+4915123456789' },
+          { to: '+4916012345678' },
+          { to: '+18765550123' },
+        ])
+      );
+      expect(maxInFlight).toBeGreaterThan(1);
+    });
+
+    it('should refuse prices in another currency', async () => {
+      const { api, client } = createSandbox();
+
+      const error = await client
+        .sendSmsBatch(batch, {
+          checkBalance: true,
+          pricing: { currency: 'KES', default: 1 },
+        })
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(MsGinePricingError);
+      expect(error).toMatchObject({
+        code: 'CURRENCY_MISMATCH',
+        message: 'Cannot check balance in UGX against prices in KES',
+      });
+      api.expectNoSmsSent();
+    });
+
+    it('should refuse looked-up prices in another currency', async () => {
+      const api = new MockMsGineApi();
+      const client = new MsGineClient({
+        apiToken: 'test-token',
+        defaultCountry: 'UG',
+        fetch: (input, init) =>
+          String(input).includes('/pricing')
+            ? Promise.resolve(
+                jsonResponse({
+                  country: 'UG',
+                  currency: 'KES',
+                  pricePerSegment: 1,
+                }) as unknown as Response
+              )
+            : api.fetch(input, init),
+      });
+
+      await expect(
+        client.sendSmsBatch(batch, { checkBalance: true })
+      ).rejects.toMatchObject({ code: 'CURRENCY_MISMATCH' });
+      api.expectNoSmsSent();
+    });
+  });
+});
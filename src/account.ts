@@ -0,0 +1,44 @@
+import { ResponseValidator } from './responses';
+import {
+  Balance,
+  BalanceSchema,
+  CallOptions,
+  HttpClient,
+  HttpMethod,
+} from './types';
+import { toCallOptions } from './utils';
+
+/**
+ * Account endpoints
+ *
+ * Available as `client.account`.
+ */
+export class Account {
+  constructor(
+    private readonly httpClient: HttpClient,
+    private readonly responses: ResponseValidator = new ResponseValidator()
+  ) {}
+
+  /**
+   * Get the credit left on the account
+   *
+   * @param options - Request options
+   * @returns Promise resolving to the balance and its currency
+   * @throws {MsGineValidationError} If the response is invalid
+   * @throws {MsGineError} If the API request fails
+   *
+   * @example
+   * ```typescript
+   * const { balance, currency } = await client.account.getBalance();
+   * ```
+   */
+  async getBalance(options: CallOptions = {}): Promise<Balance> {
+    const response = await this.httpClient.request<unknown>({
+      ...toCallOptions(options),
+      method: HttpMethod.GET,
+      path: '/account/balance',
+    });
+
+    return this.responses.parse(BalanceSchema, response, 'balance');
+  }
+}
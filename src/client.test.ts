@@ -1,5 +1,26 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { MsGineClient, MsGineError, MsGineValidationError } from '../src';
+import {
+  HttpMethod,
+  MessageChannel,
+  MessagePriority,
+  MessageStatus,
+  MsGineAuthenticationError,
+  MsGineCancelledError,
+  MsGineClient,
+  MsGineConflictError,
+  MsGineError,
+  MsGineInsufficientBalanceError,
+  MsGineInvalidRecipientError,
+  MsGineInvalidRequestError,
+  MsGineNetworkError,
+  MsGineNotFoundError,
+  MsGinePermissionError,
+  MsGineRateLimitError,
+  MsGineServerError,
+  MsGineTimeoutError,
+  MsGineValidationError,
+  getResponseMeta,
+} from '../src';
 
 describe('MsGineClient', () => {
   let mockFetch: ReturnType<typeof vi.fn>;
@@ -13,6 +34,19 @@ describe('MsGineClient', () => {
     vi.useRealTimers();
   });
 
+  const sentMessage = {
+    id: 'msg_123',
+    sid: null,
+    channel: 'sms',
+    to: ['+256701521269'],
+    from: 'MsGine',
+    content: 'Hello',
+    status: 'pending',
+    cost: 30,
+    currency: 'UGX',
+    createdAt: '2024-01-01T00:00:00Z',
+  };
+
   const createClient = () => {
     return new MsGineClient({
       apiToken: 'test-token-123',
@@ -74,6 +108,204 @@ describe('MsGineClient', () => {
         })
       ).rejects.toThrow(MsGineValidationError);
 
+      await expect(
+        client.sendSms({
+          to: '0701 521 269',
+          message: 'Hello',
+        })
+      ).rejects.toThrow(MsGineValidationError);
+
+      await expect(
+        client.sendSms({
+          to: '+25670152126',
+          message: 'Hello',
+        })
+      ).rejects.toThrow(MsGineValidationError);
+
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should normalise national numbers using the default country', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: new Headers({ 'content-type': 'application/json' }),
+        json: () =>
+          Promise.resolve({
+            id: 'msg_123',
+            sid: null,
+            channel: 'sms',
+            to: ['+256701521269'],
+            from: 'MsGine',
+            content: 'Hello',
+            status: 'pending',
+            cost: 30,
+            currency: 'UGX',
+            createdAt: '2024-01-01T00:00:00Z',
+          }),
+      });
+
+      const client = new MsGineClient({
+        apiToken: 'test-token',
+        fetch: mockFetch as unknown as typeof fetch,
+        defaultCountry: 'UG',
+      });
+
+      await client.sendSms({ to: '0701-521-269', message: 'Hello' });
+
+      const [, options] = mockFetch.mock.calls[0] as [string, RequestInit];
+      expect(JSON.parse(options.body as string)).toEqual({
+        to: '+256701521269',
+        message: 'Hello',
+      });
+    });
+
+    it('should send to multiple recipients in one request', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: new Headers({ 'content-type': 'application/json' }),
+        json: () =>
+          Promise.resolve({
+            id: 'msg_123',
+            sid: null,
+            channel: 'sms',
+            to: ['+256701521269', '+256701521270'],
+            from: 'MsGine',
+            content: 'Hi {{name}}',
+            status: 'pending',
+            cost: 60,
+            currency: 'UGX',
+            createdAt: '2024-01-01T00:00:00Z',
+            recipients: [
+              { to: '+256701521270', id: 'msg_124', status: 'failed' },
+            ],
+          }),
+      });
+
+      const client = new MsGineClient({
+        apiToken: 'test-token',
+        fetch: mockFetch as unknown as typeof fetch,
+        defaultCountry: 'UG',
+      });
+
+      const result = await client.sendSms({
+        to: [
+          '0701 521 269',
+          { to: '+256701521270', variables: { name: 'Bob' } },
+          '+256701521269',
+        ],
+        message: 'Hi {{name}}',
+        variables: { name: 'there' },
+      });
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      const [, options] = mockFetch.mock.calls[0] as [string, RequestInit];
+      expect(JSON.parse(options.body as string)).toEqual({
+        to: ['+256701521269', '+256701521270'],
+        message: 'Hi {{name}}',
+        recipients: [
+          { to: '+256701521269', variables: { name: 'there' } },
+          { to: '+256701521270', variables: { name: 'Bob' } },
+        ],
+      });
+      expect(result.recipients).toEqual([
+        { to: '+256701521269', id: 'msg_123', status: MessageStatus.PENDING },
+        { to: '+256701521270', id: 'msg_124', status: MessageStatus.FAILED },
+      ]);
+    });
+
+    it('should require every template variable for each recipient', async () => {
+      const client = createClient();
+
+      const error = await client
+        .sendSms({
+          to: [
+            { to: '+256701521269', variables: { name: 'Alice' } },
+            '+256701521270',
+          ],
+          message: 'Hi {{name}}',
+        })
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(MsGineValidationError);
+      expect((error as MsGineValidationError).errors.issues).toMatchObject([
+        {
+          path: ['to', 1, 'variables', 'name'],
+          message: 'Missing template variable "name"',
+        },
+      ]);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should send and round-trip message options', async () => {
+      const options = {
+        from: 'MsGine',
+        channel: MessageChannel.FLASH,
+        callbackUrl: 'https://example.com/webhooks/msgine',
+        ttl: 3600,
+        priority: MessagePriority.HIGH,
+        clientReference: 'order-42',
+        metadata: { orderId: '42' },
+      };
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: new Headers({ 'content-type': 'application/json' }),
+        json: () =>
+          Promise.resolve({
+            id: 'msg_123',
+            sid: null,
+            to: ['+256701521269'],
+            content: 'Your order shipped',
+            status: 'pending',
+            cost: 30,
+            currency: 'UGX',
+            createdAt: '2024-01-01T00:00:00Z',
+            ...options,
+          }),
+      });
+
+      const client = createClient();
+      const result = await client.sendSms({
+        to: '+256701521269',
+        message: 'Your order shipped',
+        ...options,
+      });
+
+      const [, init] = mockFetch.mock.calls[0] as [string, RequestInit];
+      expect(JSON.parse(init.body as string)).toEqual({
+        to: '+256701521269',
+        message: 'Your order shipped',
+        ...options,
+      });
+      expect(result).toMatchObject(options);
+    });
+
+    it.each([
+      [{ from: 'MsGine Notifications' }, ['from']],
+      [{ from: '!!!' }, ['from']],
+      [{ channel: 'email' }, ['channel']],
+      [{ callbackUrl: 'ftp://example.com' }, ['callbackUrl']],
+      [{ ttl: 10 }, ['ttl']],
+      [{ priority: 'urgent' }, ['priority']],
+      [{ metadata: { orderId: 42 } }, ['metadata', 'orderId']],
+    ])('should reject invalid option %j', async (option, path) => {
+      const client = createClient();
+
+      const error = await client
+        .sendSms({
+          to: '+256701521269',
+          message: 'Hello',
+          ...(option as object),
+        })
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(MsGineValidationError);
+      expect((error as MsGineValidationError).errors.issues[0]?.path).toEqual(
+        path
+      );
       expect(mockFetch).not.toHaveBeenCalled();
     });
 
@@ -259,96 +491,1679 @@ describe('MsGineClient', () => {
     });
   });
 
-  describe('sendSmsBatch', () => {
-    it('should send multiple SMS messages', async () => {
-      const mockResponse1 = {
-        id: 'msg_1',
-        sid: null,
-        channel: 'sms',
-        to: ['+256701521269'],
-        from: 'MsGine',
-        content: 'Hello 1',
-        status: 'pending',
-        cost: 30,
-        currency: 'UGX',
-        createdAt: '2024-01-01T00:00:00Z',
-      };
+  describe('errors', () => {
+    const errorResponse = (
+      status: number,
+      code?: string,
+      headers: Record<string, string> = {}
+    ) => ({
+      ok: false,
+      status,
+      statusText: 'Error',
+      headers: new Headers({ 'content-type': 'application/json', ...headers }),
+      json: () =>
+        Promise.resolve({ error: { code, message: `Failed with ${status}` } }),
+    });
 
-      const mockResponse2 = {
-        id: 'msg_2',
-        sid: null,
-        channel: 'sms',
-        to: ['+256701521270'],
-        from: 'MsGine',
-        content: 'Hello 2',
-        status: 'pending',
-        cost: 30,
-        currency: 'UGX',
-        createdAt: '2024-01-01T00:00:00Z',
-      };
+    const sendError = async (client = createClient()) =>
+      client
+        .sendSms({ to: '+256701521269', message: 'Hello' })
+        .catch((e: unknown) => e);
+
+    it.each([
+      [401, 'UNAUTHORIZED', MsGineAuthenticationError],
+      [403, undefined, MsGinePermissionError],
+      [402, undefined, MsGineInsufficientBalanceError],
+      [400, 'INSUFFICIENT_BALANCE', MsGineInsufficientBalanceError],
+      [422, 'INVALID_RECIPIENT', MsGineInvalidRecipientError],
+      [400, 'BAD_MESSAGE', MsGineInvalidRequestError],
+      [404, undefined, MsGineNotFoundError],
+      [409, 'IDEMPOTENCY_CONFLICT', MsGineConflictError],
+    ])(
+      'should map %i %s to a typed error',
+      async (status, code, ErrorClass) => {
+        mockFetch.mockResolvedValueOnce(errorResponse(status, code));
+
+        const error = await sendError();
+
+        expect(error).toBeInstanceOf(ErrorClass);
+        expect(error).toBeInstanceOf(MsGineError);
+        expect(error).toMatchObject({ statusCode: status, isRetryable: false });
+      }
+    );
 
+    it('should record the attempt history of retried errors', async () => {
       mockFetch
+        .mockResolvedValueOnce(errorResponse(503, 'UNAVAILABLE'))
+        .mockResolvedValueOnce(
+          errorResponse(429, 'RATE_LIMITED', { 'retry-after': '0' })
+        );
+
+      const client = new MsGineClient({
+        apiToken: 'test-token',
+        fetch: mockFetch as unknown as typeof fetch,
+        retry: { maxRetries: 1, initialDelay: 1, jitter: 'none' },
+      });
+
+      const error = await sendError(client);
+
+      expect(error).toBeInstanceOf(MsGineRateLimitError);
+      expect(error).toMatchObject({ retryAfter: 0, isRetryable: true });
+      expect((error as MsGineError).attempts).toEqual([
+        {
+          attempt: 1,
+          statusCode: 503,
+          code: 'UNAVAILABLE',
+          message: 'Failed with 503',
+          delay: 1,
+        },
+        {
+          attempt: 2,
+          statusCode: 429,
+          code: 'RATE_LIMITED',
+          message: 'Failed with 429',
+        },
+      ]);
+    });
+
+    it('should map 5xx responses to server errors', async () => {
+      mockFetch.mockResolvedValueOnce(errorResponse(500));
+
+      const client = new MsGineClient({
+        apiToken: 'test-token',
+        fetch: mockFetch as unknown as typeof fetch,
+        retry: { maxRetries: 0 },
+      });
+
+      const error = await sendError(client);
+      expect(error).toBeInstanceOf(MsGineServerError);
+      expect(error).toMatchObject({ isRetryable: true });
+    });
+
+    it('should keep the cause of network errors', async () => {
+      const cause = new TypeError('fetch failed');
+      mockFetch.mockRejectedValueOnce(cause);
+
+      const client = new MsGineClient({
+        apiToken: 'test-token',
+        fetch: mockFetch as unknown as typeof fetch,
+        retry: { maxRetries: 0 },
+      });
+
+      const error = await sendError(client);
+
+      expect(error).toBeInstanceOf(MsGineNetworkError);
+      expect(error).toMatchObject({ statusCode: 0, cause, isRetryable: true });
+    });
+
+    it('should retry network errors with the same idempotency key', async () => {
+      mockFetch
+        .mockRejectedValueOnce(new TypeError('fetch failed'))
         .mockResolvedValueOnce({
           ok: true,
           status: 200,
           headers: new Headers({ 'content-type': 'application/json' }),
-          json: () => Promise.resolve(mockResponse1),
-        })
-        .mockResolvedValueOnce({
-          ok: true,
-          status: 200,
-          headers: new Headers({ 'content-type': 'application/json' }),
-          json: () => Promise.resolve(mockResponse2),
+          json: () => Promise.resolve(sentMessage),
         });
 
-      const client = createClient();
-      const results = await client.sendSmsBatch([
-        { to: '+256701521269', message: 'Hello 1' },
-        { to: '+256701521270', message: 'Hello 2' },
-      ]);
+      const client = new MsGineClient({
+        apiToken: 'test-token',
+        fetch: mockFetch as unknown as typeof fetch,
+        retry: { initialDelay: 1, maxDelay: 5, retryableStatusCodes: [] },
+      });
 
-      expect(results).toHaveLength(2);
-      expect(results[0]).toEqual(mockResponse1);
-      expect(results[1]).toEqual(mockResponse2);
-      expect(mockFetch).toHaveBeenCalledTimes(2);
+      await expect(
+        client.sendSms({ to: '+256701521269', message: 'Hello' })
+      ).resolves.toMatchObject({ id: 'msg_123' });
+
+      const keys = mockFetch.mock.calls.map(
+        ([, init]) =>
+          (init as RequestInit & { headers: Record<string, string> }).headers[
+            'Idempotency-Key'
+          ]
+      );
+      expect(keys).toHaveLength(2);
+      expect(keys[0]).toBeDefined();
+      expect(keys[1]).toBe(keys[0]);
     });
 
-    it('should validate all payloads before sending', async () => {
-      const client = createClient();
+    it('should tell client timeouts from server 408 responses', async () => {
+      mockFetch.mockResolvedValueOnce(errorResponse(408));
 
-      await expect(
-        client.sendSmsBatch([
-          { to: '+256701521269', message: 'Valid' },
-          { to: '', message: 'Invalid' },
-        ])
-      ).rejects.toThrow(MsGineValidationError);
+      const client = new MsGineClient({
+        apiToken: 'test-token',
+        fetch: mockFetch as unknown as typeof fetch,
+        retry: { maxRetries: 0 },
+      });
 
-      expect(mockFetch).not.toHaveBeenCalled();
+      const serverTimeout = await sendError(client);
+      expect(serverTimeout).toBeInstanceOf(MsGineError);
+      expect(serverTimeout).not.toBeInstanceOf(MsGineTimeoutError);
+
+      mockFetch.mockImplementationOnce(() => {
+        const error = new Error('The operation was aborted');
+        error.name = 'AbortError';
+        return Promise.reject(error);
+      });
+
+      const clientTimeout = await sendError(client);
+      expect(clientTimeout).toBeInstanceOf(MsGineTimeoutError);
+      expect(clientTimeout).toMatchObject({ code: 'REQUEST_TIMEOUT' });
     });
   });
 
-  describe('configuration', () => {
-    it('should require API token', () => {
-      expect(() => {
-        new MsGineClient({
-          apiToken: '',
-        });
-      }).toThrow('API token is required');
+  describe('retries', () => {
+    const rateLimited = (headers: Record<string, string>) => ({
+      ok: false,
+      status: 429,
+      statusText: 'Too Many Requests',
+      headers: new Headers({ 'content-type': 'application/json', ...headers }),
+      json: () =>
+        Promise.resolve({
+          error: { code: 'RATE_LIMITED', message: 'Slow down' },
+        }),
     });
 
-    it('should use custom base URL', async () => {
-      mockFetch.mockResolvedValueOnce({
-        ok: true,
-        status: 200,
-        headers: new Headers({ 'content-type': 'application/json' }),
-        json: () =>
-          Promise.resolve({
-            success: true,
-            messageId: 'msg_123',
-            status: 'pending',
-            to: '+256701521269',
-            timestamp: '2024-01-01T00:00:00Z',
-          }),
+    const sent = () => ({
+      ok: true,
+      status: 200,
+      headers: new Headers({ 'content-type': 'application/json' }),
+      json: () => Promise.resolve(sentMessage),
+    });
+
+    it('should honor Retry-After and report retries', async () => {
+      mockFetch
+        .mockResolvedValueOnce(rateLimited({ 'retry-after': '0.02' }))
+        .mockResolvedValueOnce(sent());
+
+      const onRetry = vi.fn();
+      const client = new MsGineClient({
+        apiToken: 'test-token',
+        fetch: mockFetch as unknown as typeof fetch,
+        retry: { initialDelay: 1, onRetry },
+      });
+
+      await client.sendSms({ to: '+256701521269', message: 'Hello' });
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(onRetry).toHaveBeenCalledTimes(1);
+      const [attempt, error, delay] = onRetry.mock.calls[0] as [
+        number,
+        MsGineError,
+        number,
+      ];
+      expect(attempt).toBe(1);
+      expect(error.statusCode).toBe(429);
+      expect(error.retryAfter).toBe(20);
+      expect(delay).toBe(20);
+    });
+
+    it('should cap server-requested delays at maxDelay', async () => {
+      mockFetch
+        .mockResolvedValueOnce(rateLimited({ 'x-ratelimit-reset': '60' }))
+        .mockResolvedValueOnce(sent());
+
+      const onRetry = vi.fn();
+      const client = new MsGineClient({
+        apiToken: 'test-token',
+        fetch: mockFetch as unknown as typeof fetch,
+        retry: { maxDelay: 5, onRetry },
+      });
+
+      await client.sendSms({ to: '+256701521269', message: 'Hello' });
+
+      expect(onRetry).toHaveBeenCalledWith(1, expect.any(MsGineError), 5);
+    });
+
+    it('should apply jitter within the backoff window', async () => {
+      mockFetch
+        .mockResolvedValueOnce(rateLimited({}))
+        .mockResolvedValueOnce(rateLimited({}))
+        .mockResolvedValueOnce(sent());
+
+      const delays: number[] = [];
+      const client = new MsGineClient({
+        apiToken: 'test-token',
+        fetch: mockFetch as unknown as typeof fetch,
+        retry: {
+          initialDelay: 10,
+          jitter: 'equal',
+          onRetry: (_attempt, _error, delay) => delays.push(delay),
+        },
+      });
+
+      await client.sendSms({ to: '+256701521269', message: 'Hello' });
+
+      expect(delays[0]).toBeGreaterThanOrEqual(5);
+      expect(delays[0]).toBeLessThanOrEqual(10);
+      expect(delays[1]).toBeGreaterThanOrEqual(10);
+      expect(delays[1]).toBeLessThanOrEqual(20);
+    });
+
+    it('should let shouldRetry override the retry policy', async () => {
+      mockFetch.mockResolvedValue(rateLimited({}));
+
+      const shouldRetry = vi.fn(() => false);
+      const client = new MsGineClient({
+        apiToken: 'test-token',
+        fetch: mockFetch as unknown as typeof fetch,
+        retry: { initialDelay: 1, shouldRetry },
+      });
+
+      await expect(
+        client.sendSms({ to: '+256701521269', message: 'Hello' })
+      ).rejects.toThrow(MsGineError);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(shouldRetry).toHaveBeenCalledWith(expect.any(MsGineError), 1);
+    });
+  });
+
+  describe('idempotency', () => {
+    const serverError = (headers: Record<string, string> = {}) => ({
+      ok: false,
+      status: 503,
+      statusText: 'Service Unavailable',
+      headers: new Headers({ 'content-type': 'application/json', ...headers }),
+      json: () =>
+        Promise.resolve({
+          error: { code: 'SERVICE_UNAVAILABLE', message: 'Try again' },
+        }),
+    });
+
+    const idempotencyKeys = () =>
+      mockFetch.mock.calls.map(
+        ([, options]) =>
+          (options as RequestInit & { headers: Record<string, string> })
+            .headers['Idempotency-Key']
+      );
+
+    it('should send the same generated key on every retry', async () => {
+      mockFetch.mockResolvedValueOnce(serverError()).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: new Headers({ 'content-type': 'application/json' }),
+        json: () => Promise.resolve(sentMessage),
+      });
+
+      const client = new MsGineClient({
+        apiToken: 'test-token',
+        fetch: mockFetch as unknown as typeof fetch,
+        retry: { initialDelay: 1 },
+      });
+
+      await client.sendSms({ to: '+256701521269', message: 'Hello' });
+
+      const keys = idempotencyKeys();
+      expect(keys).toHaveLength(2);
+      expect(keys[0]).toMatch(/^[0-9a-f-]{36}$/);
+      expect(keys[1]).toBe(keys[0]);
+    });
+
+    it('should use the provided key and expose replays on errors', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ...serverError({ 'idempotent-replayed': 'true' }),
+        status: 409,
+      });
+
+      const client = createClient();
+
+      const error = await client
+        .sendSms(
+          { to: '+256701521269', message: 'Hello' },
+          { idempotencyKey: 'otp-user-42' }
+        )
+        .catch((e: unknown) => e);
+
+      expect(idempotencyKeys()).toEqual(['otp-user-42']);
+      expect(error).toBeInstanceOf(MsGineError);
+      expect((error as MsGineError).idempotencyKey).toBe('otp-user-42');
+      expect((error as MsGineError).idempotentReplayed).toBe(true);
+    });
+
+    it('should derive per-message keys in a batch', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        headers: new Headers({ 'content-type': 'application/json' }),
+        json: () => Promise.resolve(sentMessage),
+      });
+
+      const client = createClient();
+      await client.sendSmsBatch(
+        [
+          { to: '+256701521269', message: 'Hello 1' },
+          { to: '+256701521270', message: 'Hello 2' },
+        ],
+        { idempotencyKey: 'campaign-7', useBulkEndpoint: false }
+      );
+
+      expect(idempotencyKeys()).toEqual(['campaign-7:0', 'campaign-7:1']);
+    });
+  });
+
+  describe('cancellation and per-call options', () => {
+    const hangingFetch = (_url: string, options?: RequestInit) =>
+      new Promise((_, reject) => {
+        options?.signal?.addEventListener('abort', () => {
+          const error = new Error('The operation was aborted');
+          error.name = 'AbortError';
+          reject(error);
+        });
+      });
+
+    const unavailable = () => ({
+      ok: false,
+      status: 503,
+      statusText: 'Service Unavailable',
+      headers: new Headers({ 'content-type': 'application/json' }),
+      json: () =>
+        Promise.resolve({
+          error: { code: 'SERVICE_UNAVAILABLE', message: 'Try again' },
+        }),
+    });
+
+    const sent = () => ({
+      ok: true,
+      status: 200,
+      headers: new Headers({ 'content-type': 'application/json' }),
+      json: () => Promise.resolve(sentMessage),
+    });
+
+    it('should cancel an in-flight request', async () => {
+      mockFetch.mockImplementation(hangingFetch);
+      const controller = new AbortController();
+
+      const client = createClient();
+      const sending = client
+        .sendSms(
+          { to: '+256701521269', message: 'Hello' },
+          { signal: controller.signal }
+        )
+        .catch((e: unknown) => e);
+
+      await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(1));
+      controller.abort(new Error('Client disconnected'));
+      const error = await sending;
+
+      expect(error).toBeInstanceOf(MsGineCancelledError);
+      expect(error).not.toBeInstanceOf(MsGineTimeoutError);
+      expect(error).toMatchObject({
+        code: 'REQUEST_CANCELLED',
+        isRetryable: false,
+        cause: new Error('Client disconnected'),
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not send when the signal is already aborted', async () => {
+      const client = createClient();
+
+      await expect(
+        client.getMessage('msg_123', { signal: AbortSignal.abort() })
+      ).rejects.toThrow(MsGineCancelledError);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should interrupt the wait between retries', async () => {
+      mockFetch.mockResolvedValue(unavailable());
+      const controller = new AbortController();
+
+      const client = new MsGineClient({
+        apiToken: 'test-token',
+        fetch: mockFetch as unknown as typeof fetch,
+        retry: { initialDelay: 60_000, jitter: 'none' },
+      });
+      const sending = client
+        .sendSms(
+          { to: '+256701521269', message: 'Hello' },
+          { signal: controller.signal }
+        )
+        .catch((e: unknown) => e);
+
+      await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(1));
+      controller.abort();
+      const error = (await sending) as MsGineCancelledError;
+
+      expect(error).toBeInstanceOf(MsGineCancelledError);
+      expect(error.attempts).toMatchObject([{ attempt: 1, statusCode: 503 }]);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should apply a per-call timeout', async () => {
+      mockFetch.mockImplementation(hangingFetch);
+
+      const client = createClient();
+
+      await expect(
+        client.sendSms(
+          { to: '+256701521269', message: 'Hello' },
+          { timeout: 10, retry: { maxRetries: 0 } }
+        )
+      ).rejects.toThrow(MsGineTimeoutError);
+    });
+
+    it('should merge per-call retry settings and headers', async () => {
+      mockFetch
+        .mockResolvedValueOnce(unavailable())
+        .mockResolvedValueOnce(sent());
+
+      const client = new MsGineClient({
+        apiToken: 'test-token',
+        fetch: mockFetch as unknown as typeof fetch,
+        retry: { maxRetries: 0 },
+      });
+
+      await client.sendSms(
+        { to: '+256701521269', message: 'Hello' },
+        {
+          retry: { maxRetries: 1, initialDelay: 1 },
+          headers: { 'X-Trace-Id': 'trace-1' },
+          idempotencyKey: 'key-1',
+        }
+      );
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      const [, options] = mockFetch.mock.calls[1] as [string, RequestInit];
+      expect(options.headers).toMatchObject({
+        'X-Trace-Id': 'trace-1',
+        'Idempotency-Key': 'key-1',
+      });
+    });
+
+    it('should stop a batch once cancelled', async () => {
+      const controller = new AbortController();
+      mockFetch.mockImplementation(() => {
+        controller.abort();
+        return Promise.resolve(sent());
+      });
+
+      const client = createClient();
+      const results = await client.sendSmsBatch(
+        [
+          { to: '+256701521269', message: 'Hello 1' },
+          { to: '+256701521270', message: 'Hello 2' },
+        ],
+        { chunkSize: 1, useBulkEndpoint: false, signal: controller.signal }
+      );
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(results[0]).toMatchObject({ ok: true });
+      expect(results[1]).toMatchObject({ ok: false, index: 1 });
+      expect(results[1]?.ok === false && results[1].error).toBeInstanceOf(
+        MsGineCancelledError
+      );
+    });
+  });
+
+  describe('middleware', () => {
+    const okResponse = (data: unknown) => ({
+      ok: true,
+      status: 200,
+      headers: new Headers({ 'content-type': 'application/json' }),
+      json: () => Promise.resolve(data),
+    });
+
+    it('should let middleware rewrite requests and responses', async () => {
+      mockFetch.mockResolvedValueOnce(okResponse(sentMessage));
+      const calls: string[] = [];
+
+      const client = new MsGineClient({
+        apiToken: 'test-token',
+        fetch: mockFetch as unknown as typeof fetch,
+        middleware: [
+          {
+            onRequest: (context) => {
+              calls.push('outer:request');
+              context.options.headers['X-Tenant-Id'] = 'tenant-1';
+            },
+            onResponse: () => {
+              calls.push('outer:response');
+            },
+          },
+          {
+            onRequest: (context) => {
+              calls.push(`inner:request:${context.options.path}`);
+            },
+            onResponse: (_context, response) => {
+              calls.push('inner:response');
+              return {
+                ...(response as object),
+                status: MessageStatus.DELIVERED,
+              };
+            },
+          },
+        ],
+      });
+
+      const result = await client.sendSms({
+        to: '+256701521269',
+        message: 'Hello',
+      });
+
+      expect(result).toEqual({
+        ...sentMessage,
+        status: MessageStatus.DELIVERED,
+      });
+      expect(calls).toEqual([
+        'outer:request',
+        'inner:request:/messages/sms',
+        'inner:response',
+        'outer:response',
+      ]);
+
+      const [, options] = mockFetch.mock.calls[0] as [string, RequestInit];
+      expect(options.headers).toMatchObject({ 'X-Tenant-Id': 'tenant-1' });
+    });
+
+    it('should short-circuit with a cached response', async () => {
+      const cached = {
+        id: 'msg_cached',
+        sid: null,
+        channel: 'sms',
+        to: ['+256701521269'],
+        from: 'MsGine',
+        content: 'Hello',
+        status: 'delivered',
+        cost: 30,
+        currency: 'UGX',
+        createdAt: '2024-01-01T00:00:00Z',
+      };
+
+      const client = new MsGineClient({
+        apiToken: 'test-token',
+        fetch: mockFetch as unknown as typeof fetch,
+        middleware: [
+          {
+            onRequest: (context) =>
+              context.options.method === HttpMethod.GET
+                ? { response: cached }
+                : undefined,
+          },
+        ],
+      });
+
+      await expect(client.messages.get('msg_cached')).resolves.toEqual(cached);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should let onError recover from failures', async () => {
+      mockFetch.mockRejectedValueOnce(new Error('Network failure'));
+      const onError = vi.fn(() => ({
+        response: { ...sentMessage, id: 'msg_fallback' },
+      }));
+
+      const client = new MsGineClient({
+        apiToken: 'test-token',
+        fetch: mockFetch as unknown as typeof fetch,
+        middleware: [{ onError }],
+      });
+
+      const result = await client.sendSms({
+        to: '+256701521269',
+        message: 'Hello',
+      });
+
+      expect(result).toEqual({ ...sentMessage, id: 'msg_fallback' });
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ attempt: 1 }),
+        expect.any(MsGineError)
+      );
+    });
+  });
+
+  describe('logging', () => {
+    const createLogger = () => {
+      const records: Array<{
+        level: string;
+        message?: string;
+        fields: Record<string, unknown>;
+      }> = [];
+      const log =
+        (level: string) =>
+        (fields: Record<string, unknown>, message?: string) =>
+          records.push({ level, message, fields });
+      return {
+        records,
+        logger: {
+          debug: log('debug'),
+          info: log('info'),
+          warn: log('warn'),
+          error: log('error'),
+        },
+      };
+    };
+
+    it('should log redacted requests and responses', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: new Headers({
+          'content-type': 'application/json',
+          'x-request-id': 'req_1',
+        }),
+        json: () => Promise.resolve(sentMessage),
+      });
+
+      const { records, logger } = createLogger();
+      const client = new MsGineClient({
+        apiToken: 'test-token',
+        fetch: mockFetch as unknown as typeof fetch,
+        logger,
+        logLevel: 'debug',
+      });
+
+      await client.sendSms({
+        to: '+256701521269',
+        message: 'Your code is 123456',
+      });
+
+      expect(records.map((r) => r.level)).toEqual(['debug', 'info']);
+      expect(records[0]?.fields).toMatchObject({
+        method: 'POST',
+        path: '/messages/sms',
+        attempt: 1,
+        headers: { Authorization: '[REDACTED]' },
+        body: { to: '+256*******69', message: '[REDACTED]' },
+      });
+      expect(records[1]?.fields).toMatchObject({
+        status: 200,
+        attempt: 1,
+        requestId: 'req_1',
+        durationMs: expect.any(Number) as number,
+      });
+      expect(JSON.stringify(records)).not.toContain('123456');
+      expect(JSON.stringify(records)).not.toContain('test-token');
+    });
+
+    it('should redact template variables', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: new Headers({ 'content-type': 'application/json' }),
+        json: () => Promise.resolve(sentMessage),
+      });
+
+      const { records, logger } = createLogger();
+      const client = new MsGineClient({
+        apiToken: 'test-token',
+        fetch: mockFetch as unknown as typeof fetch,
+        logger,
+        logLevel: 'debug',
+      });
+
+      await client.sendSms({
+        to: [{ to: '+256701521269', variables: { code: '123456' } }],
+        message: 'Your code is {{code}}',
+        variables: { app: 'Acme' },
+      });
+
+      expect(records[0]?.fields).toMatchObject({
+        body: {
+          recipients: [
+            {
+              to: '+256*******69',
+              variables: { app: '[REDACTED]', code: '[REDACTED]' },
+            },
+          ],
+        },
+      });
+      expect(JSON.stringify(records)).not.toContain('123456');
+      expect(JSON.stringify(records)).not.toContain('Acme');
+    });
+
+    it('should log retries and final failures above the level', async () => {
+      mockFetch.mockResolvedValue({
+        ok: false,
+        status: 503,
+        statusText: 'Service Unavailable',
+        headers: new Headers({ 'content-type': 'application/json' }),
+        json: () =>
+          Promise.resolve({
+            error: { code: 'SERVICE_UNAVAILABLE', message: 'Try again' },
+          }),
+      });
+
+      const { records, logger } = createLogger();
+      const client = new MsGineClient({
+        apiToken: 'test-token',
+        fetch: mockFetch as unknown as typeof fetch,
+        retry: { maxRetries: 1, initialDelay: 1 },
+        logger,
+        logLevel: 'warn',
+      });
+
+      await expect(
+        client.sendSms({ to: '+256701521269', message: 'Hello' })
+      ).rejects.toThrow(MsGineError);
+
+      expect(records.map((r) => r.message)).toEqual([
+        'MsGine request attempt failed',
+        'Retrying MsGine request',
+        'MsGine request attempt failed',
+        'MsGine request failed',
+      ]);
+      expect(records[1]?.fields).toMatchObject({
+        attempt: 1,
+        status: 503,
+        code: 'SERVICE_UNAVAILABLE',
+      });
+      expect(records[3]?.fields).toMatchObject({ attempts: 2 });
+    });
+  });
+
+  describe('telemetry', () => {
+    const createTelemetry = () => {
+      const span = {
+        setAttribute: vi.fn(),
+        addEvent: vi.fn(),
+        recordException: vi.fn(),
+        setStatus: vi.fn(),
+        end: vi.fn(),
+      };
+      const instruments: Record<string, ReturnType<typeof vi.fn>> = {};
+      const tracer = { startSpan: vi.fn(() => span) };
+      const meter = {
+        createCounter: (name: string) => ({
+          add: (instruments[name] = vi.fn()),
+        }),
+        createHistogram: (name: string) => ({
+          record: (instruments[name] = vi.fn()),
+        }),
+      };
+      return { span, tracer, meter, instruments };
+    };
+
+    it('should trace requests and record message metrics', async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 503,
+          statusText: 'Service Unavailable',
+          headers: new Headers({ 'content-type': 'application/json' }),
+          json: () =>
+            Promise.resolve({
+              error: { code: 'SERVICE_UNAVAILABLE', message: 'Try again' },
+            }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          headers: new Headers({ 'content-type': 'application/json' }),
+          json: () =>
+            Promise.resolve({
+              id: 'msg_123',
+              sid: null,
+              channel: 'sms',
+              to: ['+256701521269'],
+              from: 'MsGine',
+              content: 'Hello',
+              status: 'pending',
+              cost: 30,
+              currency: 'UGX',
+              createdAt: '2024-01-01T00:00:00Z',
+            }),
+        });
+
+      const { span, tracer, meter, instruments } = createTelemetry();
+      const client = new MsGineClient({
+        apiToken: 'test-token',
+        fetch: mockFetch as unknown as typeof fetch,
+        retry: { initialDelay: 1 },
+        telemetry: { tracer, meter },
+      });
+
+      await client.sendSms({ to: '+256701521269', message: 'Hello' });
+
+      expect(tracer.startSpan).toHaveBeenCalledTimes(1);
+      expect(tracer.startSpan).toHaveBeenCalledWith('POST', {
+        kind: 2,
+        attributes: {
+          'http.request.method': 'POST',
+          'server.address': 'api.msgine.net',
+          'url.path': '/messages/sms',
+        },
+      });
+      expect(span.addEvent).toHaveBeenCalledWith(
+        'retry',
+        expect.objectContaining({
+          'http.request.resend_count': 1,
+          'http.response.status_code': 503,
+          'error.type': 'SERVICE_UNAVAILABLE',
+        })
+      );
+      expect(span.setStatus).not.toHaveBeenCalled();
+      expect(span.end).toHaveBeenCalledTimes(1);
+
+      expect(
+        instruments['msgine.client.request.duration']
+      ).toHaveBeenCalledWith(expect.any(Number), {
+        'http.request.method': 'POST',
+      });
+      expect(instruments['msgine.messages.sent']).toHaveBeenCalledWith(1, {
+        'msgine.channel': 'sms',
+      });
+      expect(instruments['msgine.messages.cost']).toHaveBeenCalledWith(30, {
+        'msgine.channel': 'sms',
+        'msgine.currency': 'UGX',
+      });
+    });
+
+    it('should record failures by error code', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 401,
+        statusText: 'Unauthorized',
+        headers: new Headers({ 'content-type': 'application/json' }),
+        json: () =>
+          Promise.resolve({
+            error: { code: 'UNAUTHORIZED', message: 'Invalid API token' },
+          }),
+      });
+
+      const { span, tracer, meter, instruments } = createTelemetry();
+      const client = new MsGineClient({
+        apiToken: 'test-token',
+        fetch: mockFetch as unknown as typeof fetch,
+        telemetry: { tracer, meter },
+      });
+
+      await expect(
+        client.sendSms({ to: '+256701521269', message: 'Hello' })
+      ).rejects.toThrow(MsGineError);
+
+      expect(
+        instruments['msgine.client.request.failures']
+      ).toHaveBeenCalledWith(1, {
+        'http.request.method': 'POST',
+        'error.type': 'UNAUTHORIZED',
+      });
+      expect(span.setAttribute).toHaveBeenCalledWith(
+        'http.response.status_code',
+        401
+      );
+      expect(span.setStatus).toHaveBeenCalledWith({
+        code: 2,
+        message: 'Invalid API token',
+      });
+      expect(span.recordException).toHaveBeenCalled();
+      expect(span.end).toHaveBeenCalledTimes(1);
+      expect(instruments['msgine.messages.sent']).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('sendSmsBatch', () => {
+    it('should send multiple SMS messages', async () => {
+      const mockResponse1 = {
+        id: 'msg_1',
+        sid: null,
+        channel: 'sms',
+        to: ['+256701521269'],
+        from: 'MsGine',
+        content: 'Hello 1',
+        status: 'pending',
+        cost: 30,
+        currency: 'UGX',
+        createdAt: '2024-01-01T00:00:00Z',
+      };
+
+      const mockResponse2 = {
+        id: 'msg_2',
+        sid: null,
+        channel: 'sms',
+        to: ['+256701521270'],
+        from: 'MsGine',
+        content: 'Hello 2',
+        status: 'pending',
+        cost: 30,
+        currency: 'UGX',
+        createdAt: '2024-01-01T00:00:00Z',
+      };
+
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          headers: new Headers({ 'content-type': 'application/json' }),
+          json: () => Promise.resolve(mockResponse1),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          headers: new Headers({ 'content-type': 'application/json' }),
+          json: () => Promise.resolve(mockResponse2),
+        });
+
+      const client = createClient();
+      const results = await client.sendSmsBatch(
+        [
+          { to: '+256701521269', message: 'Hello 1' },
+          { to: '+256701521270', message: 'Hello 2' },
+        ],
+        { useBulkEndpoint: false }
+      );
+
+      expect(results).toHaveLength(2);
+      expect(results[0]).toEqual({
+        ok: true,
+        index: 0,
+        response: mockResponse1,
+      });
+      expect(results[1]).toEqual({
+        ok: true,
+        index: 1,
+        response: mockResponse2,
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should report per-item results from the bulk endpoint', async () => {
+      const sent = {
+        id: 'msg_1',
+        sid: null,
+        channel: 'sms',
+        to: ['+256701521269'],
+        from: 'MsGine',
+        content: 'Hello 1',
+        status: 'pending',
+        cost: 30,
+        currency: 'UGX',
+        createdAt: '2024-01-01T00:00:00Z',
+      };
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: new Headers({ 'content-type': 'application/json' }),
+        json: () =>
+          Promise.resolve({
+            data: [
+              { index: 0, message: sent },
+              {
+                index: 1,
+                error: { code: 'INVALID_RECIPIENT', message: 'Bad number' },
+              },
+            ],
+          }),
+      });
+
+      const client = createClient();
+      const results = await client.sendSmsBatch([
+        { to: '+256701521269', message: 'Hello 1' },
+        { to: '+256700000000', message: 'Hello 2' },
+      ]);
+
+      const [url, options] = mockFetch.mock.calls[0] as [string, RequestInit];
+      expect(url).toContain('/messages/sms/bulk');
+      expect(JSON.parse(options.body as string)).toEqual({
+        messages: [
+          { to: '+256701521269', message: 'Hello 1' },
+          { to: '+256700000000', message: 'Hello 2' },
+        ],
+      });
+
+      expect(results[0]).toEqual({ ok: true, index: 0, response: sent });
+      expect(results[1]).toMatchObject({
+        ok: false,
+        index: 1,
+        payload: { to: '+256700000000', message: 'Hello 2' },
+      });
+
+      const failure = results[1];
+      if (failure && !failure.ok) {
+        expect(failure.error).toBeInstanceOf(MsGineError);
+        expect((failure.error as MsGineError).code).toBe('INVALID_RECIPIENT');
+      }
+    });
+
+    it('should fall back to individual sends and keep partial failures', async () => {
+      const sent = {
+        id: 'msg_2',
+        sid: null,
+        channel: 'sms',
+        to: ['+256701521270'],
+        from: 'MsGine',
+        content: 'Hello 2',
+        status: 'pending',
+        cost: 30,
+        currency: 'UGX',
+        createdAt: '2024-01-01T00:00:00Z',
+      };
+
+      const notFound = () => ({
+        ok: false,
+        status: 404,
+        statusText: 'Not Found',
+        headers: new Headers({ 'content-type': 'application/json' }),
+        json: () =>
+          Promise.resolve({
+            error: { code: 'NOT_FOUND', message: 'Not found' },
+          }),
+      });
+
+      mockFetch.mockImplementation((url: string, options: RequestInit) => {
+        if (url.endsWith('/messages/sms/bulk')) {
+          return Promise.resolve(notFound());
+        }
+        const body = JSON.parse(options.body as string) as { to: string };
+        if (body.to === '+256701521269') {
+          return Promise.resolve({
+            ok: false,
+            status: 400,
+            statusText: 'Bad Request',
+            headers: new Headers({ 'content-type': 'application/json' }),
+            json: () =>
+              Promise.resolve({
+                error: { code: 'INVALID_RECIPIENT', message: 'Bad number' },
+              }),
+          });
+        }
+        return Promise.resolve({
+          ok: true,
+          status: 200,
+          headers: new Headers({ 'content-type': 'application/json' }),
+          json: () => Promise.resolve(sent),
+        });
+      });
+
+      const client = createClient();
+      const payloads = [
+        { to: '+256701521269', message: 'Hello 1' },
+        { to: '+256701521270', message: 'Hello 2' },
+      ];
+
+      const results = await client.sendSmsBatch(payloads);
+
+      expect(results.map((result) => result.ok)).toEqual([false, true]);
+      expect(results[1]).toEqual({ ok: true, index: 1, response: sent });
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+
+      // The missing bulk endpoint is remembered
+      await client.sendSmsBatch(payloads);
+      expect(mockFetch).toHaveBeenCalledTimes(5);
+    });
+
+    it('should validate all payloads before sending', async () => {
+      const client = createClient();
+
+      await expect(
+        client.sendSmsBatch([
+          { to: '+256701521269', message: 'Valid' },
+          { to: '', message: 'Invalid' },
+        ])
+      ).rejects.toThrow(MsGineValidationError);
+
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getMessage', () => {
+    it('should fetch a message by ID', async () => {
+      const mockMessage = {
+        id: 'msg_123',
+        sid: 'SM123',
+        channel: 'sms',
+        to: ['+256701521269'],
+        from: 'MsGine',
+        content: 'Hello',
+        status: 'delivered',
+        cost: 30,
+        currency: 'UGX',
+        createdAt: '2024-01-01T00:00:00Z',
+        updatedAt: '2024-01-01T00:00:05Z',
+      };
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: new Headers({ 'content-type': 'application/json' }),
+        json: () => Promise.resolve(mockMessage),
+      });
+
+      const client = createClient();
+      const result = await client.getMessage('msg_123');
+
+      expect(result).toEqual(mockMessage);
+
+      const [url, options] = mockFetch.mock.calls[0] as [string, RequestInit];
+      expect(url).toContain('/messages/msg_123');
+      expect(options.method).toBe('GET');
+      expect(options.body).toBeUndefined();
+    });
+
+    it('should validate message ID', async () => {
+      const client = createClient();
+
+      await expect(client.getMessage('')).rejects.toThrow(
+        MsGineValidationError
+      );
+
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should reject malformed responses', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: new Headers({ 'content-type': 'application/json' }),
+        json: () => Promise.resolve({ id: 'msg_123', status: 'unknown' }),
+      });
+
+      const client = createClient();
+
+      await expect(client.getMessage('msg_123')).rejects.toThrow(
+        MsGineValidationError
+      );
+    });
+  });
+
+  describe('response validation', () => {
+    const okResponse = (
+      data: unknown,
+      headers: Record<string, string> = {}
+    ) => ({
+      ok: true,
+      status: 200,
+      headers: new Headers({ 'content-type': 'application/json', ...headers }),
+      json: () => Promise.resolve(data),
+    });
+
+    it('should unwrap the data envelope and expose response metadata', async () => {
+      mockFetch.mockResolvedValueOnce(
+        okResponse({
+          data: sentMessage,
+          meta: { requestId: 'req_1', timestamp: '2024-01-01T00:00:01Z' },
+        })
+      );
+
+      const client = createClient();
+      const result = await client.sendSms({
+        to: '+256701521269',
+        message: 'Hello',
+      });
+
+      expect(result).toEqual(sentMessage);
+      expect(getResponseMeta(result)).toMatchObject({
+        requestId: 'req_1',
+        timestamp: '2024-01-01T00:00:01Z',
+        status: 200,
+      });
+      expect(Object.keys(result)).not.toContain('$meta');
+      expect(JSON.stringify(result)).toBe(JSON.stringify(sentMessage));
+    });
+
+    it('should fall back to the request ID header', async () => {
+      mockFetch.mockResolvedValueOnce(
+        okResponse(sentMessage, { 'x-request-id': 'req_2' })
+      );
+
+      const client = createClient();
+      const message = await client.messages.get('msg_123');
+
+      expect(getResponseMeta(message)?.requestId).toBe('req_2');
+      expect(getResponseMeta(message)?.headers?.get('x-request-id')).toBe(
+        'req_2'
+      );
+    });
+
+    it('should keep metadata on list pages', async () => {
+      mockFetch.mockResolvedValueOnce(
+        okResponse({ data: [sentMessage], meta: { requestId: 'req_3' } })
+      );
+
+      const client = createClient();
+      const page = await client.messages.listPage();
+
+      expect(page.data).toEqual([sentMessage]);
+      expect(getResponseMeta(page)?.requestId).toBe('req_3');
+    });
+
+    it('should reject mismatched responses in strict mode', async () => {
+      mockFetch.mockResolvedValueOnce(okResponse({ data: { id: 'msg_123' } }));
+
+      const client = createClient();
+
+      await expect(client.messages.get('msg_123')).rejects.toThrow(
+        'Invalid message response'
+      );
+    });
+
+    it('should only log mismatched send responses in strict mode', async () => {
+      mockFetch.mockResolvedValueOnce(okResponse({ data: { id: 'msg_123' } }));
+      const warn = vi.fn();
+
+      const client = new MsGineClient({
+        apiToken: 'test-token',
+        fetch: mockFetch as unknown as typeof fetch,
+        logger: { debug: vi.fn(), info: vi.fn(), warn, error: vi.fn() },
+      });
+
+      await expect(
+        client.sendSms({ to: '+256701521269', message: 'Hello' })
+      ).resolves.toEqual({ id: 'msg_123' });
+      expect(warn).toHaveBeenCalledWith(
+        expect.objectContaining({ response: 'SMS send' }),
+        'Unexpected MsGine response'
+      );
+    });
+
+    it.each([null, 'OK', { data: null }])(
+      'should resolve sends answered with %j',
+      async (body) => {
+        mockFetch.mockResolvedValueOnce(okResponse(body));
+
+        const client = createClient();
+        const response = await client.sendSms({
+          to: ['+256701521269', '+256701521270'],
+          message: 'Hello',
+        });
+
+        expect(response).toMatchObject({
+          to: ['+256701521269', '+256701521270'],
+          content: 'Hello',
+          recipients: [{ to: '+256701521269' }, { to: '+256701521270' }],
+        });
+      }
+    );
+
+    it.each([null, 'OK', { data: null }, { data: [null] }])(
+      'should report per-item results for bulk sends answered with %j',
+      async (body) => {
+        mockFetch.mockResolvedValueOnce(okResponse(body));
+
+        const client = createClient();
+        const results = await client.sendSmsBatch([
+          { to: '+256701521269', message: 'Hello 1' },
+          { to: '+256701521270', message: 'Hello 2' },
+        ]);
+
+        expect(results).toMatchObject([
+          { ok: false, index: 0, error: { code: 'MISSING_RESULT' } },
+          { ok: false, index: 1, error: { code: 'MISSING_RESULT' } },
+        ]);
+      }
+    );
+
+    it('should accept channels and statuses added by the API', async () => {
+      mockFetch.mockResolvedValueOnce(
+        okResponse({
+          data: { ...sentMessage, channel: 'rcs', status: 'queued' },
+        })
+      );
+
+      const client = createClient();
+      const message = await client.messages.get('msg_123');
+
+      expect(message).toMatchObject({ channel: 'rcs', status: 'queued' });
+    });
+
+    it('should log mismatched responses in warn mode', async () => {
+      mockFetch.mockResolvedValueOnce(okResponse({ id: 'msg_123' }));
+      const warn = vi.fn();
+
+      const client = new MsGineClient({
+        apiToken: 'test-token',
+        fetch: mockFetch as unknown as typeof fetch,
+        responseValidation: 'warn',
+        logger: { debug: vi.fn(), info: vi.fn(), warn, error: vi.fn() },
+      });
+      const result = await client.sendSms({
+        to: '+256701521269',
+        message: 'Hello',
+      });
+
+      expect(result).toEqual({ id: 'msg_123' });
+      expect(warn).toHaveBeenCalledWith(
+        expect.objectContaining({
+          response: 'SMS send',
+          issues: expect.arrayContaining([
+            expect.objectContaining({ path: ['createdAt'] }),
+          ]) as unknown,
+        }),
+        'Unexpected MsGine response'
+      );
+    });
+
+    it('should skip validation when off', async () => {
+      mockFetch.mockResolvedValueOnce(
+        okResponse({ data: { id: 'msg_123', extra: true } })
+      );
+
+      const client = new MsGineClient({
+        apiToken: 'test-token',
+        fetch: mockFetch as unknown as typeof fetch,
+        responseValidation: 'off',
+      });
+
+      await expect(client.messages.get('msg_123')).resolves.toEqual({
+        id: 'msg_123',
+        extra: true,
+      });
+    });
+  });
+
+  describe('scheduling', () => {
+    const scheduledMessage = {
+      id: 'msg_123',
+      sid: null,
+      channel: 'sms',
+      to: ['+256701521269'],
+      from: 'MsGine',
+      content: 'Reminder',
+      status: 'scheduled',
+      cost: 30,
+      currency: 'UGX',
+      createdAt: '2025-06-01T00:00:00Z',
+      sendAt: '2025-06-01T06:00:00.000Z',
+      timezone: 'Africa/Kampala',
+    };
+
+    const respondWith = (body: unknown) =>
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: new Headers({ 'content-type': 'application/json' }),
+        json: () => Promise.resolve(body),
+      });
+
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2025-06-01T00:00:00Z'));
+    });
+
+    it('should schedule wall-clock times in the given time zone', async () => {
+      respondWith(scheduledMessage);
+
+      const client = createClient();
+      await client.sendSms({
+        to: '+256701521269',
+        message: 'Reminder',
+        sendAt: '2025-06-01T09:00:00',
+        timezone: 'Africa/Kampala',
+      });
+
+      const [, options] = mockFetch.mock.calls[0] as [string, RequestInit];
+      expect(JSON.parse(options.body as string)).toEqual({
+        to: '+256701521269',
+        message: 'Reminder',
+        sendAt: '2025-06-01T06:00:00.000Z',
+        timezone: 'Africa/Kampala',
+      });
+    });
+
+    it('should account for daylight saving time', async () => {
+      respondWith(scheduledMessage);
+
+      const client = createClient();
+      await client.sendSms({
+        to: '+256701521269',
+        message: 'Reminder',
+        sendAt: '2025-06-02T09:00:00',
+        timezone: 'America/New_York',
+      });
+
+      const [, options] = mockFetch.mock.calls[0] as [string, RequestInit];
+      expect(JSON.parse(options.body as string)).toMatchObject({
+        sendAt: '2025-06-02T13:00:00.000Z',
+      });
+    });
+
+    it.each([
+      ['2025-05-31T23:00:00Z', undefined, 'sendAt must be in the future'],
+      [
+        new Date('2025-08-01T00:00:00Z'),
+        undefined,
+        'sendAt cannot be more than 30 days ahead',
+      ],
+      [
+        '2025-06-01T09:00:00',
+        undefined,
+        'sendAt without a UTC offset requires a timezone',
+      ],
+      ['2025-06-01T09:00:00', 'Mars/Olympus', 'Invalid IANA time zone'],
+    ])('should reject sendAt %s', async (sendAt, timezone, message) => {
+      const client = createClient();
+
+      const error = await client
+        .sendSms({ to: '+256701521269', message: 'Hi', sendAt, timezone })
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(MsGineValidationError);
+      expect((error as MsGineValidationError).errors.issues[0]?.message).toBe(
+        message
+      );
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should cancel a scheduled message', async () => {
+      respondWith({ ...scheduledMessage, status: 'cancelled' });
+
+      const client = createClient();
+      const result = await client.cancelMessage('msg_123');
+
+      expect(result.status).toBe(MessageStatus.CANCELLED);
+      const [url, options] = mockFetch.mock.calls[0] as [string, RequestInit];
+      expect(url).toContain('/messages/msg_123');
+      expect(options.method).toBe(HttpMethod.DELETE);
+    });
+
+    it('should reschedule a message', async () => {
+      respondWith({ ...scheduledMessage, sendAt: '2025-06-02T05:00:00.000Z' });
+
+      const client = createClient();
+      const result = await client.rescheduleMessage(
+        'msg_123',
+        '2025-06-02T08:00:00',
+        { timezone: 'Africa/Kampala' }
+      );
+
+      expect(result.sendAt).toBe('2025-06-02T05:00:00.000Z');
+      const [url, options] = mockFetch.mock.calls[0] as [string, RequestInit];
+      expect(url).toContain('/messages/msg_123');
+      expect(options.method).toBe(HttpMethod.PATCH);
+      expect(JSON.parse(options.body as string)).toEqual({
+        sendAt: '2025-06-02T05:00:00.000Z',
+        timezone: 'Africa/Kampala',
+      });
+    });
+
+    it('should not reschedule into the past', async () => {
+      const client = createClient();
+
+      await expect(
+        client.rescheduleMessage('msg_123', new Date('2025-05-01T00:00:00Z'))
+      ).rejects.toThrow(MsGineValidationError);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('listMessages', () => {
+    it('should pass filters as query parameters', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: new Headers({ 'content-type': 'application/json' }),
+        json: () => Promise.resolve({ data: [] }),
+      });
+
+      const client = createClient();
+      const result = await client.listMessages({
+        status: MessageStatus.FAILED,
+        to: '+256701521269',
+        createdAfter: new Date('2024-01-01T00:00:00Z'),
+        createdBefore: '2024-02-01T00:00:00Z',
+      });
+
+      expect(result.data).toEqual([]);
+
+      const [url, options] = mockFetch.mock.calls[0] as [string, RequestInit];
+      const { pathname, searchParams } = new URL(url);
+      expect(pathname).toBe('/api/v1/messages');
+      expect(options.method).toBe('GET');
+      expect(searchParams.get('status')).toBe('failed');
+      expect(searchParams.get('to')).toBe('+256701521269');
+      expect(searchParams.get('createdAfter')).toBe('2024-01-01T00:00:00.000Z');
+      expect(searchParams.get('createdBefore')).toBe('2024-02-01T00:00:00Z');
+      expect(searchParams.has('from')).toBe(false);
+    });
+
+    it('should validate filters', async () => {
+      const client = createClient();
+
+      await expect(
+        client.listMessages({ createdAfter: 'yesterday' })
+      ).rejects.toThrow(MsGineValidationError);
+
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('messages.list', () => {
+    it('should iterate over every page with the same filters', async () => {
+      const message = {
+        sid: null,
+        channel: 'sms',
+        to: ['+256701521269'],
+        from: 'MsGine',
+        content: 'Hello',
+        status: 'failed',
+        cost: 30,
+        currency: 'UGX',
+        createdAt: '2024-01-01T00:00:00Z',
+      };
+
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          headers: new Headers({ 'content-type': 'application/json' }),
+          json: () =>
+            Promise.resolve({
+              data: [{ ...message, id: 'msg_1' }],
+              meta: { nextCursor: 'cursor_2' },
+            }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          headers: new Headers({ 'content-type': 'application/json' }),
+          json: () =>
+            Promise.resolve({
+              data: [{ ...message, id: 'msg_2' }],
+              meta: { nextCursor: null },
+            }),
+        });
+
+      const client = createClient();
+      const ids: string[] = [];
+
+      for await (const msg of client.messages.list({
+        status: MessageStatus.FAILED,
+        limit: 1,
+      })) {
+        ids.push(msg.id);
+      }
+
+      expect(ids).toEqual(['msg_1', 'msg_2']);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+
+      const [url] = mockFetch.mock.calls[1] as [string, RequestInit];
+      const { searchParams } = new URL(url);
+      expect(searchParams.get('status')).toBe('failed');
+      expect(searchParams.get('limit')).toBe('1');
+      expect(searchParams.get('cursor')).toBe('cursor_2');
+    });
+  });
+
+  describe('configuration', () => {
+    it('should require API token', () => {
+      expect(() => {
+        new MsGineClient({
+          apiToken: '',
+        });
+      }).toThrow('API token is required');
+    });
+
+    it('should limit concurrent requests', async () => {
+      const responses: Array<(value: unknown) => void> = [];
+      mockFetch.mockImplementation(
+        () => new Promise((resolve) => responses.push(resolve))
+      );
+
+      const client = new MsGineClient({
+        apiToken: 'test-token',
+        fetch: mockFetch as unknown as typeof fetch,
+        concurrency: 1,
+      });
+
+      const sends = [1, 2].map((i) =>
+        client.sendSms({ to: '+256701521269', message: `Hello ${i}` })
+      );
+      await Promise.resolve();
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(client.getLimiterStats()).toMatchObject({
+        active: 1,
+        queueDepth: 1,
+      });
+
+      const ok = {
+        ok: true,
+        status: 200,
+        headers: new Headers({ 'content-type': 'application/json' }),
+        json: () => Promise.resolve({ ...sentMessage, id: 'msg_1' }),
+      };
+      responses[0]!(ok);
+      await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(2));
+      responses[1]!(ok);
+
+      await Promise.all(sends);
+    });
+
+    it('should cancel requests waiting for a concurrency slot', async () => {
+      const responses: Array<(value: unknown) => void> = [];
+      mockFetch.mockImplementation(
+        () => new Promise((resolve) => responses.push(resolve))
+      );
+
+      const client = new MsGineClient({
+        apiToken: 'test-token',
+        fetch: mockFetch as unknown as typeof fetch,
+        concurrency: 1,
+      });
+      const controller = new AbortController();
+
+      const first = client.sendSms({ to: '+256701521269', message: 'One' });
+      const queued = client
+        .sendSms(
+          { to: '+256701521269', message: 'Two' },
+          { signal: controller.signal }
+        )
+        .catch((e: unknown) => e);
+      await Promise.resolve();
+      expect(client.getLimiterStats().queueDepth).toBe(1);
+
+      controller.abort();
+
+      expect(await queued).toBeInstanceOf(MsGineCancelledError);
+      expect(client.getLimiterStats().queueDepth).toBe(0);
+
+      responses[0]!({
+        ok: true,
+        status: 200,
+        headers: new Headers({ 'content-type': 'application/json' }),
+        json: () => Promise.resolve(sentMessage),
+      });
+      await first;
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should use custom base URL', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: new Headers({ 'content-type': 'application/json' }),
+        json: () => Promise.resolve(sentMessage),
       });
 
       const client = new MsGineClient({
@@ -1,12 +1,232 @@
-import { FetchHttpClient } from './http-client';
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import { Account } from './account';
+import { Contacts } from './contacts';
+import { Conversations } from './conversations';
 import {
+  cancellationError,
+  FetchHttpClient,
+  IDEMPOTENCY_KEY_HEADER,
+} from './http-client';
+import { Groups } from './groups';
+import { Inbound } from './inbound';
+import { Keywords } from './keywords';
+import { Messages } from './messages';
+import type { MockMsGineApi } from './mock-api';
+import { safeParsePhoneNumber } from './phone';
+import { Pricing } from './pricing';
+import { getResponseMeta } from './responses';
+import { estimateCost, PricingTable } from './segments';
+import { Suppressions } from './suppressions';
+import { Templates } from './templates';
+import { Usage } from './usage';
+import { Verify } from './verify';
+import {
+  BulkSendResponse,
+  BulkSendResponseSchema,
+  CallOptions,
+  Contact,
+  createMsGineError,
+  createSendSmsSchema,
   HttpMethod,
+  ListMessagesParams,
+  LimiterStats,
+  ListMessagesResponse,
+  Message,
+  MessageChannel,
   MsGineClientConfig,
+  MsGineError,
+  MsGineInsufficientBalanceError,
+  MsGinePricingError,
+  MsGineSuppressionError,
   MsGineValidationError,
+  RescheduleMessageOptions,
+  RespectSuppressionMode,
+  SendSmsBatchOptions,
+  SendSmsBatchResult,
+  SendSmsOptions,
   SendSmsPayload,
+  SendSmsRecipientResult,
   SendSmsResponse,
-  SendSmsSchema,
+  SendSmsResponseSchema,
+  SendTemplateParams,
+  SendToGroupPayload,
+  SkippedRecipient,
+  SmsRecipient,
+  TemplateBody,
+  TemplateDefinition,
+  TemplateVariables,
 } from './types';
+import { isRecord, toCallOptions } from './utils';
+
+/**
+ * Default number of messages per bulk request
+ */
+const DEFAULT_BATCH_CHUNK_SIZE = 100;
+
+/**
+ * Status codes indicating the bulk endpoint is not available
+ */
+const BULK_UNSUPPORTED_STATUS_CODES = [404, 405, 501];
+
+/**
+ * Leading digits of the national number that numbers of an unknown country
+ * must share, with their calling code, to be priced with a single lookup,
+ * e.g. the area code of `+1` numbers
+ */
+const PRICE_PREFIX_LENGTH = 3;
+
+/**
+ * SMS send request body
+ */
+interface SendSmsBody
+  extends Omit<SendSmsPayload, 'to' | 'variables' | 'sendAt'> {
+  to: string | string[];
+  recipients?: { to: string; variables: TemplateVariables }[];
+  sendAt?: string;
+}
+
+/**
+ * Build the request body for a validated payload, merging the shared
+ * template variables into each recipient's own
+ */
+function toSendSmsBody(payload: SendSmsPayload): SendSmsBody {
+  const { to, variables, sendAt, ...options } = payload;
+  const recipients = (Array.isArray(to) ? to : [to]).map((recipient) =>
+    typeof recipient === 'string'
+      ? { to: recipient, variables: { ...variables } }
+      : {
+          to: recipient.to,
+          variables: { ...variables, ...recipient.variables },
+        }
+  );
+  const hasVariables = recipients.some(
+    (recipient) => Object.keys(recipient.variables).length > 0
+  );
+
+  return {
+    ...options,
+    to: Array.isArray(to)
+      ? recipients.map((recipient) => recipient.to)
+      : recipients[0]!.to,
+    ...(hasVariables && { recipients }),
+    ...(sendAt !== undefined && {
+      sendAt: sendAt instanceof Date ? sendAt.toISOString() : sendAt,
+    }),
+  };
+}
+
+/**
+ * Map a multi-recipient response back to each recipient, falling back to
+ * the message's own ID and status when the API did not report them
+ * individually
+ */
+function recipientResults(
+  to: string[],
+  response: SendSmsResponse
+): SendSmsRecipientResult[] {
+  // Unvalidated responses may not carry the expected recipients
+  const recipients = Array.isArray(response.recipients)
+    ? response.recipients
+    : [];
+
+  return to.map(
+    (number) =>
+      recipients.find((result) => result.to === number) ?? {
+        to: number,
+        id: response.id,
+        status: response.status,
+      }
+  );
+}
+
+/**
+ * Stand-in for a send response that did not describe the message, with
+ * what is known from the request. The message was still sent, so this is
+ * returned rather than an error that would invite a retry.
+ */
+function unconfirmedResponse(body: SendSmsBody): SendSmsResponse {
+  return {
+    to: Array.isArray(body.to) ? body.to : [body.to],
+    from: body.from,
+    content: body.message,
+    channel: body.channel ?? MessageChannel.SMS,
+  } as SendSmsResponse;
+}
+
+/**
+ * Phone number of a recipient given as a number or with its own variables
+ */
+function recipientNumber(recipient: string | SmsRecipient): string {
+  return typeof recipient === 'string' ? recipient : recipient.to;
+}
+
+/**
+ * Template variables of a contact: its name and custom fields
+ */
+function contactVariables(contact: Contact): TemplateVariables {
+  const variables: TemplateVariables =
+    contact.name !== undefined ? { name: contact.name } : {};
+
+  for (const [name, value] of Object.entries(contact.fields ?? {})) {
+    variables[name] = typeof value === 'boolean' ? String(value) : value;
+  }
+
+  return variables;
+}
+
+/**
+ * Whether a channel reported by the API is one this SDK can send on
+ */
+function isMessageChannel(channel: string): channel is MessageChannel {
+  return (Object.values(MessageChannel) as string[]).includes(channel);
+}
+
+/**
+ * Build the error thrown when prices are not in the balance's currency
+ */
+function currencyMismatch(
+  currency: string,
+  priceCurrency: string
+): MsGinePricingError {
+  return new MsGinePricingError(
+    `Cannot check balance in ${currency} against prices in ${priceCurrency}`,
+    'CURRENCY_MISMATCH'
+  );
+}
+
+/**
+ * Validated payload with the recipients left out of it by suppression
+ * screening. `payload` is unset when every recipient was left out.
+ */
+interface ScreenedPayload {
+  payload?: SendSmsPayload;
+  skipped: SkippedRecipient[];
+}
+
+/**
+ * Batch payload to send, with its position in the batch
+ */
+interface BatchEntry {
+  index: number;
+  payload: SendSmsPayload;
+}
+
+/**
+ * Build a failed batch result
+ */
+function failedResult(
+  index: number,
+  payload: SendSmsPayload,
+  error: unknown
+): SendSmsBatchResult {
+  return {
+    ok: false,
+    index,
+    payload,
+    error: error instanceof Error ? error : new Error(String(error)),
+  };
+}
 
 /**
  * Main MsGine SDK client
@@ -23,25 +243,181 @@ import {
  * });
  * ```
  */
-export class MsGineClient {
+export class MsGineClient<
+  const TTemplates extends Record<string, TemplateDefinition> = Record<
+    string,
+    TemplateDefinition
+  >,
+> {
   private readonly httpClient: FetchHttpClient;
 
+  /**
+   * Message lookup and listing endpoints
+   */
+  readonly messages: Messages;
+
+  /**
+   * Message template registry
+   */
+  readonly templates: Templates;
+
+  /**
+   * One-time code verification
+   */
+  readonly verify: Verify;
+
+  /**
+   * Inbound message lookup and listing endpoints
+   */
+  readonly inbound: Inbound;
+
+  /**
+   * Two-way conversations, keyed by the customer's number
+   */
+  readonly conversations: Conversations;
+
+  /**
+   * STOP, START and HELP keyword handling for inbound messages
+   */
+  readonly keywords: Keywords;
+
+  /**
+   * Suppression list endpoints
+   */
+  readonly suppressions: Suppressions;
+
+  /**
+   * Account balance endpoint
+   */
+  readonly account: Account;
+
+  /**
+   * Price lookup endpoint
+   */
+  readonly pricing: Pricing;
+
+  /**
+   * Usage reporting endpoint
+   */
+  readonly usage: Usage;
+
+  /**
+   * Address book endpoints
+   */
+  readonly contacts: Contacts;
+
+  /**
+   * Contact group endpoints
+   */
+  readonly groups: Groups;
+
+  /**
+   * Mock API receiving every request when the `sandbox` option is set
+   */
+  readonly sandbox?: MockMsGineApi;
+
+  /**
+   * Set once the server has reported that it has no bulk endpoint
+   */
+  private bulkEndpointUnsupported = false;
+
+  /**
+   * How sends treat suppressed recipients, if they are checked at all
+   */
+  private readonly respectSuppression?: RespectSuppressionMode;
+
+  /**
+   * Payload schema using the configured default country
+   */
+  private readonly sendSmsSchema: ReturnType<typeof createSendSmsSchema>;
+
   /**
    * Create a new MsGine client
    *
    * @param config - Client configuration
    * @throws {Error} If API token is not provided
    */
-  constructor(config: MsGineClientConfig) {
-    this.httpClient = new FetchHttpClient(config);
+  constructor(config: MsGineClientConfig & { templates?: TTemplates }) {
+    this.sandbox = config.sandbox;
+    this.httpClient = new FetchHttpClient(
+      this.sandbox ? { ...config, fetch: this.sandbox.fetch } : config
+    );
+    this.messages = new Messages(this.httpClient, this.httpClient.responses);
+    this.templates = new Templates(
+      this.httpClient,
+      config.templates,
+      this.httpClient.responses
+    );
+    this.sendSmsSchema = createSendSmsSchema({
+      defaultCountry: config.defaultCountry,
+    });
+    this.verify = new Verify(this, config.verify, {
+      defaultCountry: config.defaultCountry,
+    });
+    this.inbound = new Inbound(this.httpClient, this.httpClient.responses);
+    this.conversations = new Conversations(
+      this.httpClient,
+      { defaultCountry: config.defaultCountry },
+      this.httpClient.responses
+    );
+    this.suppressions = new Suppressions(
+      this.httpClient,
+      { defaultCountry: config.defaultCountry },
+      config.suppressionCacheTtl,
+      this.httpClient.responses
+    );
+    this.respectSuppression = config.respectSuppression;
+    this.keywords = new Keywords(this, config.keywords);
+    this.account = new Account(this.httpClient, this.httpClient.responses);
+    this.pricing = new Pricing(
+      this.httpClient,
+      { defaultCountry: config.defaultCountry },
+      this.httpClient.responses
+    );
+    this.usage = new Usage(this.httpClient, this.httpClient.responses);
+    this.contacts = new Contacts(
+      this.httpClient,
+      { defaultCountry: config.defaultCountry },
+      this.httpClient.responses
+    );
+    this.groups = new Groups(this.httpClient, this.httpClient.responses);
+  }
+
+  /**
+   * Get the current queue depth, in-flight requests and wait times of the
+   * client-side concurrency and rate limiter
+   *
+   * @example
+   * ```typescript
+   * const { queueDepth, maxWaitMs } = client.getLimiterStats();
+   * ```
+   */
+  getLimiterStats(): LimiterStats {
+    return this.httpClient.getLimiterStats();
   }
 
   /**
    * Send an SMS message
    *
+   * Recipients are normalised to E.164 before sending, so numbers in
+   * national format are accepted when `defaultCountry` is configured. Pass
+   * an array to send to several recipients in one request; duplicates are
+   * dropped and `response.recipients` holds the outcome for each. Template
+   * variables fill `{{name}}` placeholders, with per-recipient values
+   * overriding the shared ones. Set `sendAt` to schedule the message
+   * instead of sending it immediately. Set `toGroup` instead of `to` to
+   * send to the contacts of a group, with each contact's name and custom
+   * fields as its template variables. With `respectSuppression`,
+   * suppressed recipients are left out and listed in `response.skipped`,
+   * or refuse the send.
+   *
    * @param payload - SMS message data
+   * @param options - Send options
    * @returns Promise resolving to the SMS response
    * @throws {MsGineValidationError} If payload validation fails
+   * @throws {MsGineSuppressionError} If `respectSuppression` leaves no
+   * recipient to send to, or is `reject` and a recipient is suppressed
+   * @throws {MsGineCancelledError} If `options.signal` aborts the request
    * @throws {MsGineError} If the API request fails
    *
    * @example
@@ -53,31 +429,162 @@ export class MsGineClient {
    *
    * console.log('Message ID:', result.messageId);
    * console.log('Status:', result.status);
+   *
+   * const broadcast = await client.sendSms({
+   *   to: [
+   *     { to: '+256701521269', variables: { name: 'Alice' } },
+   *     { to: '+256701521270', variables: { name: 'Bob' } },
+   *   ],
+   *   message: 'Hi {{name}}!',
+   * });
+   *
+   * await client.sendSms({
+   *   toGroup: vip.id,
+   *   message: 'Hi {{name}}, your {{plan}} perks are waiting!',
+   * });
    * ```
    */
-  async sendSms(payload: SendSmsPayload): Promise<SendSmsResponse> {
+  async sendSms(
+    payload: SendSmsPayload | SendToGroupPayload,
+    options: SendSmsOptions = {}
+  ): Promise<SendSmsResponse> {
+    if ('toGroup' in payload) {
+      payload = await this.addressGroup(payload, options);
+    }
+
     // Validate payload
-    const validation = SendSmsSchema.safeParse(payload);
+    const validation = this.sendSmsSchema.safeParse(payload);
 
     if (!validation.success) {
       throw new MsGineValidationError('Invalid SMS payload', validation.error);
     }
 
-    // Send request
-    return this.httpClient.request<SendSmsResponse, SendSmsPayload>({
-      method: HttpMethod.POST,
-      path: '/messages/sms',
-      body: validation.data,
-    });
+    const [screened] = options.ignoreSuppression
+      ? [{ payload: validation.data, skipped: [] }]
+      : await this.screenSuppressed([validation.data], options);
+
+    if (!screened?.payload) {
+      throw new MsGineSuppressionError(
+        'All recipients are suppressed',
+        screened?.skipped ?? []
+      );
+    }
+
+    const response = await this.postSms(screened.payload, options);
+
+    if (screened.skipped.length > 0) {
+      response.skipped = screened.skipped;
+    }
+
+    return response;
+  }
+
+  /**
+   * Reply to an inbound message
+   *
+   * The reply goes to the customer on the channel they wrote on, from the
+   * sender ID of the message they answered, or from the number they wrote
+   * to when that is not known.
+   *
+   * @param messageId - ID of the inbound message
+   * @param text - Reply text
+   * @param options - Send options
+   * @returns Promise resolving to the SMS response
+   * @throws {MsGineValidationError} If the ID, text or a response is invalid
+   * @throws {MsGineError} If an API request fails
+   *
+   * @example
+   * ```typescript
+   * await client.reply(event.data.messageId, 'Thanks, we got your message!');
+   * ```
+   */
+  async reply(
+    messageId: string,
+    text: string,
+    options: SendSmsOptions = {}
+  ): Promise<SendSmsResponse> {
+    const inbound = await this.inbound.get(messageId, toCallOptions(options));
+    const original = inbound.inReplyTo
+      ? await this.messages.get(inbound.inReplyTo, toCallOptions(options))
+      : undefined;
+
+    return this.sendSms(
+      {
+        to: inbound.from,
+        message: text,
+        from: original?.from ?? inbound.to,
+        channel: isMessageChannel(inbound.channel)
+          ? inbound.channel
+          : undefined,
+      },
+      options
+    );
+  }
+
+  /**
+   * Render a registered template and send it
+   *
+   * The variables are checked against the template's placeholders: missing
+   * or unused variables, and renders over the template's segment limit, are
+   * rejected before sending. Templates passed to the client's `templates`
+   * option get their variables typed from the placeholders.
+   *
+   * @param name - Template name
+   * @param params - Recipients, template variables and message options
+   * @param options - Send options
+   * @returns Promise resolving to the SMS response
+   * @throws {MsGineValidationError} If rendering or payload validation fails
+   * @throws {MsGineError} If the API request fails
+   *
+   * @example
+   * ```typescript
+   * const client = new MsGineClient({
+   *   apiToken: process.env.MSGINE_API_TOKEN!,
+   *   templates: { otp: 'Your code is {{code}}' },
+   * });
+   *
+   * await client.sendTemplate('otp', {
+   *   to: '+256701521269',
+   *   vars: { code: '123456' },
+   * });
+   * ```
+   */
+  async sendTemplate<Name extends keyof TTemplates & string>(
+    name: Name,
+    params: SendTemplateParams<TemplateBody<TTemplates[Name]>>,
+    options: SendSmsOptions = {}
+  ): Promise<SendSmsResponse> {
+    const { vars, ...payload } = params;
+    const { text } = this.templates.render(name, vars);
+
+    return this.sendSms({ ...payload, message: text }, options);
   }
 
   /**
    * Send multiple SMS messages in batch
    *
+   * Messages are sent in chunks through the bulk endpoint, falling back to
+   * individual sends if the server does not support it. A failed message
+   * does not stop the rest of the batch: every payload gets a result in
+   * the same position, so failed recipients can be retried on their own.
+   * Cancelling through `options.signal` stops further sends; messages not
+   * yet sent get a failed result with an `MsGineCancelledError`. With
+   * `checkBalance`, the cost of the whole batch is estimated first and the
+   * batch is refused if the account balance does not cover it. With
+   * `respectSuppression` set to `filter`, payloads left without recipients
+   * get a failed result with an `MsGineSuppressionError`.
+   *
    * @param payloads - Array of SMS message data
-   * @returns Promise resolving to array of SMS responses
-   * @throws {MsGineValidationError} If any payload validation fails
-   * @throws {MsGineError} If any API request fails
+   * @param options - Batch options
+   * @returns Promise resolving to one result per payload
+   * @throws {MsGineValidationError} If any payload validation fails, before
+   * anything is sent
+   * @throws {MsGineInsufficientBalanceError} If `checkBalance` is set and
+   * the estimated cost exceeds the balance, before anything is sent
+   * @throws {MsGinePricingError} If `checkBalance` is set and a recipient
+   * has no price, or prices are not in the balance's currency
+   * @throws {MsGineSuppressionError} If `respectSuppression` is `reject`
+   * and a recipient is suppressed, before anything is sent
    *
    * @example
    * ```typescript
@@ -85,24 +592,549 @@ export class MsGineClient {
    *   { to: '+256701521269', message: 'Hello!' },
    *   { to: '+256701521270', message: 'Hi there!' }
    * ]);
+   *
+   * const failed = results.filter((result) => !result.ok);
    * ```
    */
-  async sendSmsBatch(payloads: SendSmsPayload[]): Promise<SendSmsResponse[]> {
+  async sendSmsBatch(
+    payloads: SendSmsPayload[],
+    options: SendSmsBatchOptions = {}
+  ): Promise<SendSmsBatchResult[]> {
     // Validate all payloads first
-    const validations = payloads.map((payload) =>
-      SendSmsSchema.safeParse(payload)
+    const validPayloads: SendSmsPayload[] = [];
+
+    for (const payload of payloads) {
+      const validation = this.sendSmsSchema.safeParse(payload);
+
+      if (!validation.success) {
+        throw new MsGineValidationError(
+          'Invalid SMS payload in batch',
+          validation.error
+        );
+      }
+
+      validPayloads.push(validation.data);
+    }
+
+    const screened = await this.screenSuppressed(validPayloads, options);
+    const entries: BatchEntry[] = [];
+    const results: SendSmsBatchResult[] = [];
+
+    screened.forEach(({ payload, skipped }, index) => {
+      if (payload) {
+        entries.push({ index, payload });
+      } else {
+        results.push(
+          failedResult(
+            index,
+            validPayloads[index]!,
+            new MsGineSuppressionError('All recipients are suppressed', skipped)
+          )
+        );
+      }
+    });
+
+    if (options.checkBalance) {
+      await this.checkBalance(
+        entries.map((entry) => entry.payload),
+        options
+      );
+    }
+
+    const chunkSize = Math.max(
+      1,
+      options.chunkSize ?? DEFAULT_BATCH_CHUNK_SIZE
     );
+    const useBulkEndpoint = options.useBulkEndpoint ?? true;
+    const idempotencyKey = options.idempotencyKey ?? randomUUID();
+
+    for (let start = 0; start < entries.length; start += chunkSize) {
+      const chunk = entries.slice(start, start + chunkSize);
+
+      // Nothing more is sent once the batch is cancelled
+      if (options.signal?.aborted) {
+        const error = cancellationError(options.signal);
+        results.push(
+          ...chunk.map((entry) =>
+            failedResult(entry.index, entry.payload, error)
+          )
+        );
+        continue;
+      }
+
+      if (useBulkEndpoint && !this.bulkEndpointUnsupported) {
+        const bulkResults = await this.sendBulkChunk(
+          chunk,
+          `${idempotencyKey}:bulk:${start}`,
+          options
+        );
+        if (bulkResults) {
+          results.push(...bulkResults);
+          continue;
+        }
+      }
+
+      results.push(
+        ...(await this.sendIndividualChunk(chunk, idempotencyKey, options))
+      );
+    }
+
+    for (const result of results) {
+      const skipped = screened[result.index]?.skipped ?? [];
+      if (result.ok && skipped.length > 0) {
+        result.response.skipped = skipped;
+      }
+    }
+
+    return results.sort((a, b) => a.index - b.index);
+  }
+
+  /**
+   * Get a message by ID
+   *
+   * @param id - Message ID returned when the message was sent
+   * @param options - Request options
+   * @returns Promise resolving to the message with its current status
+   * @throws {MsGineValidationError} If the ID or the response is invalid
+   * @throws {MsGineError} If the API request fails
+   *
+   * @example
+   * ```typescript
+   * const message = await client.getMessage(result.id);
+   *
+   * if (message.status === MessageStatus.DELIVERED) {
+   *   console.log('Delivered at:', message.updatedAt);
+   * }
+   * ```
+   */
+  async getMessage(id: string, options: CallOptions = {}): Promise<Message> {
+    return this.messages.get(id, options);
+  }
 
-    const invalidPayload = validations.find((v) => !v.success);
-    if (invalidPayload && !invalidPayload.success) {
+  /**
+   * Cancel a scheduled message before it is sent
+   *
+   * @param id - Message ID returned when the message was scheduled
+   * @param options - Request options
+   * @returns Promise resolving to the cancelled message
+   * @throws {MsGineValidationError} If the ID or the response is invalid
+   * @throws {MsGineError} If the API request fails, e.g. because the
+   * message has already been sent
+   *
+   * @example
+   * ```typescript
+   * const reminder = await client.sendSms({
+   *   to: '+256701521269',
+   *   message: 'Your appointment is tomorrow at 9am',
+   *   sendAt: '2025-06-01T18:00:00',
+   *   timezone: 'Africa/Kampala',
+   * });
+   *
+   * await client.cancelMessage(reminder.id);
+   * ```
+   */
+  async cancelMessage(id: string, options: CallOptions = {}): Promise<Message> {
+    return this.messages.cancel(id, options);
+  }
+
+  /**
+   * Move a scheduled message to a new send time
+   *
+   * @param id - Message ID returned when the message was scheduled
+   * @param sendAt - New send time, in the future
+   * @param options - Reschedule options
+   * @returns Promise resolving to the rescheduled message
+   * @throws {MsGineValidationError} If the ID, send time or response is
+   * invalid
+   * @throws {MsGineError} If the API request fails
+   *
+   * @example
+   * ```typescript
+   * await client.rescheduleMessage(reminder.id, '2025-06-02T08:00:00', {
+   *   timezone: 'Africa/Kampala',
+   * });
+   * ```
+   */
+  async rescheduleMessage(
+    id: string,
+    sendAt: string | Date,
+    options: RescheduleMessageOptions = {}
+  ): Promise<Message> {
+    return this.messages.reschedule(id, sendAt, options);
+  }
+
+  /**
+   * List a single page of messages, optionally filtered by status,
+   * recipient, sender, channel or creation date
+   *
+   * Use `client.messages.list()` to iterate over every page.
+   *
+   * @param params - Listing filters
+   * @param options - Request options
+   * @returns Promise resolving to the matching messages
+   * @throws {MsGineValidationError} If the filters or the response are invalid
+   * @throws {MsGineError} If the API request fails
+   *
+   * @example
+   * ```typescript
+   * const { data } = await client.listMessages({
+   *   to: '+256701521269',
+   *   status: MessageStatus.FAILED,
+   *   createdAfter: new Date(Date.now() - 24 * 60 * 60 * 1000),
+   * });
+   * ```
+   */
+  async listMessages(
+    params: ListMessagesParams = {},
+    options: CallOptions = {}
+  ): Promise<ListMessagesResponse> {
+    return this.messages.listPage(params, options);
+  }
+
+  /**
+   * Address a payload to the contacts of a group
+   */
+  private async addressGroup(
+    payload: SendToGroupPayload,
+    options: CallOptions
+  ): Promise<SendSmsPayload> {
+    const { toGroup, ...message } = payload;
+
+    if ('to' in payload) {
       throw new MsGineValidationError(
-        'Invalid SMS payload in batch',
-        invalidPayload.error
+        'Invalid SMS payload',
+        new z.ZodError([
+          {
+            code: z.ZodIssueCode.custom,
+            path: ['toGroup'],
+            message: 'Cannot send to both to and toGroup',
+          },
+        ])
+      );
+    }
+
+    const contacts = await this.contacts
+      .list({ groupId: toGroup }, toCallOptions(options))
+      .toArray();
+
+    return {
+      ...message,
+      to: contacts.map((contact) => ({
+        to: contact.phoneNumber,
+        variables: contactVariables(contact),
+      })),
+    };
+  }
+
+  /**
+   * Send a validated payload
+   */
+  private async postSms(
+    payload: SendSmsPayload,
+    options: SendSmsOptions
+  ): Promise<SendSmsResponse> {
+    const body = toSendSmsBody(payload);
+
+    // Send request
+    const raw = await this.httpClient.request<unknown, SendSmsBody>({
+      ...toCallOptions(options),
+      method: HttpMethod.POST,
+      path: '/messages/sms',
+      body,
+      headers: {
+        ...options.headers,
+        [IDEMPOTENCY_KEY_HEADER]: options.idempotencyKey ?? randomUUID(),
+      },
+    });
+    // The message is sent, so a malformed response is only logged
+    const parsed: unknown = this.httpClient.responses.parse(
+      SendSmsResponseSchema,
+      raw,
+      'SMS send',
+      { committed: true }
+    );
+    const response = isRecord(parsed)
+      ? (parsed as SendSmsResponse)
+      : unconfirmedResponse(body);
+
+    this.httpClient.telemetry.recordMessagesSent([response]);
+
+    if (Array.isArray(body.to)) {
+      // Set in place so the response metadata stays attached
+      response.recipients = recipientResults(body.to, response);
+    }
+
+    return response;
+  }
+
+  /**
+   * Leave suppressed recipients out of validated payloads, or refuse the
+   * send, as set by `respectSuppression`
+   */
+  private async screenSuppressed(
+    payloads: SendSmsPayload[],
+    options: CallOptions
+  ): Promise<ScreenedPayload[]> {
+    if (!this.respectSuppression) {
+      return payloads.map((payload) => ({ payload, skipped: [] }));
+    }
+
+    const suppressions = await this.suppressions.lookup(
+      payloads.flatMap(({ to }) =>
+        (Array.isArray(to) ? to : [to]).map(recipientNumber)
+      ),
+      toCallOptions(options)
+    );
+    const suppressed = new Map(suppressions.map((s) => [s.number, s]));
+
+    const screened = payloads.map((payload): ScreenedPayload => {
+      const skipped: SkippedRecipient[] = [];
+      const keep = (recipient: string | SmsRecipient) => {
+        const suppression = suppressed.get(recipientNumber(recipient));
+        if (suppression) {
+          skipped.push({
+            to: suppression.number,
+            reason: suppression.reason,
+            suppression,
+          });
+        }
+        return !suppression;
+      };
+
+      if (!Array.isArray(payload.to)) {
+        return keep(payload.to) ? { payload, skipped } : { skipped };
+      }
+
+      const to = payload.to.filter(keep);
+      return to.length > 0
+        ? { payload: { ...payload, to }, skipped }
+        : { skipped };
+    });
+
+    const skipped = screened.flatMap((result) => result.skipped);
+
+    if (this.respectSuppression === 'reject' && skipped.length > 0) {
+      throw new MsGineSuppressionError(
+        `Cannot send to ${skipped.length} suppressed ${skipped.length === 1 ? 'recipient' : 'recipients'}`,
+        skipped
+      );
+    }
+
+    return screened;
+  }
+
+  /**
+   * Refuse a batch whose estimated cost exceeds the available balance
+   */
+  private async checkBalance(
+    payloads: SendSmsPayload[],
+    options: SendSmsBatchOptions
+  ): Promise<void> {
+    const {
+      balance,
+      currency,
+      creditLimit = 0,
+    } = await this.account.getBalance(toCallOptions(options));
+    const pricing =
+      options.pricing ??
+      (await this.lookupPricing(payloads, currency, options));
+
+    if (pricing.currency !== currency) {
+      throw currencyMismatch(currency, pricing.currency);
+    }
+
+    const estimatedCost = payloads.reduce(
+      (total, payload) => total + estimateCost(payload, pricing).total,
+      0
+    );
+    const available = balance + creditLimit;
+
+    if (estimatedCost > available) {
+      throw new MsGineInsufficientBalanceError(
+        `Estimated batch cost of ${estimatedCost} ${currency} exceeds the available balance of ${available} ${currency}`,
+        402,
+        'INSUFFICIENT_BALANCE',
+        { estimatedCost, balance, creditLimit, currency },
+        undefined,
+        { isRetryable: false }
       );
     }
+  }
+
+  /**
+   * Build a pricing table from the prices of each destination country, and
+   * of numbers whose country is not known from the number alone. Those are
+   * looked up once per calling code and prefix. Lookups run concurrently,
+   * within the client's request limits.
+   */
+  private async lookupPricing(
+    payloads: SendSmsPayload[],
+    currency: string,
+    options: CallOptions
+  ): Promise<PricingTable> {
+    const countries = new Set<string>();
+    const numbersByPrefix = new Map<string, Set<string>>();
+
+    for (const { to } of payloads) {
+      for (const recipient of Array.isArray(to) ? to : [to]) {
+        const number = recipientNumber(recipient);
+        const parsed = safeParsePhoneNumber(number);
+
+        if (parsed.success && parsed.data.country) {
+          countries.add(parsed.data.country);
+          continue;
+        }
+
+        const prefix = parsed.success
+          ? `${parsed.data.callingCode}:${parsed.data.nationalNumber.slice(0, PRICE_PREFIX_LENGTH)}`
+          : number;
+        const numbers = numbersByPrefix.get(prefix) ?? new Set<string>();
+        numbersByPrefix.set(prefix, numbers.add(number));
+      }
+    }
+
+    const lookup = async (countryOrNumber: string) => {
+      const price = await this.pricing.lookup(
+        countryOrNumber,
+        toCallOptions(options)
+      );
+
+      if (price.currency !== currency) {
+        throw currencyMismatch(currency, price.currency);
+      }
+      return price;
+    };
+    const groups = [...numbersByPrefix.values()].map((numbers) => [...numbers]);
+    const [countryPrices, groupPrices] = await Promise.all([
+      Promise.all([...countries].map(lookup)),
+      Promise.all(groups.map((numbers) => lookup(numbers[0]!))),
+    ]);
 
-    // Send all messages
-    return Promise.all(payloads.map((payload) => this.sendSms(payload)));
+    const pricing: Required<Omit<PricingTable, 'default'>> = {
+      currency,
+      numbers: {},
+      countries: {},
+      carriers: {},
+    };
+
+    [...countries].forEach((country, i) => {
+      const price = countryPrices[i]!;
+
+      pricing.countries[country] = price.pricePerSegment;
+      for (const { carrier, pricePerSegment } of price.carriers ?? []) {
+        pricing.carriers[`${country}:${carrier}`] = pricePerSegment;
+      }
+    });
+
+    groups.forEach((numbers, i) => {
+      for (const number of numbers) {
+        pricing.numbers[number] = groupPrices[i]!.pricePerSegment;
+      }
+    });
+
+    return pricing;
+  }
+
+  /**
+   * Send a chunk through the bulk endpoint, or return `undefined` if the
+   * endpoint is not available
+   */
+  private async sendBulkChunk(
+    chunk: BatchEntry[],
+    idempotencyKey: string,
+    options: CallOptions
+  ): Promise<SendSmsBatchResult[] | undefined> {
+    let response: unknown;
+    try {
+      response = await this.httpClient.request<unknown, unknown>({
+        ...toCallOptions(options),
+        method: HttpMethod.POST,
+        path: '/messages/sms/bulk',
+        body: {
+          messages: chunk.map((entry) => toSendSmsBody(entry.payload)),
+        },
+        headers: {
+          ...options.headers,
+          [IDEMPOTENCY_KEY_HEADER]: idempotencyKey,
+        },
+      });
+    } catch (error) {
+      if (
+        error instanceof MsGineError &&
+        BULK_UNSUPPORTED_STATUS_CODES.includes(error.statusCode)
+      ) {
+        this.bulkEndpointUnsupported = true;
+        return undefined;
+      }
+      return chunk.map((entry) =>
+        failedResult(entry.index, entry.payload, error)
+      );
+    }
+
+    // The messages are sent, so a malformed response is only logged
+    const parsed = this.httpClient.responses.parseEnvelope(
+      BulkSendResponseSchema,
+      response,
+      'bulk send',
+      { committed: true }
+    );
+
+    const requestId = getResponseMeta(parsed)?.requestId;
+    // Unvalidated responses may not carry the expected entries
+    const data: unknown = isRecord(parsed) ? parsed.data : undefined;
+    const entries = (Array.isArray(data) ? data : []).filter(
+      (entry): entry is BulkSendResponse['data'][number] => isRecord(entry)
+    );
+
+    this.httpClient.telemetry.recordMessagesSent(
+      entries.flatMap((entry) => (entry.message ? [entry.message] : []))
+    );
+
+    return chunk.map(({ index, payload }, i): SendSmsBatchResult => {
+      const item = entries.find((entry) => entry.index === i);
+
+      if (item?.message) {
+        return { ok: true, index, response: item.message };
+      }
+
+      return failedResult(
+        index,
+        payload,
+        createMsGineError(
+          item?.error?.message ?? 'No result returned for message',
+          400,
+          item?.error?.code ?? 'MISSING_RESULT',
+          item?.error?.details,
+          requestId
+        )
+      );
+    });
+  }
+
+  /**
+   * Send a chunk as individual requests, collecting each outcome. Each
+   * message's idempotency key is derived from the batch key and its index.
+   */
+  private async sendIndividualChunk(
+    chunk: BatchEntry[],
+    idempotencyKey: string,
+    options: CallOptions
+  ): Promise<SendSmsBatchResult[]> {
+    const settled = await Promise.allSettled(
+      chunk.map(({ index, payload }) =>
+        this.postSms(payload, {
+          ...toCallOptions(options),
+          idempotencyKey: `${idempotencyKey}:${index}`,
+        })
+      )
+    );
+
+    return settled.map(
+      (outcome, i): SendSmsBatchResult =>
+        outcome.status === 'fulfilled'
+          ? { ok: true, index: chunk[i]!.index, response: outcome.value }
+          : failedResult(chunk[i]!.index, chunk[i]!.payload, outcome.reason)
+    );
   }
 }
 
@@ -119,6 +1151,13 @@ export class MsGineClient {
  * });
  * ```
  */
-export function createClient(config: MsGineClientConfig): MsGineClient {
+export function createClient<
+  const TTemplates extends Record<string, TemplateDefinition> = Record<
+    string,
+    TemplateDefinition
+  >,
+>(
+  config: MsGineClientConfig & { templates?: TTemplates }
+): MsGineClient<TTemplates> {
   return new MsGineClient(config);
 }
@@ -0,0 +1,265 @@
+import { describe, it, expect } from 'vitest';
+import { MsGineConflictError, MsGineValidationError } from '../src';
+import { MockMsGineApi } from '../src/testing';
+import { createSandbox } from '../src/test-helpers';
+
+describe('Contacts and groups', () => {
+  describe('contacts', () => {
+    it('should create, update, list and delete contacts', async () => {
+      const { api, client } = createSandbox();
+
+      const alice = await client.contacts.create({
+        phoneNumber: '0701 521 269',
+        name: 'Alice',
+        fields: { plan: 'gold', visits: 3 },
+      });
+      await client.contacts.create({
+        phoneNumber: '+256701521270',
+        name: 'Bob',
+      });
+      expect(alice).toMatchObject({
+        phoneNumber: '+256701521269',
+        fields: { plan: 'gold', visits: 3 },
+      });
+
+      const updated = await client.contacts.update(alice.id, {
+        email: 'alice@example.com',
+        fields: { visits: 4 },
+      });
+      expect(updated).toMatchObject({
+        name: 'Alice',
+        email: 'alice@example.com',
+        fields: { plan: 'gold', visits: 4 },
+      });
+      expect(api.requests.at(-1)?.method).toBe('PATCH');
+
+      const found = await client.contacts.list({ search: 'bob' }).toArray();
+      expect(found.map((contact) => contact.name)).toEqual(['Bob']);
+
+      await client.contacts.delete(alice.id);
+      expect(api.contacts.map((contact) => contact.name)).toEqual(['Bob']);
+    });
+
+    it('should reject invalid contacts before sending', async () => {
+      const { api, client } = createSandbox();
+
+      await expect(
+        client.contacts.create({
+          phoneNumber: '+256701521269',
+          fields: { 'favourite colour': 'blue' },
+        })
+      ).rejects.toThrow(MsGineValidationError);
+      await expect(
+        client.contacts.update('', { name: 'Alice' })
+      ).rejects.toThrow('Invalid contact ID');
+      expect(api.requests).toHaveLength(0);
+    });
+
+    it('should refuse numbers that are already contacts', async () => {
+      const { client } = createSandbox();
+      await client.contacts.create({ phoneNumber: '+256701521269' });
+
+      await expect(
+        client.contacts.create({ phoneNumber: '0701521269' })
+      ).rejects.toThrow(MsGineConflictError);
+    });
+  });
+
+  describe('contacts.import', () => {
+    it('should import valid rows and report the others by row', async () => {
+      const { api, client } = createSandbox();
+      const group = await client.groups.create({ name: 'Newsletter' });
+      await client.contacts.create({
+        phoneNumber: '+256701521269',
+        name: 'Alice',
+      });
+
+      const result = await client.contacts.import(
+        [
+          { phoneNumber: '0701521269', fields: { plan: 'gold' } },
+          { phoneNumber: 'not a number' },
+          { phoneNumber: '0701521270', email: 'bob@' },
+          { phoneNumber: '0701521271', name: 'Carol' },
+          { phoneNumber: '0701521272', groupIds: ['grp_missing'] },
+        ],
+        { groupId: group.id, chunkSize: 2 }
+      );
+
+      expect(result.imported.map((contact) => contact.phoneNumber)).toEqual([
+        '+256701521269',
+        '+256701521271',
+      ]);
+      expect(result.failed).toEqual([
+        {
+          row: 1,
+          errors: [
+            'phoneNumber: Phone number may only contain digits and a leading +',
+          ],
+        },
+        { row: 2, errors: ['email: Invalid email address'] },
+        { row: 4, errors: ['Group grp_missing not found'] },
+      ]);
+      expect(api.contacts[0]).toMatchObject({
+        name: 'Alice',
+        fields: { plan: 'gold' },
+        groupIds: [group.id],
+      });
+      expect(
+        api.requests.filter((request) => request.path.endsWith('/import'))
+      ).toHaveLength(2);
+      await expect(client.groups.get(group.id)).resolves.toMatchObject({
+        contactCount: 2,
+      });
+    });
+
+    it('should keep earlier chunks when a later one fails', async () => {
+      const api = new MockMsGineApi();
+      let imports = 0;
+      const { client } = createSandbox({
+        sandbox: api,
+        middleware: [
+          {
+            onRequest: ({ options }) => {
+              if (options.path === '/contacts/import' && ++imports === 2) {
+                api.failNext(400);
+              }
+            },
+          },
+        ],
+      });
+
+      const result = await client.contacts.import(
+        [
+          { phoneNumber: '0701521269' },
+          { phoneNumber: '0701521270' },
+          { phoneNumber: '0701521271' },
+        ],
+        { chunkSize: 1 }
+      );
+
+      expect(result.imported.map((contact) => contact.phoneNumber)).toEqual([
+        '+256701521269',
+        '+256701521271',
+      ]);
+      expect(result.failed).toMatchObject([
+        { row: 1, errors: [expect.any(String)] },
+      ]);
+    });
+
+    it('should send at least one contact per request', async () => {
+      const { api, client } = createSandbox();
+
+      const result = await client.contacts.import(
+        [{ phoneNumber: '0701521269' }, { phoneNumber: '0701521270' }],
+        { chunkSize: 0 }
+      );
+
+      expect(result.imported).toHaveLength(2);
+      expect(
+        api.requests.filter((request) => request.path.endsWith('/import'))
+      ).toHaveLength(2);
+    });
+  });
+
+  describe('groups', () => {
+    it('should manage groups and their members', async () => {
+      const { api, client } = createSandbox();
+      const group = await client.groups.create({
+        name: 'VIP',
+        description: 'Best customers',
+      });
+      const alice = await client.contacts.create({
+        phoneNumber: '+256701521269',
+      });
+      const bob = await client.contacts.create({
+        phoneNumber: '+256701521270',
+      });
+
+      await expect(
+        client.groups.addContacts(group.id, [alice.id, bob.id])
+      ).resolves.toMatchObject({ contactCount: 2 });
+      await expect(
+        client.groups.removeContacts(group.id, [bob.id])
+      ).resolves.toMatchObject({ contactCount: 1 });
+
+      const members = await client.contacts
+        .list({ groupId: group.id })
+        .toArray();
+      expect(members.map((contact) => contact.id)).toEqual([alice.id]);
+
+      const renamed = await client.groups.update(group.id, { name: 'VIPs' });
+      expect(renamed).toMatchObject({ name: 'VIPs', contactCount: 1 });
+      expect(renamed.description).toBeUndefined();
+      expect(api.requests.at(-1)?.method).toBe('PUT');
+
+      await client.groups.delete(group.id);
+      expect(await client.groups.list().toArray()).toEqual([]);
+      expect(api.contacts[0]?.groupIds).toEqual([]);
+    });
+
+    it('should reject invalid groups before sending', async () => {
+      const { api, client } = createSandbox();
+
+      await expect(client.groups.create({ name: '' })).rejects.toThrow(
+        MsGineValidationError
+      );
+      await expect(client.groups.addContacts('grp_1', [])).rejects.toThrow(
+        'Invalid contact IDs'
+      );
+      expect(api.requests).toHaveLength(0);
+    });
+  });
+
+  describe('sendSms toGroup', () => {
+    it('should send to the group with contact fields as variables', async () => {
+      const { api, client } = createSandbox();
+      const group = await client.groups.create({ name: 'VIP' });
+      await client.contacts.import(
+        [
+          {
+            phoneNumber: '0701521269',
+            name: 'Alice',
+            fields: { plan: 'gold' },
+          },
+          { phoneNumber: '0701521270', name: 'Bob' },
+        ],
+        { groupId: group.id }
+      );
+      await client.contacts.create({ phoneNumber: '0701521271' });
+
+      const response = await client.sendSms({
+        toGroup: group.id,
+        message: 'Hi {{name}}, enjoy your {{plan}} perks',
+        variables: { plan: 'silver' },
+      });
+
+      expect(response.to).toEqual(['+256701521269', '+256701521270']);
+      api.expectSmsSent({
+        to: '+256701521269',
+        message: 'Hi Alice, enjoy your gold perks',
+      });
+      api.expectSmsSent({
+        to: '+256701521270',
+        message: 'Hi Bob, enjoy your silver perks',
+      });
+      api.expectNoSmsSent({ to: '+256701521271' });
+    });
+
+    it('should refuse empty groups and payloads with both targets', async () => {
+      const { api, client } = createSandbox();
+      const group = await client.groups.create({ name: 'Empty' });
+
+      await expect(
+        client.sendSms({ toGroup: group.id, message: 'Hello' })
+      ).rejects.toThrow(MsGineValidationError);
+      await expect(
+        client.sendSms({
+          to: '+256701521269',
+          toGroup: group.id,
+          message: 'Hello',
+        })
+      ).rejects.toThrow(MsGineValidationError);
+      api.expectNoSmsSent();
+    });
+  });
+});
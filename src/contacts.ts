@@ -0,0 +1,346 @@
+import { z } from 'zod';
+import { Paginator, PaginatorOptions } from './pagination';
+import { PhoneNumberOptions } from './phone';
+import { ResponseValidator } from './responses';
+import {
+  CallOptions,
+  Contact,
+  ContactImportFailure,
+  ContactImportResult,
+  ContactSchema,
+  createContactSchema,
+  CreateContactParams,
+  HttpClient,
+  HttpMethod,
+  ImportContactsOptions,
+  ImportContactsResponse,
+  ImportContactsResponseSchema,
+  ListContactsParams,
+  ListContactsParamsSchema,
+  ListContactsResponse,
+  ListContactsResponseSchema,
+  MsGineValidationError,
+  UpdateContactParams,
+} from './types';
+import { toCallOptions, toQueryParams } from './utils';
+
+/**
+ * Contact ID schema
+ */
+const ContactIdSchema = z.string().min(1, 'Contact ID is required');
+
+/**
+ * Default number of contacts per import request
+ */
+const DEFAULT_IMPORT_CHUNK_SIZE = 500;
+
+/**
+ * Describe a validation issue as `path: message`
+ */
+function describeIssue(issue: z.ZodIssue): string {
+  return issue.path.length > 0
+    ? `${issue.path.join('.')}: ${issue.message}`
+    : issue.message;
+}
+
+/**
+ * Address book endpoints
+ *
+ * Available as `client.contacts`. Phone numbers are normalised to E.164
+ * before sending, so numbers in national format are accepted when
+ * `defaultCountry` is configured.
+ */
+export class Contacts {
+  private readonly createSchema: ReturnType<typeof createContactSchema>;
+
+  constructor(
+    private readonly httpClient: HttpClient,
+    phoneNumberOptions: PhoneNumberOptions = {},
+    private readonly responses: ResponseValidator = new ResponseValidator()
+  ) {
+    this.createSchema = createContactSchema(phoneNumberOptions);
+  }
+
+  /**
+   * Create a contact
+   *
+   * @param params - Phone number, name, email, custom fields and groups
+   * @param options - Request options
+   * @returns Promise resolving to the stored contact
+   * @throws {MsGineValidationError} If the parameters or the response are
+   * invalid
+   * @throws {MsGineError} If the API request fails, e.g. with a
+   * `MsGineConflictError` when the number is already stored
+   *
+   * @example
+   * ```typescript
+   * const contact = await client.contacts.create({
+   *   phoneNumber: '+256701521269',
+   *   name: 'Alice',
+   *   fields: { plan: 'gold', visits: 3 },
+   * });
+   * ```
+   */
+  async create(
+    params: CreateContactParams,
+    options: CallOptions = {}
+  ): Promise<Contact> {
+    const validation = this.createSchema.safeParse(params);
+
+    if (!validation.success) {
+      throw new MsGineValidationError('Invalid contact', validation.error);
+    }
+
+    const response = await this.httpClient.request<unknown>({
+      ...toCallOptions(options),
+      method: HttpMethod.POST,
+      path: '/contacts',
+      body: validation.data,
+    });
+
+    return this.responses.parse(ContactSchema, response, 'contact');
+  }
+
+  /**
+   * Get a contact by ID
+   *
+   * @param id - Contact ID
+   * @param options - Request options
+   * @returns Promise resolving to the contact
+   * @throws {MsGineValidationError} If the ID or the response is invalid
+   * @throws {MsGineError} If the API request fails
+   */
+  async get(id: string, options: CallOptions = {}): Promise<Contact> {
+    const response = await this.httpClient.request<unknown>({
+      ...toCallOptions(options),
+      method: HttpMethod.GET,
+      path: `/contacts/${this.encodeId(id)}`,
+    });
+
+    return this.responses.parse(ContactSchema, response, 'contact');
+  }
+
+  /**
+   * Update some properties of a contact. Given custom fields are merged
+   * into the existing ones.
+   *
+   * @param id - Contact ID
+   * @param params - Properties to change
+   * @param options - Request options
+   * @returns Promise resolving to the updated contact
+   * @throws {MsGineValidationError} If the parameters or the response are
+   * invalid
+   * @throws {MsGineError} If the API request fails
+   *
+   * @example
+   * ```typescript
+   * await client.contacts.update(contact.id, { fields: { plan: 'platinum' } });
+   * ```
+   */
+  async update(
+    id: string,
+    params: UpdateContactParams,
+    options: CallOptions = {}
+  ): Promise<Contact> {
+    const path = `/contacts/${this.encodeId(id)}`;
+    const validation = this.createSchema.partial().safeParse(params);
+
+    if (!validation.success) {
+      throw new MsGineValidationError('Invalid contact', validation.error);
+    }
+
+    const response = await this.httpClient.request<unknown>({
+      ...toCallOptions(options),
+      method: HttpMethod.PATCH,
+      path,
+      body: validation.data,
+    });
+
+    return this.responses.parse(ContactSchema, response, 'contact');
+  }
+
+  /**
+   * Delete a contact, removing it from every group
+   *
+   * @param id - Contact ID
+   * @param options - Request options
+   * @throws {MsGineValidationError} If the ID is invalid
+   * @throws {MsGineError} If the API request fails
+   */
+  async delete(id: string, options: CallOptions = {}): Promise<void> {
+    await this.httpClient.request<unknown>({
+      ...toCallOptions(options),
+      method: HttpMethod.DELETE,
+      path: `/contacts/${this.encodeId(id)}`,
+    });
+  }
+
+  /**
+   * List every contact matching the filters, fetching pages on demand
+   *
+   * @param params - Listing filters and page size
+   * @param options - Iteration and request options
+   * @returns Paginator over the matching contacts
+   * @throws {MsGineValidationError} If the filters are invalid
+   *
+   * @example
+   * ```typescript
+   * for await (const contact of client.contacts.list({ groupId })) {
+   *   console.log(contact.name, contact.phoneNumber);
+   * }
+   * ```
+   */
+  list(
+    params: ListContactsParams = {},
+    options: PaginatorOptions & CallOptions = {}
+  ): Paginator<Contact> {
+    const { limit, cursor, page, ...filters } = this.validateParams(params);
+
+    return new Paginator<Contact>(
+      (pagination) => this.listPage({ ...filters, ...pagination }, options),
+      { limit, cursor, page },
+      options
+    );
+  }
+
+  /**
+   * Fetch a single page of contacts
+   *
+   * @param params - Listing filters and pagination parameters
+   * @param options - Request options
+   * @returns Promise resolving to the page of contacts
+   * @throws {MsGineValidationError} If the filters or the response are invalid
+   * @throws {MsGineError} If the API request fails
+   */
+  async listPage(
+    params: ListContactsParams = {},
+    options: CallOptions = {}
+  ): Promise<ListContactsResponse> {
+    const response = await this.httpClient.request<unknown>({
+      ...toCallOptions(options),
+      method: HttpMethod.GET,
+      path: '/contacts',
+      queryParams: toQueryParams(this.validateParams(params)),
+    });
+
+    return this.responses.parseEnvelope(
+      ListContactsResponseSchema,
+      response,
+      'contact list'
+    );
+  }
+
+  /**
+   * Import many contacts, e.g. the rows of a CSV file
+   *
+   * Each row is validated before sending, and invalid rows are reported
+   * instead of failing the import. Valid rows are sent in chunks; rows for
+   * numbers already stored update the existing contact. When a chunk's
+   * request fails, its rows are reported with the error and the import
+   * goes on with the next chunk.
+   *
+   * @param rows - Contacts to import
+   * @param options - Target group, chunk size and request options
+   * @returns Promise resolving to the imported contacts and the rows that
+   * failed, with their position in `rows`
+   *
+   * @example
+   * ```typescript
+   * const { imported, failed } = await client.contacts.import(rows, {
+   *   groupId: newsletter.id,
+   * });
+   *
+   * for (const { row, errors } of failed) {
+   *   console.warn(`Row ${row + 1}: ${errors.join(', ')}`);
+   * }
+   * ```
+   */
+  async import(
+    rows: CreateContactParams[],
+    options: ImportContactsOptions = {}
+  ): Promise<ContactImportResult> {
+    const { groupId } = options;
+    const chunkSize = Math.max(
+      1,
+      options.chunkSize ?? DEFAULT_IMPORT_CHUNK_SIZE
+    );
+    const imported: Contact[] = [];
+    const failed: ContactImportFailure[] = [];
+    const valid: { row: number; contact: CreateContactParams }[] = [];
+
+    rows.forEach((params, row) => {
+      const validation = this.createSchema.safeParse(params);
+
+      if (!validation.success) {
+        failed.push({
+          row,
+          errors: validation.error.issues.map(describeIssue),
+        });
+        return;
+      }
+
+      const contact = validation.data;
+      if (groupId !== undefined && !contact.groupIds?.includes(groupId)) {
+        contact.groupIds = [...(contact.groupIds ?? []), groupId];
+      }
+      valid.push({ row, contact });
+    });
+
+    for (let i = 0; i < valid.length; i += chunkSize) {
+      const chunk = valid.slice(i, i + chunkSize);
+      let result: ImportContactsResponse;
+      try {
+        const response = await this.httpClient.request<unknown>({
+          ...toCallOptions(options),
+          method: HttpMethod.POST,
+          path: '/contacts/import',
+          body: { contacts: chunk.map((entry) => entry.contact) },
+        });
+        result = this.responses.parse(
+          ImportContactsResponseSchema,
+          response,
+          'contact import'
+        );
+      } catch (error) {
+        // Keep what earlier chunks imported, and report this chunk's rows
+        const message = error instanceof Error ? error.message : String(error);
+        failed.push(...chunk.map(({ row }) => ({ row, errors: [message] })));
+        continue;
+      }
+
+      imported.push(...result.imported);
+      for (const failure of result.failed) {
+        const entry = chunk[failure.index];
+        if (entry) {
+          failed.push({ row: entry.row, errors: [failure.message] });
+        }
+      }
+    }
+
+    failed.sort((a, b) => a.row - b.row);
+    return { imported, failed };
+  }
+
+  private encodeId(id: string): string {
+    const validation = ContactIdSchema.safeParse(id);
+
+    if (!validation.success) {
+      throw new MsGineValidationError('Invalid contact ID', validation.error);
+    }
+
+    return encodeURIComponent(validation.data);
+  }
+
+  private validateParams(params: ListContactsParams): ListContactsParams {
+    const validation = ListContactsParamsSchema.safeParse(params);
+
+    if (!validation.success) {
+      throw new MsGineValidationError(
+        'Invalid contact filters',
+        validation.error
+      );
+    }
+
+    return validation.data;
+  }
+}
@@ -0,0 +1,134 @@
+import { Paginator, PaginatorOptions } from './pagination';
+import { createPhoneNumberSchema, PhoneNumberOptions } from './phone';
+import { ResponseValidator } from './responses';
+import {
+  CallOptions,
+  ConversationMessage,
+  ConversationResponse,
+  ConversationResponseSchema,
+  HttpClient,
+  HttpMethod,
+  MsGineValidationError,
+  PaginationParams,
+  PaginationParamsSchema,
+} from './types';
+import { toCallOptions, toQueryParams } from './utils';
+
+/**
+ * Two-way conversation endpoints, keyed by the customer's number
+ *
+ * Available as `client.conversations`.
+ */
+export class Conversations {
+  private readonly phoneNumberSchema: ReturnType<
+    typeof createPhoneNumberSchema
+  >;
+
+  constructor(
+    private readonly httpClient: HttpClient,
+    phoneNumberOptions: PhoneNumberOptions = {},
+    private readonly responses: ResponseValidator = new ResponseValidator()
+  ) {
+    this.phoneNumberSchema = createPhoneNumberSchema(phoneNumberOptions);
+  }
+
+  /**
+   * List every message exchanged with a number, oldest first, fetching
+   * pages on demand
+   *
+   * @param number - Customer phone number
+   * @param params - Page size and starting position
+   * @param options - Iteration and request options
+   * @returns Paginator over outbound and inbound messages, told apart by
+   * `direction`
+   * @throws {MsGineValidationError} If the number or parameters are invalid
+   *
+   * @example
+   * ```typescript
+   * for await (const message of client.conversations.list('+256701521269')) {
+   *   const who = message.direction === MessageDirection.INBOUND ? 'Them' : 'Us';
+   *   console.log(`${who}: ${message.content}`);
+   * }
+   * ```
+   */
+  list(
+    number: string,
+    params: PaginationParams = {},
+    options: PaginatorOptions & CallOptions = {}
+  ): Paginator<ConversationMessage> {
+    const path = this.conversationPath(number);
+    const pagination = this.validateParams(params);
+
+    return new Paginator<ConversationMessage>(
+      (page) => this.fetchPage(path, page, options),
+      pagination,
+      options
+    );
+  }
+
+  /**
+   * Fetch a single page of the messages exchanged with a number, oldest
+   * first
+   *
+   * @param number - Customer phone number
+   * @param params - Pagination parameters
+   * @param options - Request options
+   * @returns Promise resolving to the page of messages
+   * @throws {MsGineValidationError} If the number, parameters or response
+   * are invalid
+   * @throws {MsGineError} If the API request fails
+   */
+  async listPage(
+    number: string,
+    params: PaginationParams = {},
+    options: CallOptions = {}
+  ): Promise<ConversationResponse> {
+    return this.fetchPage(
+      this.conversationPath(number),
+      this.validateParams(params),
+      options
+    );
+  }
+
+  private async fetchPage(
+    path: string,
+    params: PaginationParams,
+    options: CallOptions
+  ): Promise<ConversationResponse> {
+    const response = await this.httpClient.request<unknown>({
+      ...toCallOptions(options),
+      method: HttpMethod.GET,
+      path,
+      queryParams: toQueryParams(params),
+    });
+
+    return this.responses.parseEnvelope(
+      ConversationResponseSchema,
+      response,
+      'conversation'
+    );
+  }
+
+  private conversationPath(number: string): string {
+    const validation = this.phoneNumberSchema.safeParse(number);
+
+    if (!validation.success) {
+      throw new MsGineValidationError('Invalid phone number', validation.error);
+    }
+
+    return `/conversations/${encodeURIComponent(validation.data)}/messages`;
+  }
+
+  private validateParams(params: PaginationParams): PaginationParams {
+    const validation = PaginationParamsSchema.safeParse(params);
+
+    if (!validation.success) {
+      throw new MsGineValidationError(
+        'Invalid pagination parameters',
+        validation.error
+      );
+    }
+
+    return validation.data;
+  }
+}
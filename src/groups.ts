@@ -0,0 +1,274 @@
+import { z } from 'zod';
+import { Paginator, PaginatorOptions } from './pagination';
+import { ResponseValidator } from './responses';
+import {
+  CallOptions,
+  Group,
+  GroupParams,
+  GroupParamsSchema,
+  GroupSchema,
+  HttpClient,
+  HttpMethod,
+  ListGroupsResponse,
+  ListGroupsResponseSchema,
+  MsGineValidationError,
+  PaginationParams,
+  PaginationParamsSchema,
+} from './types';
+import { toCallOptions, toQueryParams } from './utils';
+
+/**
+ * Group ID schema
+ */
+const GroupIdSchema = z.string().min(1, 'Group ID is required');
+
+/**
+ * Contact IDs schema, for changing group membership
+ */
+const ContactIdsSchema = z
+  .array(z.string().min(1, 'Contact ID is required'))
+  .min(1, 'At least one contact is required');
+
+/**
+ * Contact group endpoints
+ *
+ * Available as `client.groups`. List a group's members with
+ * `client.contacts.list({ groupId })`, and message them with
+ * `client.sendSms({ toGroup: groupId, ... })`.
+ */
+export class Groups {
+  constructor(
+    private readonly httpClient: HttpClient,
+    private readonly responses: ResponseValidator = new ResponseValidator()
+  ) {}
+
+  /**
+   * Create a group
+   *
+   * @param params - Group name and description
+   * @param options - Request options
+   * @returns Promise resolving to the new group
+   * @throws {MsGineValidationError} If the parameters or the response are
+   * invalid
+   * @throws {MsGineError} If the API request fails
+   *
+   * @example
+   * ```typescript
+   * const vip = await client.groups.create({ name: 'VIP customers' });
+   * ```
+   */
+  async create(params: GroupParams, options: CallOptions = {}): Promise<Group> {
+    const response = await this.httpClient.request<unknown>({
+      ...toCallOptions(options),
+      method: HttpMethod.POST,
+      path: '/groups',
+      body: this.validateGroup(params),
+    });
+
+    return this.responses.parse(GroupSchema, response, 'group');
+  }
+
+  /**
+   * Get a group by ID
+   *
+   * @param id - Group ID
+   * @param options - Request options
+   * @returns Promise resolving to the group
+   * @throws {MsGineValidationError} If the ID or the response is invalid
+   * @throws {MsGineError} If the API request fails
+   */
+  async get(id: string, options: CallOptions = {}): Promise<Group> {
+    const response = await this.httpClient.request<unknown>({
+      ...toCallOptions(options),
+      method: HttpMethod.GET,
+      path: `/groups/${this.encodeId(id)}`,
+    });
+
+    return this.responses.parse(GroupSchema, response, 'group');
+  }
+
+  /**
+   * Replace the name and description of a group. An omitted description
+   * is cleared.
+   *
+   * @param id - Group ID
+   * @param params - New group name and description
+   * @param options - Request options
+   * @returns Promise resolving to the updated group
+   * @throws {MsGineValidationError} If the parameters or the response are
+   * invalid
+   * @throws {MsGineError} If the API request fails
+   */
+  async update(
+    id: string,
+    params: GroupParams,
+    options: CallOptions = {}
+  ): Promise<Group> {
+    const path = `/groups/${this.encodeId(id)}`;
+    const response = await this.httpClient.request<unknown>({
+      ...toCallOptions(options),
+      method: HttpMethod.PUT,
+      path,
+      body: this.validateGroup(params),
+    });
+
+    return this.responses.parse(GroupSchema, response, 'group');
+  }
+
+  /**
+   * Delete a group. Its contacts are kept.
+   *
+   * @param id - Group ID
+   * @param options - Request options
+   * @throws {MsGineValidationError} If the ID is invalid
+   * @throws {MsGineError} If the API request fails
+   */
+  async delete(id: string, options: CallOptions = {}): Promise<void> {
+    await this.httpClient.request<unknown>({
+      ...toCallOptions(options),
+      method: HttpMethod.DELETE,
+      path: `/groups/${this.encodeId(id)}`,
+    });
+  }
+
+  /**
+   * List every group, fetching pages on demand
+   *
+   * @param params - Page size
+   * @param options - Iteration and request options
+   * @returns Paginator over the groups
+   * @throws {MsGineValidationError} If the parameters are invalid
+   */
+  list(
+    params: PaginationParams = {},
+    options: PaginatorOptions & CallOptions = {}
+  ): Paginator<Group> {
+    const { limit, cursor, page } = this.validateParams(params);
+
+    return new Paginator<Group>(
+      (pagination) => this.listPage(pagination, options),
+      { limit, cursor, page },
+      options
+    );
+  }
+
+  /**
+   * Fetch a single page of groups
+   *
+   * @param params - Pagination parameters
+   * @param options - Request options
+   * @returns Promise resolving to the page of groups
+   * @throws {MsGineValidationError} If the parameters or the response are
+   * invalid
+   * @throws {MsGineError} If the API request fails
+   */
+  async listPage(
+    params: PaginationParams = {},
+    options: CallOptions = {}
+  ): Promise<ListGroupsResponse> {
+    const response = await this.httpClient.request<unknown>({
+      ...toCallOptions(options),
+      method: HttpMethod.GET,
+      path: '/groups',
+      queryParams: toQueryParams(this.validateParams(params)),
+    });
+
+    return this.responses.parseEnvelope(
+      ListGroupsResponseSchema,
+      response,
+      'group list'
+    );
+  }
+
+  /**
+   * Add contacts to a group. Contacts already in it are left as they are.
+   *
+   * @param id - Group ID
+   * @param contactIds - IDs of the contacts to add
+   * @param options - Request options
+   * @returns Promise resolving to the group with its new contact count
+   * @throws {MsGineValidationError} If the IDs or the response are invalid
+   * @throws {MsGineError} If the API request fails
+   */
+  async addContacts(
+    id: string,
+    contactIds: string[],
+    options: CallOptions = {}
+  ): Promise<Group> {
+    return this.changeMembers(HttpMethod.POST, id, contactIds, options);
+  }
+
+  /**
+   * Remove contacts from a group, keeping the contacts themselves
+   *
+   * @param id - Group ID
+   * @param contactIds - IDs of the contacts to remove
+   * @param options - Request options
+   * @returns Promise resolving to the group with its new contact count
+   * @throws {MsGineValidationError} If the IDs or the response are invalid
+   * @throws {MsGineError} If the API request fails
+   */
+  async removeContacts(
+    id: string,
+    contactIds: string[],
+    options: CallOptions = {}
+  ): Promise<Group> {
+    return this.changeMembers(HttpMethod.DELETE, id, contactIds, options);
+  }
+
+  private async changeMembers(
+    method: HttpMethod,
+    id: string,
+    contactIds: string[],
+    options: CallOptions
+  ): Promise<Group> {
+    const path = `/groups/${this.encodeId(id)}/contacts`;
+    const validation = ContactIdsSchema.safeParse(contactIds);
+
+    if (!validation.success) {
+      throw new MsGineValidationError('Invalid contact IDs', validation.error);
+    }
+
+    const response = await this.httpClient.request<unknown>({
+      ...toCallOptions(options),
+      method,
+      path,
+      body: { contactIds: validation.data },
+    });
+
+    return this.responses.parse(GroupSchema, response, 'group');
+  }
+
+  private encodeId(id: string): string {
+    const validation = GroupIdSchema.safeParse(id);
+
+    if (!validation.success) {
+      throw new MsGineValidationError('Invalid group ID', validation.error);
+    }
+
+    return encodeURIComponent(validation.data);
+  }
+
+  private validateGroup(params: GroupParams): GroupParams {
+    const validation = GroupParamsSchema.safeParse(params);
+
+    if (!validation.success) {
+      throw new MsGineValidationError('Invalid group', validation.error);
+    }
+
+    return validation.data;
+  }
+
+  private validateParams(params: PaginationParams): PaginationParams {
+    const validation = PaginationParamsSchema.safeParse(params);
+
+    if (!validation.success) {
+      throw new MsGineValidationError(
+        'Invalid pagination parameters',
+        validation.error
+      );
+    }
+
+    return validation.data;
+  }
+}
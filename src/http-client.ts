@@ -1,22 +1,55 @@
+import { SdkLogger } from './logger';
+import { RequestLimiter } from './rate-limiter';
+import { attachResponseMeta, ResponseValidator } from './responses';
+import { Telemetry } from './telemetry';
 import {
+  createMsGineError,
+  DEFAULT_RETRYABLE_STATUS_CODES,
   HttpClient,
+  LimiterStats,
+  Middleware,
+  MiddlewareContext,
   MsGineClientConfig,
+  MsGineCancelledError,
   MsGineError,
+  MsGineErrorAttempt,
+  MsGineNetworkError,
+  MsGineTimeoutError,
   RequestOptions,
   RetryConfig,
 } from './types';
 
+/**
+ * Retry configuration with defaults applied
+ */
+type ResolvedRetryConfig = Required<
+  Omit<RetryConfig, 'shouldRetry' | 'onRetry'>
+> &
+  Pick<RetryConfig, 'shouldRetry' | 'onRetry'>;
+
 /**
  * Default retry configuration
  */
-const DEFAULT_RETRY_CONFIG: Required<RetryConfig> = {
+const DEFAULT_RETRY_CONFIG: ResolvedRetryConfig = {
   maxRetries: 3,
   initialDelay: 1000,
   maxDelay: 10000,
   backoffMultiplier: 2,
-  retryableStatusCodes: [408, 429, 500, 502, 503, 504],
+  retryableStatusCodes: DEFAULT_RETRYABLE_STATUS_CODES,
+  jitter: 'full',
+  respectRetryAfter: true,
 };
 
+/**
+ * Header carrying the idempotency key of a request
+ */
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+/**
+ * Header set by the server when it replays a stored response
+ */
+export const IDEMPOTENT_REPLAYED_HEADER = 'idempotent-replayed';
+
 /**
  * Structure of error response from the API
  */
@@ -36,7 +69,20 @@ export class FetchHttpClient implements HttpClient {
   private readonly apiToken: string;
   private readonly timeout: number;
   private readonly fetchImpl: typeof fetch;
-  private readonly retryConfig: Required<RetryConfig>;
+  private readonly retryConfig: ResolvedRetryConfig;
+  private readonly limiter: RequestLimiter;
+  private readonly middleware: Middleware[];
+  private readonly logger: SdkLogger;
+
+  /**
+   * OpenTelemetry instrumentation shared with the client
+   */
+  readonly telemetry: Telemetry;
+
+  /**
+   * Response validation shared with the client's resources
+   */
+  readonly responses: ResponseValidator;
 
   constructor(config: MsGineClientConfig) {
     this.baseUrl = config.baseUrl ?? 'https://api.msgine.net/api/v1';
@@ -52,6 +98,26 @@ export class FetchHttpClient implements HttpClient {
     if (!this.apiToken) {
       throw new Error('API token is required');
     }
+
+    this.middleware = config.middleware ?? [];
+    this.logger = new SdkLogger(config.logger, config.logLevel, config.redact);
+    this.telemetry = new Telemetry(config.telemetry, this.baseUrl);
+    this.responses = new ResponseValidator(
+      config.responseValidation,
+      this.logger
+    );
+    this.limiter = new RequestLimiter({
+      concurrency: config.concurrency,
+      rateLimit: config.rateLimit,
+      onThrottle: config.onThrottle,
+    });
+  }
+
+  /**
+   * Get the current state of the client-side request limiter
+   */
+  getLimiterStats(): LimiterStats {
+    return this.limiter.stats();
   }
 
   /**
@@ -60,36 +126,88 @@ export class FetchHttpClient implements HttpClient {
   async request<TResponse, TBody = unknown>(
     options: RequestOptions<TBody>
   ): Promise<TResponse> {
+    const retryConfig: ResolvedRetryConfig = options.retry
+      ? { ...this.retryConfig, ...options.retry }
+      : this.retryConfig;
     let lastError: Error | undefined;
     let attempt = 0;
+    let previousDelay = retryConfig.initialDelay;
+    const attempts: MsGineErrorAttempt[] = [];
+    const telemetry = this.telemetry.startRequest(options);
 
-    while (attempt <= this.retryConfig.maxRetries) {
+    while (attempt <= retryConfig.maxRetries) {
       try {
-        return await this.executeRequest<TResponse, TBody>(options);
+        const response = await this.executeWithMiddleware<TResponse, TBody>(
+          options,
+          attempt + 1
+        );
+        telemetry.succeed();
+        return response;
       } catch (error) {
         lastError = error as Error;
 
-        // Don't retry if it's not a MsGineError or not a retryable status
+        if (error instanceof MsGineError) {
+          attempts.push({
+            attempt: attempt + 1,
+            statusCode: error.statusCode,
+            code: error.code,
+            message: error.message,
+          });
+        }
+
+        // Don't retry if it's not a MsGineError, was cancelled, not
+        // retryable, or we've exhausted attempts
         if (
           !(error instanceof MsGineError) ||
-          !this.retryConfig.retryableStatusCodes.includes(error.statusCode)
+          error instanceof MsGineCancelledError ||
+          !this.isRetryable(retryConfig, error, attempt) ||
+          attempt >= retryConfig.maxRetries
         ) {
+          this.logger.error('MsGine request failed', {
+            method: options.method,
+            path: options.path,
+            attempts: attempt + 1,
+            ...describeError(error),
+          });
+          telemetry.fail(error);
+          if (error instanceof MsGineError) {
+            error.attempts = attempts;
+          }
           throw error;
         }
 
-        // Don't retry if we've exhausted attempts
-        if (attempt >= this.retryConfig.maxRetries) {
-          throw error;
-        }
-
-        // Calculate delay with exponential backoff
-        const delay = Math.min(
-          this.retryConfig.initialDelay *
-            Math.pow(this.retryConfig.backoffMultiplier, attempt),
-          this.retryConfig.maxDelay
+        const delay = this.retryDelay(
+          retryConfig,
+          error,
+          attempt,
+          previousDelay
         );
-
-        await this.sleep(delay);
+        previousDelay = delay;
+        attempts[attempts.length - 1]!.delay = delay;
+
+        this.logger.warn('Retrying MsGine request', {
+          method: options.method,
+          path: options.path,
+          attempt: attempt + 1,
+          delayMs: Math.round(delay),
+          ...describeError(error),
+        });
+
+        telemetry.retry(attempt + 1, error, delay);
+        retryConfig.onRetry?.(attempt + 1, error, delay);
+
+        try {
+          await this.sleep(delay, options.signal);
+        } catch (cancelled) {
+          this.logger.warn('MsGine request cancelled', {
+            method: options.method,
+            path: options.path,
+            attempts: attempt + 1,
+          });
+          telemetry.fail(cancelled);
+          (cancelled as MsGineCancelledError).attempts = attempts;
+          throw cancelled;
+        }
         attempt++;
       }
     }
@@ -97,18 +215,182 @@ export class FetchHttpClient implements HttpClient {
     throw lastError;
   }
 
+  /**
+   * Run a single attempt through the middleware chain
+   */
+  private async executeWithMiddleware<TResponse, TBody = unknown>(
+    options: RequestOptions<TBody>,
+    attempt: number
+  ): Promise<TResponse> {
+    const context: MiddlewareContext = {
+      options: { ...options, headers: { ...options.headers } },
+      attempt,
+      state: {},
+    };
+
+    let response: unknown;
+
+    try {
+      response = await this.runRequestMiddleware(context);
+    } catch (error) {
+      response = await this.runErrorMiddleware(context, error);
+    }
+
+    for (const middleware of [...this.middleware].reverse()) {
+      const replacement: unknown = await middleware.onResponse?.(
+        context,
+        response
+      );
+      if (replacement !== undefined) {
+        response = replacement;
+      }
+    }
+
+    return response as TResponse;
+  }
+
+  /**
+   * Run `onRequest` hooks, then send the request unless one of them
+   * supplied a response
+   */
+  private async runRequestMiddleware(
+    context: MiddlewareContext
+  ): Promise<unknown> {
+    for (const middleware of this.middleware) {
+      const result = await middleware.onRequest?.(context);
+      if (result) {
+        return result.response;
+      }
+    }
+
+    // Every request sent waits for a concurrency slot and rate limit token,
+    // unless the caller cancels it first
+    const { signal } = context.options;
+    return this.limiter.schedule(
+      () => this.executeRequest<unknown>(context.options, context.attempt),
+      {
+        signal,
+        abortError: () =>
+          signal &&
+          cancellationError(
+            signal,
+            this.buildHeaders(context.options.headers)[IDEMPOTENCY_KEY_HEADER]
+          ),
+      }
+    );
+  }
+
+  /**
+   * Run `onError` hooks, returning the response of the first one that
+   * recovers, or rethrowing the error
+   */
+  private async runErrorMiddleware(
+    context: MiddlewareContext,
+    error: unknown
+  ): Promise<unknown> {
+    for (const middleware of [...this.middleware].reverse()) {
+      const result = await middleware.onError?.(context, error);
+      if (result) {
+        return result.response;
+      }
+    }
+
+    throw error;
+  }
+
+  /**
+   * Check whether a failed attempt should be retried
+   */
+  private isRetryable(
+    retryConfig: ResolvedRetryConfig,
+    error: MsGineError,
+    attempt: number
+  ): boolean {
+    if (retryConfig.shouldRetry) {
+      return retryConfig.shouldRetry(error, attempt + 1);
+    }
+    // Status codes given for a single call replace the client's
+    if (
+      retryConfig.retryableStatusCodes !== this.retryConfig.retryableStatusCodes
+    ) {
+      return retryConfig.retryableStatusCodes.includes(error.statusCode);
+    }
+    return error.isRetryable;
+  }
+
+  /**
+   * Check whether failures with a status code are retried
+   */
+  private isRetryableStatus(statusCode: number): boolean {
+    return this.retryConfig.retryableStatusCodes.includes(statusCode);
+  }
+
+  /**
+   * Calculate the delay before the next attempt, honoring any delay the
+   * server asked for and applying jitter to the exponential backoff
+   */
+  private retryDelay(
+    retryConfig: ResolvedRetryConfig,
+    error: MsGineError,
+    attempt: number,
+    previousDelay: number
+  ): number {
+    const { initialDelay, maxDelay, backoffMultiplier, jitter } = retryConfig;
+
+    if (retryConfig.respectRetryAfter && error.retryAfter !== undefined) {
+      return Math.min(error.retryAfter, maxDelay);
+    }
+
+    const backoff = Math.min(
+      initialDelay * Math.pow(backoffMultiplier, attempt),
+      maxDelay
+    );
+
+    switch (jitter) {
+      case 'full':
+        return Math.random() * backoff;
+      case 'equal':
+        return backoff / 2 + Math.random() * (backoff / 2);
+      case 'decorrelated':
+        return Math.min(
+          maxDelay,
+          initialDelay + Math.random() * (previousDelay * 3 - initialDelay)
+        );
+      default:
+        return backoff;
+    }
+  }
+
   /**
    * Execute a single HTTP request
    */
   private async executeRequest<TResponse, TBody = unknown>(
-    options: RequestOptions<TBody>
+    options: RequestOptions<TBody>,
+    attempt: number
   ): Promise<TResponse> {
     const url = this.buildUrl(options.path, options.queryParams);
     const headers = this.buildHeaders(options.headers);
+    const idempotencyKey = headers[IDEMPOTENCY_KEY_HEADER];
+    const logFields = { method: options.method, path: options.path, attempt };
+    const timeout = options.timeout ?? this.timeout;
+    const startedAt = Date.now();
 
-    // Create abort controller for timeout
+    if (options.signal?.aborted) {
+      throw cancellationError(options.signal, idempotencyKey);
+    }
+
+    if (this.logger.isEnabled('debug')) {
+      this.logger.debug('Sending MsGine request', {
+        ...this.logger.describeRequest(options, headers),
+        attempt,
+      });
+    }
+
+    // Abort on timeout or when the caller cancels
     const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+    const onAbort = () => controller.abort();
+    options.signal?.addEventListener('abort', onAbort, { once: true });
 
     try {
       const response = await this.fetchImpl(url, {
@@ -119,35 +401,86 @@ export class FetchHttpClient implements HttpClient {
       });
 
       clearTimeout(timeoutId);
+      options.signal?.removeEventListener('abort', onAbort);
+
+      const result = await this.handleResponse<TResponse>(
+        response,
+        idempotencyKey
+      );
+
+      this.logger.info('MsGine request succeeded', {
+        ...logFields,
+        status: response.status,
+        durationMs: Date.now() - startedAt,
+        requestId: response.headers.get('x-request-id') ?? undefined,
+      });
 
-      return await this.handleResponse<TResponse>(response);
+      return result;
     } catch (error) {
       clearTimeout(timeoutId);
+      options.signal?.removeEventListener('abort', onAbort);
 
       // If it's already a MsGineError, just re-throw it
       if (error instanceof MsGineError) {
+        this.logger.warn('MsGine request attempt failed', {
+          ...logFields,
+          durationMs: Date.now() - startedAt,
+          ...describeError(error),
+        });
         throw error;
       }
 
+      // Handle cancellation
+      if (options.signal?.aborted) {
+        this.logger.warn('MsGine request cancelled', {
+          ...logFields,
+          durationMs: Date.now() - startedAt,
+        });
+        throw cancellationError(options.signal, idempotencyKey);
+      }
+
       // Handle timeout
       if (error instanceof Error && error.name === 'AbortError') {
-        throw new MsGineError(
+        this.logger.warn('MsGine request timed out', {
+          ...logFields,
+          durationMs: Date.now() - startedAt,
+          timeoutMs: timeout,
+        });
+        throw new MsGineTimeoutError(
           'Request timeout',
           408,
           'REQUEST_TIMEOUT',
           undefined,
-          undefined
+          undefined,
+          {
+            idempotencyKey,
+            isRetryable: this.isRetryableStatus(408),
+            cause: error,
+          }
         );
       }
 
-      // Handle network errors
+      // Handle network errors, which are transient whatever the status
+      // list says; idempotency keys make retrying sends safe
       if (error instanceof Error) {
-        throw new MsGineError(
+        this.logger.warn('MsGine request attempt failed', {
+          ...logFields,
+          durationMs: Date.now() - startedAt,
+          status: 0,
+          code: 'NETWORK_ERROR',
+          error: error.message,
+        });
+        throw new MsGineNetworkError(
           `Network error: ${error.message}`,
           0,
           'NETWORK_ERROR',
           undefined,
-          undefined
+          undefined,
+          {
+            idempotencyKey,
+            isRetryable: true,
+            cause: error,
+          }
         );
       }
 
@@ -159,7 +492,8 @@ export class FetchHttpClient implements HttpClient {
    * Handle HTTP response
    */
   private async handleResponse<TResponse>(
-    response: Response
+    response: Response,
+    idempotencyKey?: string
   ): Promise<TResponse> {
     const contentType = response.headers.get('content-type');
     const isJson = contentType?.includes('application/json');
@@ -167,15 +501,20 @@ export class FetchHttpClient implements HttpClient {
     // Handle successful responses
     if (response.ok) {
       if (isJson) {
-        const data = await response.json();
-        return data as TResponse;
+        const data: unknown = await response.json();
+        return attachResponseMeta(data, {
+          status: response.status,
+          headers: response.headers,
+          requestId: response.headers.get('x-request-id') ?? undefined,
+        }) as TResponse;
       }
       throw new MsGineError(
         'Unexpected response format',
         response.status,
         'INVALID_RESPONSE_FORMAT',
         undefined,
-        undefined
+        undefined,
+        { idempotencyKey, isRetryable: false }
       );
     }
 
@@ -197,12 +536,19 @@ export class FetchHttpClient implements HttpClient {
       }
     }
 
-    throw new MsGineError(
+    throw createMsGineError(
       errorMessage,
       response.status,
       errorCode,
       errorDetails,
-      requestId
+      requestId,
+      {
+        retryAfter: parseRetryAfter(response.headers),
+        idempotencyKey,
+        idempotentReplayed:
+          response.headers.get(IDEMPOTENT_REPLAYED_HEADER) === 'true',
+        isRetryable: this.isRetryableStatus(response.status),
+      }
     );
   }
 
@@ -247,9 +593,82 @@ export class FetchHttpClient implements HttpClient {
   }
 
   /**
-   * Sleep for a given duration
+   * Sleep for a given duration, rejecting early if the signal aborts
    */
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(cancellationError(signal));
+        return;
+      }
+
+      const onAbort = () => {
+        clearTimeout(timeoutId);
+        reject(cancellationError(signal!));
+      };
+      const timeoutId = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
+
+/**
+ * Build the error thrown when the caller's signal cancels a request
+ */
+export function cancellationError(
+  signal: AbortSignal,
+  idempotencyKey?: string
+): MsGineCancelledError {
+  return new MsGineCancelledError(
+    'Request cancelled',
+    0,
+    'REQUEST_CANCELLED',
+    undefined,
+    undefined,
+    { idempotencyKey, isRetryable: false, cause: signal.reason }
+  );
+}
+
+/**
+ * Describe an error for logging
+ */
+function describeError(error: unknown): Record<string, unknown> {
+  if (error instanceof MsGineError) {
+    return {
+      status: error.statusCode,
+      code: error.code,
+      requestId: error.requestId,
+      error: error.message,
+    };
   }
+  return { error: error instanceof Error ? error.message : String(error) };
+}
+
+/**
+ * Read the delay the server asked for, in milliseconds, from `Retry-After`
+ * (seconds or HTTP date) or `X-RateLimit-Reset` (Unix time or seconds)
+ */
+function parseRetryAfter(headers: Headers): number | undefined {
+  const retryAfter = headers.get('retry-after');
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds) && seconds >= 0) {
+      return seconds * 1000;
+    }
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - Date.now());
+    }
+  }
+
+  const reset = Number(headers.get('x-ratelimit-reset') ?? NaN);
+  if (Number.isFinite(reset) && reset >= 0) {
+    // Large values are Unix timestamps, small ones are seconds from now
+    return reset > 1e9 ? Math.max(0, reset * 1000 - Date.now()) : reset * 1000;
+  }
+
+  return undefined;
 }
@@ -0,0 +1,184 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  MessageChannel,
+  MessageDirection,
+  MsGineValidationError,
+} from '../src';
+import { createSandbox } from '../src/test-helpers';
+
+describe('Inbound messages', () => {
+  describe('inbound', () => {
+    it('should get and list inbound messages', async () => {
+      const { api, client } = createSandbox();
+      const first = api.receive({ from: '0701521269', content: 'Hi' });
+      api.receive({ from: '+256701521270', content: 'Hello' });
+
+      await expect(client.inbound.get(first.id)).resolves.toEqual(first);
+
+      const messages = await client.inbound
+        .list({ from: '+256701521270' })
+        .toArray();
+      expect(messages.map((message) => message.content)).toEqual(['Hello']);
+    });
+
+    it('should reject invalid filters before sending', async () => {
+      const { api, client } = createSandbox();
+
+      await expect(
+        client.inbound.listPage({ receivedAfter: 'yesterday' })
+      ).rejects.toThrow(MsGineValidationError);
+      expect(api.requests).toHaveLength(0);
+    });
+  });
+
+  describe('conversations', () => {
+    it('should list both directions with a number, oldest first', async () => {
+      const { api, client } = createSandbox();
+
+      await client.sendSms({ to: '0701521269', message: 'Your order shipped' });
+      api.receive({ from: '+256701521269', content: 'When will it arrive?' });
+      await client.sendSms({ to: '0701521270', message: 'Someone else' });
+      await client.sendSms({ to: '0701521269', message: 'Tomorrow' });
+
+      const thread = await client.conversations
+        .list('0701 521 269', { limit: 2 })
+        .toArray();
+
+      expect(
+        thread.map((message) => [message.direction, message.content])
+      ).toEqual([
+        [MessageDirection.OUTBOUND, 'Your order shipped'],
+        [MessageDirection.INBOUND, 'When will it arrive?'],
+        [MessageDirection.OUTBOUND, 'Tomorrow'],
+      ]);
+      expect(api.requests.at(-1)?.path).toBe(
+        '/api/v1/conversations/%2B256701521269/messages'
+      );
+    });
+
+    it('should reject invalid numbers', () => {
+      const { client } = createSandbox();
+
+      expect(() => client.conversations.list('not a number')).toThrow(
+        MsGineValidationError
+      );
+    });
+  });
+
+  describe('reply', () => {
+    it('should reply from the sender ID of the answered message', async () => {
+      const { api, client } = createSandbox();
+      await client.sendSms({
+        to: '0701521269',
+        message: 'Rate us 1-5',
+        from: 'ShopCo',
+        channel: MessageChannel.WHATSAPP,
+      });
+      const inbound = api.receive({
+        from: '+256701521269',
+        to: '+256700000000',
+        content: '5',
+      });
+
+      await client.reply(inbound.id, 'Thanks!');
+
+      api.expectSmsSent({
+        to: '+256701521269',
+        from: 'ShopCo',
+        message: 'Thanks!',
+        channel: MessageChannel.WHATSAPP,
+      });
+    });
+
+    it('should reply from the number written to without an original', async () => {
+      const { api, client } = createSandbox();
+      const inbound = api.receive({
+        from: '+256701521269',
+        to: '6000',
+        content: 'Hello?',
+      });
+
+      await client.reply(inbound.id, 'Hi there');
+
+      api.expectSmsSent({ to: '+256701521269', from: '6000' });
+    });
+  });
+
+  describe('keywords', () => {
+    it('should detect whole-message keywords', () => {
+      const { client } = createSandbox({
+        keywords: { words: { help: ['AIDE'] } },
+      });
+
+      expect(client.keywords.detect(' Stop! ')).toBe('stop');
+      expect(client.keywords.detect('unsubscribe')).toBe('stop');
+      expect(client.keywords.detect('START')).toBe('start');
+      expect(client.keywords.detect('aide')).toBe('help');
+      expect(client.keywords.detect('HELP')).toBeUndefined();
+      expect(client.keywords.detect('Please stop')).toBeUndefined();
+    });
+
+    it('should run callbacks and send replies', async () => {
+      const onStop = vi.fn();
+      const onHelp = vi.fn();
+      const { api, client } = createSandbox({
+        keywords: {
+          onStop,
+          onHelp,
+          replies: { stop: 'You have been unsubscribed.' },
+        },
+      });
+      await client.sendSms({ to: '0701521269', message: 'Sale today' });
+      const stop = api.receive({ from: '+256701521269', content: 'STOP' });
+
+      await expect(client.keywords.handle(stop)).resolves.toBe('stop');
+
+      expect(onStop).toHaveBeenCalledWith(stop);
+      api.expectSmsSent({
+        to: '+256701521269',
+        message: 'You have been unsubscribed.',
+      });
+
+      const help = api.receive({ from: '+256701521269', content: 'help' });
+      await expect(client.keywords.handle(help)).resolves.toBe('help');
+      expect(onHelp).toHaveBeenCalledOnce();
+      expect(api.sent).toHaveLength(2);
+    });
+
+    it('should accept inbound webhook events', async () => {
+      const onStop = vi.fn();
+      const { api, client } = createSandbox({ keywords: { onStop } });
+      const inbound = api.receive({ from: '+256701521269', content: 'quit' });
+
+      const keyword = await client.keywords.handle({
+        id: 'evt_1',
+        type: 'message.inbound',
+        createdAt: inbound.receivedAt,
+        data: {
+          messageId: inbound.id,
+          from: inbound.from,
+          to: inbound.to,
+          content: inbound.content,
+          receivedAt: inbound.receivedAt,
+        },
+      });
+
+      expect(keyword).toBe('stop');
+      expect(onStop).toHaveBeenCalledWith(
+        expect.objectContaining({ id: inbound.id, from: '+256701521269' })
+      );
+    });
+
+    it('should ignore ordinary messages', async () => {
+      const onStop = vi.fn();
+      const { api, client } = createSandbox({ keywords: { onStop } });
+
+      await expect(
+        client.keywords.handle(
+          api.receive({ from: '+256701521269', content: 'Thanks!' })
+        )
+      ).resolves.toBeUndefined();
+      expect(onStop).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { z } from 'zod';
+import { Paginator, PaginatorOptions } from './pagination';
+import { ResponseValidator } from './responses';
+import {
+  CallOptions,
+  HttpClient,
+  HttpMethod,
+  InboundMessage,
+  InboundMessageSchema,
+  ListInboundMessagesParams,
+  ListInboundMessagesParamsSchema,
+  ListInboundMessagesResponse,
+  ListInboundMessagesResponseSchema,
+  MsGineValidationError,
+} from './types';
+import { toCallOptions, toQueryParams } from './utils';
+
+/**
+ * Inbound message ID schema
+ */
+const InboundMessageIdSchema = z.string().min(1, 'Message ID is required');
+
+/**
+ * Inbound message lookup and listing endpoints
+ *
+ * Available as `client.inbound`.
+ */
+export class Inbound {
+  constructor(
+    private readonly httpClient: HttpClient,
+    private readonly responses: ResponseValidator = new ResponseValidator()
+  ) {}
+
+  /**
+   * Get an inbound message by ID
+   *
+   * @param id - Message ID, as given in the inbound webhook
+   * @param options - Request options
+   * @returns Promise resolving to the message
+   * @throws {MsGineValidationError} If the ID or the response is invalid
+   * @throws {MsGineError} If the API request fails
+   */
+  async get(id: string, options: CallOptions = {}): Promise<InboundMessage> {
+    const validation = InboundMessageIdSchema.safeParse(id);
+
+    if (!validation.success) {
+      throw new MsGineValidationError('Invalid message ID', validation.error);
+    }
+
+    const response = await this.httpClient.request<unknown>({
+      ...toCallOptions(options),
+      method: HttpMethod.GET,
+      path: `/inbound/${encodeURIComponent(validation.data)}`,
+    });
+
+    return this.responses.parse(
+      InboundMessageSchema,
+      response,
+      'inbound message'
+    );
+  }
+
+  /**
+   * List every inbound message matching the filters, fetching pages on
+   * demand
+   *
+   * @param params - Listing filters and page size
+   * @param options - Iteration and request options
+   * @returns Paginator over the matching messages
+   * @throws {MsGineValidationError} If the filters are invalid
+   *
+   * @example
+   * ```typescript
+   * for await (const message of client.inbound.list({
+   *   receivedAfter: new Date(Date.now() - 24 * 60 * 60 * 1000),
+   * })) {
+   *   console.log(message.from, message.content);
+   * }
+   * ```
+   */
+  list(
+    params: ListInboundMessagesParams = {},
+    options: PaginatorOptions & CallOptions = {}
+  ): Paginator<InboundMessage> {
+    const { limit, cursor, page, ...filters } = this.validateParams(params);
+
+    return new Paginator<InboundMessage>(
+      (pagination) => this.listPage({ ...filters, ...pagination }, options),
+      { limit, cursor, page },
+      options
+    );
+  }
+
+  /**
+   * Fetch a single page of inbound messages matching the filters
+   *
+   * @param params - Listing filters and pagination parameters
+   * @param options - Request options
+   * @returns Promise resolving to the page of messages
+   * @throws {MsGineValidationError} If the filters or the response are invalid
+   * @throws {MsGineError} If the API request fails
+   */
+  async listPage(
+    params: ListInboundMessagesParams = {},
+    options: CallOptions = {}
+  ): Promise<ListInboundMessagesResponse> {
+    const response = await this.httpClient.request<unknown>({
+      ...toCallOptions(options),
+      method: HttpMethod.GET,
+      path: '/inbound',
+      queryParams: toQueryParams(this.validateParams(params)),
+    });
+
+    return this.responses.parseEnvelope(
+      ListInboundMessagesResponseSchema,
+      response,
+      'inbound message list'
+    );
+  }
+
+  private validateParams(
+    params: ListInboundMessagesParams
+  ): ListInboundMessagesParams {
+    const validation = ListInboundMessagesParamsSchema.safeParse(params);
+
+    if (!validation.success) {
+      throw new MsGineValidationError(
+        'Invalid inbound message filters',
+        validation.error
+      );
+    }
+
+    return validation.data;
+  }
+}
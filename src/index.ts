@@ -7,12 +7,147 @@
 // Export main client
 export { MsGineClient, createClient } from './client';
 
+// Export HTTP constants
+export { IDEMPOTENCY_KEY_HEADER } from './http-client';
+
+// Export logging helpers
+export { maskPhoneNumber } from './logger';
+
+// Export response helpers
+export { ResponseValidator, getResponseMeta } from './responses';
+export type { ResponseParseOptions } from './responses';
+
+// Export resources
+export { Messages } from './messages';
+export { Templates } from './templates';
+export { Verify, MemoryVerificationStore } from './verify';
+export { Inbound } from './inbound';
+export { Conversations } from './conversations';
+export { Keywords } from './keywords';
+export { Suppressions } from './suppressions';
+export { Account } from './account';
+export { Pricing } from './pricing';
+export { Usage } from './usage';
+export { Contacts } from './contacts';
+export { Groups } from './groups';
+
+// Export phone numbers
+export {
+  PhoneNumberSchema,
+  createPhoneNumberSchema,
+  safeParsePhoneNumber,
+} from './phone';
+export type {
+  CountryCode,
+  ParsedPhoneNumber,
+  PhoneNumberOptions,
+  PhoneNumberParseResult,
+  PhoneNumberErrorReason,
+} from './phone';
+
+// Export message analysis
+export { analyzeMessage, estimateCost } from './segments';
+export type {
+  MessageEncoding,
+  MessageAnalysis,
+  AnalyzeMessageOptions,
+  PricingTable,
+  EstimateCostOptions,
+  CostEstimate,
+  RecipientCostEstimate,
+} from './segments';
+
+// Export pagination
+export { Paginator } from './pagination';
+export type { Page, PageFetcher, PaginatorOptions } from './pagination';
+
 // Export types
 export type {
   MsGineClientConfig,
+  ResponseValidationMode,
+  ResponseMeta,
+  OpenEnum,
   RetryConfig,
+  RateLimitConfig,
+  ThrottleEvent,
+  LimiterStats,
+  Middleware,
+  MiddlewareContext,
+  MiddlewareResponse,
+  Logger,
+  LogLevel,
+  RedactConfig,
+  TelemetryConfig,
+  TelemetryTracer,
+  TelemetrySpan,
+  TelemetryMeter,
+  TelemetryCounter,
+  TelemetryHistogram,
+  TelemetryAttributes,
   SendSmsPayload,
+  SendToGroupPayload,
+  MessageOptions,
+  SmsRecipient,
+  TemplateVariables,
   SendSmsResponse,
+  SendSmsRecipientResult,
+  CallOptions,
+  SendSmsOptions,
+  SendSmsBatchOptions,
+  SendSmsBatchResult,
+  RescheduleMessageOptions,
+  MessageTemplate,
+  TemplateDefinition,
+  TemplatePlaceholders,
+  TemplateBody,
+  TemplateVars,
+  SendTemplateParams,
+  RenderedTemplate,
+  VerifyConfig,
+  VerifySendOptions,
+  VerifySendResult,
+  VerificationStore,
+  VerificationRecord,
+  VerificationCheckResult,
+  InboundMessage,
+  ListInboundMessagesParams,
+  ListInboundMessagesResponse,
+  ConversationMessage,
+  ConversationResponse,
+  InboundKeyword,
+  KeywordCallback,
+  KeywordConfig,
+  Suppression,
+  SuppressionReason,
+  AddSuppressionOptions,
+  ListSuppressionsParams,
+  ListSuppressionsResponse,
+  RespectSuppressionMode,
+  SkippedRecipient,
+  Balance,
+  Price,
+  UsageGroupBy,
+  UsageSummaryParams,
+  UsageSummary,
+  ContactFields,
+  Contact,
+  CreateContactParams,
+  UpdateContactParams,
+  ListContactsParams,
+  ListContactsResponse,
+  ImportContactsOptions,
+  ImportContactsResponse,
+  ContactImportFailure,
+  ContactImportResult,
+  Group,
+  GroupParams,
+  ListGroupsResponse,
+  BulkSendResponse,
+  Message,
+  ListMessagesParams,
+  ListMessagesResponse,
+  PaginationParams,
+  PaginationMeta,
   ApiResponse,
   ApiErrorResponse,
   HttpClient,
@@ -20,10 +155,111 @@ export type {
 } from './types';
 
 // Export enums
-export { MessageStatus, HttpMethod } from './types';
+export {
+  MessageStatus,
+  MessageChannel,
+  MessagePriority,
+  MessageDirection,
+  HttpMethod,
+} from './types';
 
 // Export errors
-export { MsGineError, MsGineValidationError } from './types';
+export {
+  MsGineError,
+  MsGineAuthenticationError,
+  MsGinePermissionError,
+  MsGineInsufficientBalanceError,
+  MsGineInvalidRequestError,
+  MsGineInvalidRecipientError,
+  MsGineNotFoundError,
+  MsGineConflictError,
+  MsGineRateLimitError,
+  MsGineServerError,
+  MsGineTimeoutError,
+  MsGineNetworkError,
+  MsGineCancelledError,
+  MsGineValidationError,
+  MsGineWebhookError,
+  MsGineVerificationError,
+  MsGineSuppressionError,
+  MsGinePricingError,
+} from './types';
+export type {
+  MsGineErrorOptions,
+  MsGineErrorAttempt,
+  MsGineWebhookErrorCode,
+  MsGineVerificationErrorCode,
+  MsGinePricingErrorCode,
+} from './types';
 
 // Export schemas for runtime validation
-export { SendSmsSchema } from './types';
+export {
+  SendSmsSchema,
+  createSendSmsSchema,
+  TemplateVariablesSchema,
+  SenderIdSchema,
+  MessageMetadataSchema,
+  SendAtSchema,
+  TimeZoneSchema,
+  RescheduleMessageSchema,
+  MessageTemplateSchema,
+  ListTemplatesResponseSchema,
+  BulkSendResponseSchema,
+  MessageSchema,
+  SendSmsResponseSchema,
+  SendSmsRecipientResultSchema,
+  ListMessagesParamsSchema,
+  ListMessagesResponseSchema,
+  PaginationParamsSchema,
+  PaginationMetaSchema,
+  InboundMessageSchema,
+  ListInboundMessagesParamsSchema,
+  ListInboundMessagesResponseSchema,
+  ConversationMessageSchema,
+  ConversationResponseSchema,
+  SuppressionReasonSchema,
+  SuppressionSchema,
+  ListSuppressionsParamsSchema,
+  ListSuppressionsResponseSchema,
+  BalanceSchema,
+  CarrierPriceSchema,
+  PriceSchema,
+  UsageGroupBySchema,
+  UsageSummaryParamsSchema,
+  UsageGroupSchema,
+  UsageSummarySchema,
+  ContactFieldsSchema,
+  ContactSchema,
+  createContactSchema,
+  CreateContactSchema,
+  ListContactsParamsSchema,
+  ListContactsResponseSchema,
+  ImportContactsResponseSchema,
+  GroupSchema,
+  GroupParamsSchema,
+  ListGroupsResponseSchema,
+} from './types';
+
+// Export webhooks
+export {
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  MessageStatusEventSchema,
+  InboundMessageEventSchema,
+  WebhookEventSchema,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  parseWebhookEvent,
+  constructWebhookEvent,
+  createNodeWebhookHandler,
+  createExpressWebhookHandler,
+  createFetchWebhookHandler,
+} from './webhooks';
+export type {
+  MessageStatusEvent,
+  InboundMessageEvent,
+  WebhookEvent,
+  WebhookHeaders,
+  WebhookVerifyOptions,
+  WebhookHandlerOptions,
+} from './webhooks';
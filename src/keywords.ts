@@ -0,0 +1,154 @@
+import type { MsGineClient } from './client';
+import {
+  InboundKeyword,
+  InboundMessage,
+  KeywordCallback,
+  KeywordConfig,
+  MessageChannel,
+} from './types';
+import type { InboundMessageEvent } from './webhooks';
+
+/**
+ * Words recognised for each keyword by default
+ */
+const DEFAULT_KEYWORD_WORDS: Record<InboundKeyword, string[]> = {
+  stop: ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT'],
+  start: ['START', 'UNSTOP', 'SUBSCRIBE'],
+  help: ['HELP', 'INFO'],
+};
+
+/**
+ * STOP, START and HELP keyword handling for inbound messages
+ *
+ * Available as `client.keywords`. Pass inbound messages, or inbound
+ * webhook events, to `handle` to run the configured callbacks and send the
+ * configured replies.
+ *
+ * @example
+ * ```typescript
+ * const client = new MsGineClient({
+ *   apiToken: process.env.MSGINE_API_TOKEN!,
+ *   keywords: {
+ *     suppress: true,
+ *     replies: { stop: 'You have been unsubscribed.' },
+ *   },
+ * });
+ *
+ * createExpressWebhookHandler({
+ *   secret,
+ *   onEvent: async (event) => {
+ *     if (event.type === 'message.inbound') {
+ *       await client.keywords.handle(event);
+ *     }
+ *   },
+ * });
+ * ```
+ */
+export class Keywords {
+  private readonly words: Map<string, InboundKeyword>;
+
+  constructor(
+    private readonly client: Pick<MsGineClient, 'reply' | 'suppressions'>,
+    private readonly config: KeywordConfig = {}
+  ) {
+    this.words = new Map();
+    for (const keyword of Object.keys(
+      DEFAULT_KEYWORD_WORDS
+    ) as InboundKeyword[]) {
+      for (const word of config.words?.[keyword] ??
+        DEFAULT_KEYWORD_WORDS[keyword]) {
+        this.words.set(normalizeWord(word), keyword);
+      }
+    }
+  }
+
+  /**
+   * Find the keyword a message consists of. The whole message must match,
+   * ignoring case, surrounding whitespace and trailing punctuation, so
+   * "Please stop sending these" is not an opt-out.
+   *
+   * @param text - Message text
+   * @returns The keyword, or `undefined` for ordinary messages
+   *
+   * @example
+   * ```typescript
+   * client.keywords.detect(' Stop! '); // 'stop'
+   * ```
+   */
+  detect(text: string): InboundKeyword | undefined {
+    return this.words.get(normalizeWord(text));
+  }
+
+  /**
+   * Handle a keyword in an inbound message: update the suppression list if
+   * `suppress` is set, run the keyword's callback, then send its reply
+   *
+   * @param message - Inbound message or inbound webhook event
+   * @returns Promise resolving to the keyword, or `undefined` if the
+   * message is not one
+   * @throws {MsGineError} If updating the suppression list or sending the
+   * reply fails
+   */
+  async handle(
+    message: InboundMessage | InboundMessageEvent
+  ): Promise<InboundKeyword | undefined> {
+    const inbound = toInboundMessage(message);
+    const keyword = this.detect(inbound.content);
+
+    if (!keyword) {
+      return undefined;
+    }
+
+    if (this.config.suppress && keyword === 'stop') {
+      await this.client.suppressions.add(inbound.from, { reason: 'opt_out' });
+    }
+    if (this.config.suppress && keyword === 'start') {
+      await this.client.suppressions.remove(inbound.from);
+    }
+
+    await this.callbackFor(keyword)?.(inbound);
+
+    const reply = this.config.replies?.[keyword];
+    if (reply) {
+      // Opted-out customers still get the confirmation and help replies
+      await this.client.reply(inbound.id, reply, { ignoreSuppression: true });
+    }
+
+    return keyword;
+  }
+
+  private callbackFor(keyword: InboundKeyword): KeywordCallback | undefined {
+    switch (keyword) {
+      case 'stop':
+        return this.config.onStop;
+      case 'start':
+        return this.config.onStart;
+      case 'help':
+        return this.config.onHelp;
+    }
+  }
+}
+
+/**
+ * Uppercase a word and strip surrounding whitespace and punctuation
+ */
+function normalizeWord(text: string): string {
+  return text
+    .trim()
+    .replace(/[\s.!?,;:]+$/, '')
+    .toUpperCase();
+}
+
+/**
+ * Read an inbound webhook event as an inbound message
+ */
+function toInboundMessage(
+  message: InboundMessage | InboundMessageEvent
+): InboundMessage {
+  if (!('type' in message)) {
+    return message;
+  }
+
+  const { messageId, ...data } = message.data;
+  return { ...data, id: messageId, channel: MessageChannel.SMS };
+}
@@ -0,0 +1,175 @@
+import { LogLevel, Logger, RedactConfig, RequestOptions } from './types';
+
+/**
+ * Severity order of log levels
+ */
+const LOG_LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: Infinity,
+};
+
+/**
+ * Headers redacted by default
+ */
+const DEFAULT_REDACTED_HEADERS = ['authorization'];
+
+/**
+ * Body and query keys holding phone numbers
+ */
+const PHONE_NUMBER_KEYS = new Set(['to', 'from', 'phone', 'phoneNumber']);
+
+/**
+ * Body keys holding message contents
+ */
+const MESSAGE_BODY_KEYS = new Set(['message', 'content', 'text', 'body']);
+
+/**
+ * Body keys holding template variables, which end up in message contents
+ */
+const TEMPLATE_VARIABLE_KEYS = new Set(['variables']);
+
+/**
+ * Placeholder for redacted values
+ */
+const REDACTED = '[REDACTED]';
+
+/**
+ * Mask a phone number, keeping the country code prefix and last two digits
+ *
+ * @example
+ * ```typescript
+ * maskPhoneNumber('+256701521269'); // '+256*******69'
+ * ```
+ */
+export function maskPhoneNumber(value: string): string {
+  if (value.length <= 6) {
+    return '*'.repeat(value.length);
+  }
+  return `${value.slice(0, 4)}${'*'.repeat(value.length - 6)}${value.slice(-2)}`;
+}
+
+/**
+ * Level-filtering, redacting wrapper around a user-supplied logger
+ */
+export class SdkLogger {
+  private readonly threshold: number;
+  private readonly redactedHeaders: Set<string>;
+  private readonly redactPhoneNumbers: boolean;
+  private readonly redactMessageBodies: boolean;
+
+  constructor(
+    private readonly logger?: Logger,
+    level: LogLevel = 'info',
+    redact: RedactConfig = {}
+  ) {
+    this.threshold = logger ? LOG_LEVELS[level] : Infinity;
+    this.redactedHeaders = new Set(
+      (redact.headers ?? DEFAULT_REDACTED_HEADERS).map((h) => h.toLowerCase())
+    );
+    this.redactPhoneNumbers = redact.phoneNumbers ?? true;
+    this.redactMessageBodies = redact.messageBodies ?? true;
+  }
+
+  debug(message: string, fields: Record<string, unknown>): void {
+    this.log('debug', message, fields);
+  }
+
+  info(message: string, fields: Record<string, unknown>): void {
+    this.log('info', message, fields);
+  }
+
+  warn(message: string, fields: Record<string, unknown>): void {
+    this.log('warn', message, fields);
+  }
+
+  error(message: string, fields: Record<string, unknown>): void {
+    this.log('error', message, fields);
+  }
+
+  /**
+   * Whether records at this level are emitted
+   */
+  isEnabled(level: Exclude<LogLevel, 'silent'>): boolean {
+    return LOG_LEVELS[level] >= this.threshold;
+  }
+
+  /**
+   * Describe a request for logging, with sensitive values redacted
+   */
+  describeRequest(
+    options: RequestOptions,
+    headers: Record<string, string>
+  ): Record<string, unknown> {
+    return {
+      method: options.method,
+      path: options.path,
+      query: options.queryParams && this.redactValue(options.queryParams),
+      headers: this.redactHeaders(headers),
+      body:
+        options.body === undefined ? undefined : this.redactValue(options.body),
+    };
+  }
+
+  private log(
+    level: Exclude<LogLevel, 'silent'>,
+    message: string,
+    fields: Record<string, unknown>
+  ): void {
+    if (!this.logger || !this.isEnabled(level)) {
+      return;
+    }
+
+    try {
+      this.logger[level]({ sdk: '@msgine/sdk', ...fields }, message);
+    } catch {
+      // Logging must never break a request
+    }
+  }
+
+  private redactHeaders(
+    headers: Record<string, string>
+  ): Record<string, string> {
+    return Object.fromEntries(
+      Object.entries(headers).map(([name, value]) => [
+        name,
+        this.redactedHeaders.has(name.toLowerCase()) ? REDACTED : value,
+      ])
+    );
+  }
+
+  private redactValue(value: unknown, key?: string): unknown {
+    if (Array.isArray(value)) {
+      return value.map((item) => this.redactValue(item, key));
+    }
+
+    if (value !== null && typeof value === 'object') {
+      if (
+        this.redactMessageBodies &&
+        key !== undefined &&
+        TEMPLATE_VARIABLE_KEYS.has(key)
+      ) {
+        // Keep the variable names, which help debugging templates
+        return Object.fromEntries(
+          Object.keys(value).map((name) => [name, REDACTED])
+        );
+      }
+      return Object.fromEntries(
+        Object.entries(value).map(([k, v]) => [k, this.redactValue(v, k)])
+      );
+    }
+
+    if (key !== undefined && typeof value === 'string') {
+      if (this.redactPhoneNumbers && PHONE_NUMBER_KEYS.has(key)) {
+        return maskPhoneNumber(value);
+      }
+      if (this.redactMessageBodies && MESSAGE_BODY_KEYS.has(key)) {
+        return REDACTED;
+      }
+    }
+
+    return value;
+  }
+}
@@ -0,0 +1,195 @@
+import { z } from 'zod';
+import { Paginator, PaginatorOptions } from './pagination';
+import { ResponseValidator } from './responses';
+import {
+  CallOptions,
+  HttpClient,
+  HttpMethod,
+  ListMessagesParams,
+  ListMessagesParamsSchema,
+  ListMessagesResponse,
+  ListMessagesResponseSchema,
+  Message,
+  MessageSchema,
+  MsGineValidationError,
+  RescheduleMessageOptions,
+  RescheduleMessageSchema,
+} from './types';
+import { toCallOptions, toQueryParams } from './utils';
+
+/**
+ * Message ID schema
+ */
+const MessageIdSchema = z.string().min(1, 'Message ID is required');
+
+/**
+ * Message lookup, listing and scheduling endpoints
+ *
+ * Available as `client.messages`.
+ */
+export class Messages {
+  constructor(
+    private readonly httpClient: HttpClient,
+    private readonly responses: ResponseValidator = new ResponseValidator()
+  ) {}
+
+  /**
+   * Get a message by ID
+   *
+   * @param id - Message ID returned when the message was sent
+   * @param options - Request options
+   * @returns Promise resolving to the message with its current status
+   * @throws {MsGineValidationError} If the ID or the response is invalid
+   * @throws {MsGineError} If the API request fails
+   */
+  async get(id: string, options: CallOptions = {}): Promise<Message> {
+    const response = await this.httpClient.request<unknown>({
+      ...toCallOptions(options),
+      method: HttpMethod.GET,
+      path: this.messagePath(id),
+    });
+
+    return this.parseMessage(response);
+  }
+
+  /**
+   * Cancel a scheduled message before it is sent
+   *
+   * @param id - Message ID returned when the message was scheduled
+   * @param options - Request options
+   * @returns Promise resolving to the cancelled message
+   * @throws {MsGineValidationError} If the ID or the response is invalid
+   * @throws {MsGineError} If the API request fails, e.g. because the
+   * message has already been sent
+   */
+  async cancel(id: string, options: CallOptions = {}): Promise<Message> {
+    const response = await this.httpClient.request<unknown>({
+      ...toCallOptions(options),
+      method: HttpMethod.DELETE,
+      path: this.messagePath(id),
+    });
+
+    return this.parseMessage(response);
+  }
+
+  /**
+   * Move a scheduled message to a new send time
+   *
+   * @param id - Message ID returned when the message was scheduled
+   * @param sendAt - New send time, in the future
+   * @param options - Reschedule options
+   * @returns Promise resolving to the rescheduled message
+   * @throws {MsGineValidationError} If the ID, send time or response is
+   * invalid
+   * @throws {MsGineError} If the API request fails
+   */
+  async reschedule(
+    id: string,
+    sendAt: string | Date,
+    options: RescheduleMessageOptions = {}
+  ): Promise<Message> {
+    const path = this.messagePath(id);
+    const validation = RescheduleMessageSchema.safeParse({
+      sendAt,
+      timezone: options.timezone,
+    });
+
+    if (!validation.success) {
+      throw new MsGineValidationError('Invalid schedule', validation.error);
+    }
+
+    const response = await this.httpClient.request<unknown>({
+      ...toCallOptions(options),
+      method: HttpMethod.PATCH,
+      path,
+      body: validation.data,
+    });
+
+    return this.parseMessage(response);
+  }
+
+  /**
+   * List every message matching the filters, fetching pages on demand
+   *
+   * @param params - Listing filters and page size
+   * @param options - Iteration and request options
+   * @returns Paginator over the matching messages
+   * @throws {MsGineValidationError} If the filters are invalid
+   *
+   * @example
+   * ```typescript
+   * for await (const message of client.messages.list({
+   *   status: MessageStatus.FAILED,
+   *   limit: 100,
+   * })) {
+   *   console.log(message.id, message.to);
+   * }
+   * ```
+   */
+  list(
+    params: ListMessagesParams = {},
+    options: PaginatorOptions & CallOptions = {}
+  ): Paginator<Message> {
+    const { limit, cursor, page, ...filters } = this.validateParams(params);
+
+    return new Paginator<Message>(
+      (pagination) => this.listPage({ ...filters, ...pagination }, options),
+      { limit, cursor, page },
+      options
+    );
+  }
+
+  /**
+   * Fetch a single page of messages matching the filters
+   *
+   * @param params - Listing filters and pagination parameters
+   * @param options - Request options
+   * @returns Promise resolving to the page of messages
+   * @throws {MsGineValidationError} If the filters or the response are invalid
+   * @throws {MsGineError} If the API request fails
+   */
+  async listPage(
+    params: ListMessagesParams = {},
+    options: CallOptions = {}
+  ): Promise<ListMessagesResponse> {
+    const response = await this.httpClient.request<unknown>({
+      ...toCallOptions(options),
+      method: HttpMethod.GET,
+      path: '/messages',
+      queryParams: toQueryParams(this.validateParams(params)),
+    });
+
+    return this.responses.parseEnvelope(
+      ListMessagesResponseSchema,
+      response,
+      'message list'
+    );
+  }
+
+  private messagePath(id: string): string {
+    const validation = MessageIdSchema.safeParse(id);
+
+    if (!validation.success) {
+      throw new MsGineValidationError('Invalid message ID', validation.error);
+    }
+
+    return `/messages/${encodeURIComponent(validation.data)}`;
+  }
+
+  private parseMessage(response: unknown): Message {
+    return this.responses.parse(MessageSchema, response, 'message');
+  }
+
+  private validateParams(params: ListMessagesParams): ListMessagesParams {
+    const validation = ListMessagesParamsSchema.safeParse(params);
+
+    if (!validation.success) {
+      throw new MsGineValidationError(
+        'Invalid message filters',
+        validation.error
+      );
+    }
+
+    return validation.data;
+  }
+}
@@ -0,0 +1,1627 @@
+import { randomUUID } from 'crypto';
+import {
+  cancellationError,
+  IDEMPOTENCY_KEY_HEADER,
+  IDEMPOTENT_REPLAYED_HEADER,
+} from './http-client';
+import { safeParsePhoneNumber } from './phone';
+import { attachResponseMeta } from './responses';
+import { analyzeMessage } from './segments';
+import {
+  Contact,
+  ContactFields,
+  createMsGineError,
+  Group,
+  HttpClient,
+  HttpMethod,
+  InboundMessage,
+  Message,
+  MessageChannel,
+  MessageDirection,
+  MessagePriority,
+  MessageStatus,
+  MessageTemplate,
+  MsGineNetworkError,
+  MsGineTimeoutError,
+  RequestOptions,
+  Suppression,
+  SuppressionReason,
+  TemplateVariables,
+} from './types';
+import { renderTemplate } from './utils';
+
+/**
+ * Error codes returned for scripted failures, by status code
+ */
+const FAILURE_CODES: Record<number, string> = {
+  400: 'INVALID_REQUEST',
+  401: 'UNAUTHORIZED',
+  402: 'INSUFFICIENT_BALANCE',
+  403: 'FORBIDDEN',
+  404: 'NOT_FOUND',
+  409: 'CONFLICT',
+  429: 'RATE_LIMITED',
+  500: 'INTERNAL_ERROR',
+  502: 'BAD_GATEWAY',
+  503: 'SERVICE_UNAVAILABLE',
+  504: 'GATEWAY_TIMEOUT',
+};
+
+/**
+ * Statuses a message moves through, one step per `advance()`
+ */
+const DELIVERY_PROGRESSION: Partial<Record<MessageStatus, MessageStatus>> = {
+  [MessageStatus.SCHEDULED]: MessageStatus.PENDING,
+  [MessageStatus.PENDING]: MessageStatus.SENT,
+  [MessageStatus.SENT]: MessageStatus.DELIVERED,
+};
+
+/**
+ * Default page size of list endpoints
+ */
+const DEFAULT_PAGE_SIZE = 50;
+
+/**
+ * Default starting balance of the mock account
+ */
+const DEFAULT_BALANCE = 1_000_000;
+
+/**
+ * Options for the mock MsGine API
+ */
+export interface MockApiOptions {
+  /**
+   * Token expected in the `Authorization` header. Any token is accepted
+   * when omitted.
+   */
+  apiToken?: string;
+
+  /**
+   * Templates returned by the templates endpoint
+   */
+  templates?: MessageTemplate[];
+
+  /**
+   * Recipients whose messages end up `failed` instead of `delivered`
+   */
+  undeliverable?: string[];
+
+  /**
+   * Advance a message one delivery step each time it is fetched, so
+   * polling code sees it progress
+   * @default false
+   */
+  autoAdvance?: boolean;
+
+  /**
+   * Price charged per segment and recipient
+   * @default 30
+   */
+  costPerSegment?: number;
+
+  /**
+   * Currency of message costs
+   * @default 'UGX'
+   */
+  currency?: string;
+
+  /**
+   * Starting account balance. Each send is charged against it and refused
+   * with a 402 once it runs out.
+   * @default 1000000
+   */
+  balance?: number;
+
+  /**
+   * Numbers on the suppression list from the start, as opted out
+   */
+  suppressed?: string[];
+}
+
+/**
+ * Request received by the mock API
+ */
+export interface MockRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  headers: Record<string, string>;
+  body?: unknown;
+}
+
+/**
+ * Outcome of a request to the mock API: a response, a request that never
+ * completes, or a connection failure
+ */
+export type MockResult =
+  | {
+      type: 'response';
+      status: number;
+      headers: Record<string, string>;
+      body: unknown;
+    }
+  | { type: 'timeout' }
+  | { type: 'network' };
+
+/**
+ * Error response returned by a scripted failure
+ */
+export interface MockHttpFailure {
+  status: number;
+  code?: string;
+  message?: string;
+
+  /**
+   * Delay in seconds sent in the `Retry-After` header
+   */
+  retryAfter?: number;
+}
+
+/**
+ * A scripted failure: an error status code, an error response, a request
+ * that never completes (`timeout`) or a dropped connection (`network`)
+ */
+export type MockFailure = number | 'timeout' | 'network' | MockHttpFailure;
+
+/**
+ * Which requests a scripted failure applies to
+ */
+export interface MockFailureOptions {
+  /**
+   * Number of matching requests that fail
+   * @default 1
+   */
+  times?: number;
+
+  /**
+   * Only fail requests with this method
+   */
+  method?: HttpMethod;
+
+  /**
+   * Only fail requests whose path ends with this string, e.g.
+   * `/messages/sms`
+   */
+  path?: string;
+}
+
+/**
+ * An SMS accepted by the mock API, one per recipient
+ */
+export interface SentSms {
+  /**
+   * ID of the message the SMS belongs to
+   */
+  id: string;
+  to: string;
+  from: string;
+
+  /**
+   * Message text with template variables filled in
+   */
+  message: string;
+  channel: MessageChannel;
+  sendAt?: string;
+  clientReference?: string;
+  metadata?: Record<string, string>;
+}
+
+/**
+ * Message a customer sends to the mock API with `receive`
+ */
+export interface MockInboundSms {
+  /**
+   * Customer number the message comes from
+   */
+  from: string;
+  content: string;
+
+  /**
+   * Number or sender ID the customer writes to. Defaults to the sender of
+   * the last message sent to the customer.
+   */
+  to?: string;
+
+  /**
+   * ID of the message being answered. Defaults to the last message sent
+   * to the customer.
+   */
+  inReplyTo?: string;
+  channel?: MessageChannel;
+}
+
+/**
+ * Fields an SMS must match in `expectSmsSent`. Every given field must be
+ * equal; `message` also accepts a regular expression.
+ */
+export interface SmsMatcher {
+  to?: string;
+  from?: string;
+  message?: string | RegExp;
+  channel?: MessageChannel;
+  clientReference?: string;
+}
+
+/**
+ * Scripted failure waiting for a matching request
+ */
+interface PendingFailure extends MockFailureOptions {
+  failure: MockFailure;
+  remaining: number;
+}
+
+/**
+ * Reason a message or contact was not accepted
+ */
+interface Refusal {
+  status: number;
+  code: string;
+  message: string;
+}
+
+/**
+ * Message body accepted by the send endpoints
+ */
+interface SendBody {
+  to?: unknown;
+  message?: unknown;
+  from?: string;
+  channel?: MessageChannel;
+  variables?: TemplateVariables;
+  recipients?: { to: string; variables?: TemplateVariables }[];
+  sendAt?: string;
+  timezone?: string;
+  callbackUrl?: string;
+  ttl?: number;
+  priority?: MessagePriority;
+  clientReference?: string;
+  metadata?: Record<string, string>;
+}
+
+/**
+ * Contact body accepted by the contact endpoints
+ */
+interface ContactBody {
+  phoneNumber?: unknown;
+  name?: string;
+  email?: string;
+  fields?: ContactFields;
+  groupIds?: string[];
+}
+
+/**
+ * Stored group, whose contact count is worked out when it is returned
+ */
+type StoredGroup = Omit<Group, 'contactCount'>;
+
+/**
+ * In-memory imitation of the MsGine API for tests
+ *
+ * It serves the message, bulk, scheduling, template, inbound, conversation,
+ * suppression, balance, pricing, usage, contact and group routes, keeps the messages it
+ * accepted, replays idempotent requests, fails on demand, moves messages
+ * through delivery statuses and takes replies from customers with
+ * `receive`. Use it through `fetch`, a `FakeHttpClient`, a mock server from
+ * `createMockServer`, or the client's `sandbox` option.
+ *
+ * @example
+ * ```typescript
+ * const api = new MockMsGineApi();
+ * const client = new MsGineClient({ apiToken: 'test', sandbox: api });
+ *
+ * api.failNext(503);
+ * await client.sendSms({ to: '+256701521269', message: 'Hello' });
+ *
+ * api.expectSmsSent({ to: '+256701521269', message: 'Hello' });
+ * ```
+ */
+export class MockMsGineApi {
+  private readonly messageStore = new Map<string, Message>();
+  private readonly inboundStore = new Map<string, InboundMessage>();
+  private readonly suppressionStore = new Map<string, Suppression>();
+  private readonly contactStore = new Map<string, Contact>();
+  private readonly groupStore = new Map<string, StoredGroup>();
+  /**
+   * IDs of outbound and inbound messages, in the order they were created
+   */
+  private readonly timeline: string[] = [];
+  private readonly sentSms: SentSms[] = [];
+  private readonly received: MockRequest[] = [];
+  private readonly failures: PendingFailure[] = [];
+  private readonly replays = new Map<string, MockResult>();
+  private readonly undeliverable: Set<string>;
+  private remainingBalance: number;
+
+  constructor(private readonly options: MockApiOptions = {}) {
+    this.undeliverable = new Set(options.undeliverable);
+    this.remainingBalance = options.balance ?? DEFAULT_BALANCE;
+    this.seedSuppressions();
+  }
+
+  /**
+   * Account balance left after the messages sent so far
+   */
+  get balance(): number {
+    return this.remainingBalance;
+  }
+
+  /**
+   * Messages accepted so far, oldest first
+   */
+  get messages(): Message[] {
+    return [...this.messageStore.values()];
+  }
+
+  /**
+   * Messages received from customers so far, oldest first
+   */
+  get inboundMessages(): InboundMessage[] {
+    return [...this.inboundStore.values()];
+  }
+
+  /**
+   * Numbers on the suppression list
+   */
+  get suppressions(): Suppression[] {
+    return [...this.suppressionStore.values()];
+  }
+
+  /**
+   * Contacts in the address book, oldest first
+   */
+  get contacts(): Contact[] {
+    return [...this.contactStore.values()];
+  }
+
+  /**
+   * Contact groups, oldest first
+   */
+  get groups(): Group[] {
+    return [...this.groupStore.values()].map((group) => this.withCount(group));
+  }
+
+  /**
+   * SMS accepted so far, one entry per recipient
+   */
+  get sent(): SentSms[] {
+    return [...this.sentSms];
+  }
+
+  /**
+   * Every request received, including failed ones
+   */
+  get requests(): MockRequest[] {
+    return [...this.received];
+  }
+
+  /**
+   * `fetch`-compatible entry point, for the client's `fetch` option
+   */
+  readonly fetch: typeof fetch = async (input, init) => {
+    const url = new URL(input instanceof Request ? input.url : String(input));
+    const headers: Record<string, string> = {};
+    new Headers(init?.headers).forEach((value, name) => {
+      headers[name] = value;
+    });
+
+    const result = await this.handle({
+      method: init?.method ?? 'GET',
+      path: url.pathname,
+      query: Object.fromEntries(url.searchParams),
+      headers,
+      body: typeof init?.body === 'string' ? parseJson(init.body) : undefined,
+    });
+
+    if (result.type === 'network') {
+      throw new TypeError('fetch failed');
+    }
+
+    if (result.type === 'timeout') {
+      return new Promise<Response>((_, reject) => {
+        const signal = init?.signal;
+        const abort = () => {
+          const error = new Error('The operation was aborted');
+          error.name = 'AbortError';
+          reject(error);
+        };
+        if (signal?.aborted) {
+          abort();
+        }
+        signal?.addEventListener('abort', abort, { once: true });
+      });
+    }
+
+    return new Response(JSON.stringify(result.body), {
+      status: result.status,
+      headers: result.headers,
+    });
+  };
+
+  /**
+   * Make the next matching requests fail
+   *
+   * @param failure - Status code, error response, `'timeout'` or `'network'`
+   * @param options - How many and which requests fail
+   *
+   * @example
+   * ```typescript
+   * api.failNext({ status: 429, retryAfter: 1 });
+   * api.failNext(503, { times: 2, path: '/messages/sms' });
+   * api.failNext('timeout');
+   * ```
+   */
+  failNext(failure: MockFailure, options: MockFailureOptions = {}): void {
+    this.failures.push({ ...options, failure, remaining: options.times ?? 1 });
+  }
+
+  /**
+   * Simulate a message sent by a customer
+   *
+   * @param sms - Sender, text and optionally the message it answers
+   * @returns The stored inbound message
+   *
+   * @example
+   * ```typescript
+   * const inbound = api.receive({ from: '+256701521269', content: 'STOP' });
+   * await client.keywords.handle(inbound);
+   * ```
+   */
+  receive(sms: MockInboundSms): InboundMessage {
+    const from = normalizeNumber(sms.from);
+    const answered = sms.inReplyTo
+      ? this.findMessage(sms.inReplyTo)
+      : this.messages.filter((message) => message.to.includes(from)).pop();
+
+    const message: InboundMessage = {
+      id: `inb_${randomUUID()}`,
+      direction: MessageDirection.INBOUND,
+      channel: sms.channel ?? answered?.channel ?? MessageChannel.SMS,
+      from,
+      to: sms.to ?? answered?.from ?? 'MsGine',
+      content: sms.content,
+      receivedAt: new Date().toISOString(),
+      inReplyTo: answered?.id,
+    };
+
+    this.inboundStore.set(message.id, message);
+    this.timeline.push(message.id);
+    return message;
+  }
+
+  /**
+   * Move messages one step along their delivery progression: scheduled,
+   * pending, sent, then delivered or failed
+   *
+   * @param id - Message to advance; every message when omitted
+   */
+  advance(id?: string): void {
+    const messages = id ? [this.findMessage(id)] : this.messages;
+
+    for (const message of messages) {
+      const next = DELIVERY_PROGRESSION[message.status as MessageStatus];
+      if (next) {
+        this.setStatus(
+          message.id,
+          next === MessageStatus.DELIVERED &&
+            message.to.some((to) => this.undeliverable.has(to))
+            ? MessageStatus.FAILED
+            : next
+        );
+      }
+    }
+  }
+
+  /**
+   * Set the status of a message
+   *
+   * @param id - Message ID
+   * @param status - New status
+   */
+  setStatus(id: string, status: MessageStatus): void {
+    const message = this.findMessage(id);
+    message.status = status;
+    message.updatedAt = new Date().toISOString();
+  }
+
+  /**
+   * Assert that SMS matching the given fields were sent
+   *
+   * @param match - Fields the SMS must match
+   * @param options.times - Exact number of matching SMS expected
+   * @returns The matching SMS
+   * @throws {Error} If no SMS, or not exactly `times` SMS, match
+   */
+  expectSmsSent(
+    match: SmsMatcher,
+    options: { times?: number } = {}
+  ): SentSms[] {
+    const found = this.sentSms.filter((sms) => smsMatches(sms, match));
+    const expected = options.times;
+
+    if (
+      expected === undefined ? found.length === 0 : found.length !== expected
+    ) {
+      throw new Error(
+        `Expected ${expected ?? 'at least 1'} SMS matching ${describeMatcher(match)}, found ${found.length}. Sent: ${this.describeSent()}`
+      );
+    }
+
+    return found;
+  }
+
+  /**
+   * Assert that no SMS matching the given fields, or no SMS at all, were
+   * sent
+   *
+   * @param match - Fields to match; any SMS counts when omitted
+   * @throws {Error} If a matching SMS was sent
+   */
+  expectNoSmsSent(match: SmsMatcher = {}): void {
+    const found = this.sentSms.filter((sms) => smsMatches(sms, match));
+
+    if (found.length > 0) {
+      throw new Error(
+        `Expected no SMS matching ${describeMatcher(match)}, found ${found.length}. Sent: ${this.describeSent()}`
+      );
+    }
+  }
+
+  /**
+   * Forget every message, contact, group, request, replay and pending
+   * failure, and restore the starting balance and suppression list
+   */
+  reset(): void {
+    this.remainingBalance = this.options.balance ?? DEFAULT_BALANCE;
+    this.messageStore.clear();
+    this.inboundStore.clear();
+    this.suppressionStore.clear();
+    this.seedSuppressions();
+    this.contactStore.clear();
+    this.groupStore.clear();
+    this.timeline.length = 0;
+    this.sentSms.length = 0;
+    this.received.length = 0;
+    this.failures.length = 0;
+    this.replays.clear();
+  }
+
+  /**
+   * Handle a request. Routes are matched on the end of the path, so any
+   * base path such as `/api/v1` is accepted.
+   */
+  async handle(request: MockRequest): Promise<MockResult> {
+    // Let callers observe state between requests, as with a real server
+    await Promise.resolve();
+    this.received.push(request);
+
+    const failure = this.takeFailure(request);
+    if (failure !== undefined) {
+      return failureResult(failure);
+    }
+
+    if (
+      this.options.apiToken !== undefined &&
+      request.headers.authorization !== this.options.apiToken
+    ) {
+      return errorResult(401, 'UNAUTHORIZED', 'Invalid API token');
+    }
+
+    const idempotencyKey =
+      request.headers[IDEMPOTENCY_KEY_HEADER.toLowerCase()];
+    const replayKey =
+      idempotencyKey && `${request.method} ${request.path} ${idempotencyKey}`;
+    const stored = replayKey ? this.replays.get(replayKey) : undefined;
+
+    if (stored?.type === 'response') {
+      return {
+        ...stored,
+        headers: { ...stored.headers, [IDEMPOTENT_REPLAYED_HEADER]: 'true' },
+      };
+    }
+
+    const result = this.route(request);
+
+    if (replayKey && result.type === 'response' && result.status < 400) {
+      this.replays.set(replayKey, result);
+    }
+
+    return result;
+  }
+
+  private route(request: MockRequest): MockResult {
+    const { path } = request;
+    const method = request.method as HttpMethod;
+    const messageId = /\/messages\/([^/]+)$/.exec(path)?.[1];
+    const inboundId = /\/inbound\/([^/]+)$/.exec(path)?.[1];
+    const suppressed = /\/suppressions\/([^/]+)$/.exec(path)?.[1];
+    const conversation = /\/conversations\/([^/]+)\/messages$/.exec(path)?.[1];
+    const contactId = /\/contacts\/([^/]+)$/.exec(path)?.[1];
+    const groupId = /\/groups\/([^/]+)$/.exec(path)?.[1];
+    const members = /\/groups\/([^/]+)\/contacts$/.exec(path)?.[1];
+
+    if (method === HttpMethod.POST && path.endsWith('/messages/sms/bulk')) {
+      return this.sendBulk(request.body);
+    }
+    if (method === HttpMethod.POST && path.endsWith('/messages/sms')) {
+      return this.send(request.body);
+    }
+    if (method === HttpMethod.GET && conversation !== undefined) {
+      return this.conversation(decodeURIComponent(conversation), request.query);
+    }
+    if (method === HttpMethod.GET && path.endsWith('/messages')) {
+      return this.listMessages(request.query);
+    }
+    if (method === HttpMethod.GET && path.endsWith('/inbound')) {
+      return this.listInbound(request.query);
+    }
+    if (method === HttpMethod.GET && inboundId !== undefined) {
+      const inbound = this.inboundStore.get(decodeURIComponent(inboundId));
+      return inbound
+        ? dataResult(inbound)
+        : errorResult(404, 'NOT_FOUND', `Message ${inboundId} not found`);
+    }
+    if (method === HttpMethod.GET && path.endsWith('/templates')) {
+      return dataResult(this.options.templates ?? [], { hasMore: false });
+    }
+    if (method === HttpMethod.POST && path.endsWith('/suppressions/lookup')) {
+      const { numbers } = (request.body ?? {}) as { numbers?: unknown };
+      return Array.isArray(numbers)
+        ? dataResult(
+            this.suppressions.filter((s) => numbers.includes(s.number))
+          )
+        : errorResult(400, 'INVALID_REQUEST', 'numbers must be an array');
+    }
+    if (method === HttpMethod.POST && path.endsWith('/suppressions')) {
+      return this.suppress(request.body);
+    }
+    if (method === HttpMethod.GET && path.endsWith('/suppressions')) {
+      return pageResult(
+        this.suppressions.filter(
+          (s) => !request.query.reason || s.reason === request.query.reason
+        ),
+        request.query
+      );
+    }
+    if (suppressed !== undefined) {
+      const number = decodeURIComponent(suppressed);
+      const suppression = this.suppressionStore.get(number);
+      if (!suppression) {
+        return errorResult(404, 'NOT_FOUND', `${number} is not suppressed`);
+      }
+      if (method === HttpMethod.DELETE) {
+        this.suppressionStore.delete(number);
+      }
+      return dataResult(suppression);
+    }
+    if (method === HttpMethod.GET && path.endsWith('/account/balance')) {
+      return dataResult({
+        balance: this.remainingBalance,
+        currency: this.currency,
+        updatedAt: new Date().toISOString(),
+      });
+    }
+    if (method === HttpMethod.GET && path.endsWith('/pricing')) {
+      return this.price(request.query);
+    }
+    if (method === HttpMethod.GET && path.endsWith('/usage')) {
+      return this.usage(request.query);
+    }
+    if (members !== undefined) {
+      return this.changeMembers(
+        method,
+        decodeURIComponent(members),
+        request.body
+      );
+    }
+    if (method === HttpMethod.POST && path.endsWith('/contacts/import')) {
+      return this.importContacts(request.body);
+    }
+    if (method === HttpMethod.POST && path.endsWith('/contacts')) {
+      const created = this.saveContact(request.body);
+      return 'id' in created
+        ? dataResult(created)
+        : errorResult(created.status, created.code, created.message);
+    }
+    if (method === HttpMethod.GET && path.endsWith('/contacts')) {
+      return this.listContacts(request.query);
+    }
+    if (contactId !== undefined) {
+      return this.contactRoute(
+        method,
+        decodeURIComponent(contactId),
+        request.body
+      );
+    }
+    if (method === HttpMethod.POST && path.endsWith('/groups')) {
+      return this.saveGroup(undefined, request.body);
+    }
+    if (method === HttpMethod.GET && path.endsWith('/groups')) {
+      return pageResult(this.groups, request.query);
+    }
+    if (groupId !== undefined) {
+      return this.groupRoute(method, decodeURIComponent(groupId), request.body);
+    }
+    if (messageId !== undefined) {
+      return this.messageRoute(
+        method,
+        decodeURIComponent(messageId),
+        request.body
+      );
+    }
+
+    return errorResult(404, 'NOT_FOUND', `No route for ${method} ${path}`);
+  }
+
+  private send(body: unknown): MockResult {
+    const created = this.createMessage(body);
+
+    if (!('id' in created)) {
+      return errorResult(created.status, created.code, created.message);
+    }
+
+    return dataResult({
+      ...created,
+      ...(created.to.length > 1 && {
+        recipients: created.to.map((to) => ({
+          to,
+          id: created.id,
+          status: created.status,
+        })),
+      }),
+    });
+  }
+
+  private sendBulk(body: unknown): MockResult {
+    const messages = (body as { messages?: unknown } | undefined)?.messages;
+
+    if (!Array.isArray(messages)) {
+      return errorResult(400, 'INVALID_REQUEST', 'messages must be an array');
+    }
+
+    return dataResult(
+      messages.map((item, index) => {
+        const created = this.createMessage(item);
+        return 'id' in created
+          ? { index, message: created }
+          : {
+              index,
+              error: { code: created.code, message: created.message },
+            };
+      })
+    );
+  }
+
+  private messageRoute(
+    method: HttpMethod,
+    id: string,
+    body: unknown
+  ): MockResult {
+    const message = this.messageStore.get(id);
+
+    if (!message) {
+      return errorResult(404, 'NOT_FOUND', `Message ${id} not found`);
+    }
+
+    switch (method) {
+      case HttpMethod.GET:
+        if (this.options.autoAdvance) {
+          this.advance(id);
+        }
+        return dataResult(message);
+
+      case HttpMethod.DELETE:
+        if (message.status !== MessageStatus.SCHEDULED) {
+          return errorResult(
+            409,
+            'CONFLICT',
+            'Only scheduled messages can be cancelled'
+          );
+        }
+        this.setStatus(id, MessageStatus.CANCELLED);
+        return dataResult(message);
+
+      case HttpMethod.PATCH: {
+        const { sendAt, timezone } = (body ?? {}) as SendBody;
+        if (message.status !== MessageStatus.SCHEDULED) {
+          return errorResult(
+            409,
+            'CONFLICT',
+            'Only scheduled messages can be rescheduled'
+          );
+        }
+        message.sendAt = sendAt;
+        message.timezone = timezone;
+        message.updatedAt = new Date().toISOString();
+        return dataResult(message);
+      }
+
+      default:
+        return errorResult(
+          405,
+          'METHOD_NOT_ALLOWED',
+          `${method} is not supported`
+        );
+    }
+  }
+
+  private listMessages(query: Record<string, string>): MockResult {
+    const matching = this.messages.filter(
+      (message) =>
+        (!query.status || (message.status as string) === query.status) &&
+        (!query.to || message.to.includes(query.to)) &&
+        (!query.from || message.from === query.from) &&
+        (!query.channel || (message.channel as string) === query.channel)
+    );
+
+    return pageResult(matching, query);
+  }
+
+  private listInbound(query: Record<string, string>): MockResult {
+    const matching = this.inboundMessages.filter(
+      (message) =>
+        (!query.from || message.from === query.from) &&
+        (!query.to || message.to === query.to) &&
+        (!query.receivedAfter || message.receivedAt > query.receivedAfter) &&
+        (!query.receivedBefore || message.receivedAt < query.receivedBefore)
+    );
+
+    return pageResult(matching, query);
+  }
+
+  private conversation(
+    number: string,
+    query: Record<string, string>
+  ): MockResult {
+    const messages = this.timeline.flatMap(
+      (id): (Message | InboundMessage)[] => {
+        const inbound = this.inboundStore.get(id);
+        if (inbound) {
+          return inbound.from === number ? [inbound] : [];
+        }
+        const outbound = this.messageStore.get(id);
+        return outbound?.to.includes(number) ? [outbound] : [];
+      }
+    );
+
+    return pageResult(messages, query);
+  }
+
+  private suppress(body: unknown): MockResult {
+    const { number, reason, note } = (body ?? {}) as {
+      number?: unknown;
+      reason?: SuppressionReason;
+      note?: string;
+    };
+
+    if (typeof number !== 'string' || number === '') {
+      return errorResult(400, 'INVALID_REQUEST', 'number is required');
+    }
+
+    const suppression: Suppression = {
+      number,
+      reason: reason ?? 'manual',
+      note,
+      createdAt: new Date().toISOString(),
+    };
+    this.suppressionStore.set(number, suppression);
+    return dataResult(suppression);
+  }
+
+  /**
+   * Create a contact, or update the contact with the same number when
+   * `upsert` is set, as imports do
+   */
+  private saveContact(body: unknown, upsert = false): Contact | Refusal {
+    const changes = (body ?? {}) as ContactBody;
+    const { phoneNumber, groupIds } = changes;
+
+    if (typeof phoneNumber !== 'string' || phoneNumber === '') {
+      return {
+        status: 400,
+        code: 'INVALID_REQUEST',
+        message: 'phoneNumber is required',
+      };
+    }
+
+    const unknownGroup = this.unknownGroup(groupIds);
+    if (unknownGroup !== undefined) {
+      return {
+        status: 404,
+        code: 'NOT_FOUND',
+        message: `Group ${unknownGroup} not found`,
+      };
+    }
+
+    const existing = this.contacts.find(
+      (contact) => contact.phoneNumber === phoneNumber
+    );
+    if (existing && !upsert) {
+      return {
+        status: 409,
+        code: 'CONFLICT',
+        message: `${phoneNumber} is already a contact`,
+      };
+    }
+    if (existing) {
+      return this.updateContact(existing, {
+        ...changes,
+        groupIds: [
+          ...new Set([...(existing.groupIds ?? []), ...(groupIds ?? [])]),
+        ],
+      });
+    }
+
+    const contact: Contact = {
+      id: `con_${randomUUID()}`,
+      phoneNumber,
+      name: changes.name,
+      email: changes.email,
+      fields: changes.fields ?? {},
+      groupIds: groupIds ?? [],
+      createdAt: new Date().toISOString(),
+    };
+    this.contactStore.set(contact.id, contact);
+    return contact;
+  }
+
+  private updateContact(contact: Contact, changes: ContactBody): Contact {
+    if (typeof changes.phoneNumber === 'string') {
+      contact.phoneNumber = changes.phoneNumber;
+    }
+    contact.name = changes.name ?? contact.name;
+    contact.email = changes.email ?? contact.email;
+    contact.fields = { ...contact.fields, ...changes.fields };
+    contact.groupIds = changes.groupIds ?? contact.groupIds;
+    contact.updatedAt = new Date().toISOString();
+    return contact;
+  }
+
+  private importContacts(body: unknown): MockResult {
+    const { contacts } = (body ?? {}) as { contacts?: unknown };
+
+    if (!Array.isArray(contacts)) {
+      return errorResult(400, 'INVALID_REQUEST', 'contacts must be an array');
+    }
+
+    const imported: Contact[] = [];
+    const failed: { index: number; code: string; message: string }[] = [];
+
+    contacts.forEach((item, index) => {
+      const saved = this.saveContact(item, true);
+      if ('id' in saved) {
+        imported.push(saved);
+      } else {
+        failed.push({ index, code: saved.code, message: saved.message });
+      }
+    });
+
+    return dataResult({ imported, failed });
+  }
+
+  private listContacts(query: Record<string, string>): MockResult {
+    const search = query.search?.toLowerCase();
+    const matching = this.contacts.filter(
+      (contact) =>
+        (!query.groupId || contact.groupIds?.includes(query.groupId)) &&
+        (!search ||
+          [contact.name, contact.phoneNumber, contact.email].some((value) =>
+            value?.toLowerCase().includes(search)
+          ))
+    );
+
+    return pageResult(matching, query);
+  }
+
+  private contactRoute(
+    method: HttpMethod,
+    id: string,
+    body: unknown
+  ): MockResult {
+    const contact = this.contactStore.get(id);
+
+    if (!contact) {
+      return errorResult(404, 'NOT_FOUND', `Contact ${id} not found`);
+    }
+
+    switch (method) {
+      case HttpMethod.GET:
+        return dataResult(contact);
+
+      case HttpMethod.PATCH: {
+        const changes = (body ?? {}) as ContactBody;
+        const unknownGroup = this.unknownGroup(changes.groupIds);
+        if (unknownGroup !== undefined) {
+          return errorResult(
+            404,
+            'NOT_FOUND',
+            `Group ${unknownGroup} not found`
+          );
+        }
+        return dataResult(this.updateContact(contact, changes));
+      }
+
+      case HttpMethod.DELETE:
+        this.contactStore.delete(id);
+        return dataResult(contact);
+
+      default:
+        return errorResult(
+          405,
+          'METHOD_NOT_ALLOWED',
+          `${method} is not supported`
+        );
+    }
+  }
+
+  /**
+   * Create a group, or replace the group with the given ID
+   */
+  private saveGroup(id: string | undefined, body: unknown): MockResult {
+    const { name, description } = (body ?? {}) as {
+      name?: unknown;
+      description?: string;
+    };
+
+    if (typeof name !== 'string' || name === '') {
+      return errorResult(400, 'INVALID_REQUEST', 'name is required');
+    }
+
+    const existing = id !== undefined ? this.groupStore.get(id) : undefined;
+    const group: StoredGroup = {
+      id: existing?.id ?? `grp_${randomUUID()}`,
+      name,
+      description,
+      createdAt: existing?.createdAt ?? new Date().toISOString(),
+      ...(existing && { updatedAt: new Date().toISOString() }),
+    };
+    this.groupStore.set(group.id, group);
+    return dataResult(this.withCount(group));
+  }
+
+  private groupRoute(
+    method: HttpMethod,
+    id: string,
+    body: unknown
+  ): MockResult {
+    const group = this.groupStore.get(id);
+
+    if (!group) {
+      return errorResult(404, 'NOT_FOUND', `Group ${id} not found`);
+    }
+
+    switch (method) {
+      case HttpMethod.GET:
+        return dataResult(this.withCount(group));
+
+      case HttpMethod.PUT:
+        return this.saveGroup(id, body);
+
+      case HttpMethod.DELETE:
+        this.groupStore.delete(id);
+        for (const contact of this.contactStore.values()) {
+          contact.groupIds = contact.groupIds?.filter((g) => g !== id);
+        }
+        return dataResult(this.withCount(group));
+
+      default:
+        return errorResult(
+          405,
+          'METHOD_NOT_ALLOWED',
+          `${method} is not supported`
+        );
+    }
+  }
+
+  /**
+   * Add contacts to a group with `POST`, or remove them with `DELETE`
+   */
+  private changeMembers(
+    method: HttpMethod,
+    id: string,
+    body: unknown
+  ): MockResult {
+    const group = this.groupStore.get(id);
+    const { contactIds } = (body ?? {}) as { contactIds?: unknown };
+
+    if (!group) {
+      return errorResult(404, 'NOT_FOUND', `Group ${id} not found`);
+    }
+    if (method !== HttpMethod.POST && method !== HttpMethod.DELETE) {
+      return errorResult(
+        405,
+        'METHOD_NOT_ALLOWED',
+        `${method} is not supported`
+      );
+    }
+    if (!Array.isArray(contactIds)) {
+      return errorResult(400, 'INVALID_REQUEST', 'contactIds must be an array');
+    }
+
+    const contacts: Contact[] = [];
+    for (const contactId of contactIds) {
+      const contact = this.contactStore.get(String(contactId));
+      if (!contact) {
+        return errorResult(
+          404,
+          'NOT_FOUND',
+          `Contact ${String(contactId)} not found`
+        );
+      }
+      contacts.push(contact);
+    }
+
+    for (const contact of contacts) {
+      const others = (contact.groupIds ?? []).filter((g) => g !== id);
+      contact.groupIds = method === HttpMethod.POST ? [...others, id] : others;
+    }
+    return dataResult(this.withCount(group));
+  }
+
+  private unknownGroup(groupIds: string[] = []): string | undefined {
+    return groupIds.find((groupId) => !this.groupStore.has(groupId));
+  }
+
+  private withCount(group: StoredGroup): Group {
+    return {
+      ...group,
+      contactCount: this.contacts.filter((contact) =>
+        contact.groupIds?.includes(group.id)
+      ).length,
+    };
+  }
+
+  private seedSuppressions(): void {
+    for (const number of this.options.suppressed ?? []) {
+      const normalized = normalizeNumber(number);
+      this.suppressionStore.set(normalized, {
+        number: normalized,
+        reason: 'opt_out',
+        createdAt: new Date().toISOString(),
+      });
+    }
+  }
+
+  private price(query: Record<string, string>): MockResult {
+    const pricePerSegment = this.costPerSegment;
+
+    if (query.country) {
+      return dataResult({
+        country: query.country,
+        currency: this.currency,
+        pricePerSegment,
+        carriers: [],
+      });
+    }
+
+    const parsed = safeParsePhoneNumber(query.to ?? '');
+
+    if (!parsed.success) {
+      return errorResult(
+        400,
+        'INVALID_REQUEST',
+        'country or to must be a country code or phone number'
+      );
+    }
+
+    return dataResult({
+      // ZZ is the code for an unknown region
+      country: parsed.data.country ?? 'ZZ',
+      callingCode: parsed.data.callingCode,
+      currency: this.currency,
+      pricePerSegment,
+      carrier: parsed.data.carrier,
+    });
+  }
+
+  private usage(query: Record<string, string>): MockResult {
+    const from = query.from ?? '';
+    const to = query.to ?? '';
+    const groups = new Map<
+      string,
+      { key: string; messages: number; segments: number; cost: number }
+    >();
+    const totals = { messages: 0, segments: 0, cost: 0 };
+
+    for (const sms of this.sentSms) {
+      const message = this.messageStore.get(sms.id);
+      if (!message || message.createdAt < from || message.createdAt >= to) {
+        continue;
+      }
+
+      const segments = analyzeMessage(sms.message).segments;
+      const cost = segments * this.costPerSegment;
+      totals.messages += 1;
+      totals.segments += segments;
+      totals.cost += cost;
+
+      if (query.groupBy) {
+        const key = usageGroupKey(query.groupBy, sms, message);
+        const group = groups.get(key) ?? {
+          key,
+          messages: 0,
+          segments: 0,
+          cost: 0,
+        };
+        group.messages += 1;
+        group.segments += segments;
+        group.cost += cost;
+        groups.set(key, group);
+      }
+    }
+
+    return dataResult({
+      from,
+      to,
+      currency: this.currency,
+      ...totals,
+      ...(query.groupBy && { groups: [...groups.values()] }),
+    });
+  }
+
+  private get costPerSegment(): number {
+    return this.options.costPerSegment ?? 30;
+  }
+
+  private get currency(): string {
+    return this.options.currency ?? 'UGX';
+  }
+
+  /**
+   * Store a message and record an SMS per recipient, charging it to the
+   * balance, or describe why it was refused
+   */
+  private createMessage(body: unknown): Message | Refusal {
+    const send = (body ?? {}) as SendBody;
+    const recipients = Array.isArray(send.to) ? send.to : [send.to];
+
+    if (
+      recipients.length === 0 ||
+      !recipients.every(
+        (to): to is string => typeof to === 'string' && to !== ''
+      )
+    ) {
+      return {
+        status: 400,
+        code: 'INVALID_REQUEST',
+        message: 'to must be a phone number or an array of phone numbers',
+      };
+    }
+    if (typeof send.message !== 'string' || send.message === '') {
+      return {
+        status: 400,
+        code: 'INVALID_REQUEST',
+        message: 'message is required',
+      };
+    }
+
+    const now = new Date().toISOString();
+    const template = send.message;
+    const messages = recipients.map((to) =>
+      renderTemplate(template, {
+        ...send.variables,
+        ...send.recipients?.find((recipient) => recipient.to === to)?.variables,
+      })
+    );
+    const segments = messages.reduce(
+      (total, text) => total + analyzeMessage(text).segments,
+      0
+    );
+    const cost = segments * this.costPerSegment;
+
+    if (cost > this.remainingBalance) {
+      return {
+        status: 402,
+        code: 'INSUFFICIENT_BALANCE',
+        message: `Insufficient balance: ${this.remainingBalance} ${this.currency} left, ${cost} ${this.currency} needed`,
+      };
+    }
+    this.remainingBalance -= cost;
+
+    const channel = send.channel ?? MessageChannel.SMS;
+    const message: Message = {
+      id: `msg_${randomUUID()}`,
+      sid: null,
+      direction: MessageDirection.OUTBOUND,
+      channel,
+      to: recipients,
+      from: send.from ?? 'MsGine',
+      content: messages.length === 1 ? messages[0]! : template,
+      status: send.sendAt ? MessageStatus.SCHEDULED : MessageStatus.PENDING,
+      cost,
+      currency: this.currency,
+      createdAt: now,
+      sendAt: send.sendAt,
+      timezone: send.timezone,
+      callbackUrl: send.callbackUrl,
+      ttl: send.ttl,
+      priority: send.priority,
+      clientReference: send.clientReference,
+      metadata: send.metadata,
+    };
+
+    this.messageStore.set(message.id, message);
+    this.timeline.push(message.id);
+    recipients.forEach((to, i) =>
+      this.sentSms.push({
+        id: message.id,
+        to,
+        from: message.from,
+        message: messages[i]!,
+        channel,
+        sendAt: message.sendAt,
+        clientReference: message.clientReference,
+        metadata: message.metadata,
+      })
+    );
+
+    return message;
+  }
+
+  private findMessage(id: string): Message {
+    const message = this.messageStore.get(id);
+    if (!message) {
+      throw new Error(`No message with ID ${id}`);
+    }
+    return message;
+  }
+
+  /**
+   * Take the first scripted failure matching a request
+   */
+  private takeFailure(request: MockRequest): MockFailure | undefined {
+    const index = this.failures.findIndex(
+      (pending) =>
+        (!pending.method ||
+          pending.method === (request.method as HttpMethod)) &&
+        (!pending.path || request.path.endsWith(pending.path))
+    );
+    const pending = this.failures[index];
+
+    if (!pending) {
+      return undefined;
+    }
+    if (--pending.remaining === 0) {
+      this.failures.splice(index, 1);
+    }
+    return pending.failure;
+  }
+
+  private describeSent(): string {
+    return this.sentSms.length === 0
+      ? 'none'
+      : this.sentSms.map((sms) => `${sms.to}: "${sms.message}"`).join(', ');
+  }
+}
+
+/**
+ * `HttpClient` that answers requests from a `MockMsGineApi` in memory,
+ * without retries or a network round trip. Errors are thrown as the same
+ * `MsGineError` subclasses as the real client throws.
+ *
+ * @example
+ * ```typescript
+ * const api = new MockMsGineApi();
+ * const messages = new Messages(new FakeHttpClient(api));
+ * ```
+ */
+export class FakeHttpClient implements HttpClient {
+  /**
+   * @param api - Mock API answering the requests
+   * @param apiToken - Token sent in the `Authorization` header, for a mock
+   * API created with an `apiToken`
+   */
+  constructor(
+    readonly api: MockMsGineApi = new MockMsGineApi(),
+    private readonly apiToken?: string
+  ) {}
+
+  async request<TResponse, TBody = unknown>(
+    options: RequestOptions<TBody>
+  ): Promise<TResponse> {
+    if (options.signal?.aborted) {
+      throw cancellationError(options.signal);
+    }
+
+    const query: Record<string, string> = {};
+    for (const [key, value] of Object.entries(options.queryParams ?? {})) {
+      query[key] = String(value);
+    }
+    const headers: Record<string, string> = {};
+    if (this.apiToken !== undefined) {
+      headers.authorization = this.apiToken;
+    }
+    for (const [name, value] of Object.entries(options.headers ?? {})) {
+      headers[name.toLowerCase()] = value;
+    }
+
+    const result = await this.api.handle({
+      method: options.method,
+      path: options.path,
+      query,
+      headers,
+      // Serialise like a real request, turning dates into strings
+      body:
+        options.body === undefined
+          ? undefined
+          : parseJson(JSON.stringify(options.body)),
+    });
+
+    if (result.type === 'timeout') {
+      throw new MsGineTimeoutError('Request timeout', 408, 'REQUEST_TIMEOUT');
+    }
+    if (result.type === 'network') {
+      throw new MsGineNetworkError(
+        'Network error: fetch failed',
+        0,
+        'NETWORK_ERROR'
+      );
+    }
+
+    const body = parseJson(JSON.stringify(result.body));
+    const requestId = result.headers['x-request-id'];
+
+    if (result.status >= 400) {
+      const { error } = body as { error: { code: string; message: string } };
+      const retryAfter = Number(result.headers['retry-after']);
+      throw createMsGineError(
+        error.message,
+        result.status,
+        error.code,
+        undefined,
+        requestId,
+        {
+          retryAfter: Number.isFinite(retryAfter)
+            ? retryAfter * 1000
+            : undefined,
+        }
+      );
+    }
+
+    return attachResponseMeta(body, {
+      status: result.status,
+      headers: new Headers(result.headers),
+      requestId,
+    }) as TResponse;
+  }
+}
+
+/**
+ * Build a successful response wrapped in the `{ data, meta }` envelope
+ */
+function dataResult(
+  data: unknown,
+  meta: Record<string, unknown> = {}
+): MockResult {
+  const requestId = `req_${randomUUID()}`;
+  return {
+    type: 'response',
+    status: 200,
+    headers: { 'content-type': 'application/json', 'x-request-id': requestId },
+    body: {
+      data,
+      meta: { requestId, timestamp: new Date().toISOString(), ...meta },
+    },
+  };
+}
+
+/**
+ * Build a page of a list endpoint, using the offset as the cursor
+ */
+function pageResult(items: unknown[], query: Record<string, string>) {
+  const limit = Number(query.limit ?? DEFAULT_PAGE_SIZE);
+  const start = Number(query.cursor ?? 0);
+  const end = start + limit;
+
+  return dataResult(items.slice(start, end), {
+    hasMore: end < items.length,
+    nextCursor: end < items.length ? String(end) : null,
+    total: items.length,
+  });
+}
+
+/**
+ * Build an error response in the API's error format
+ */
+function errorResult(
+  status: number,
+  code: string,
+  message: string,
+  headers: Record<string, string> = {}
+): MockResult {
+  const requestId = `req_${randomUUID()}`;
+  return {
+    type: 'response',
+    status,
+    headers: {
+      'content-type': 'application/json',
+      'x-request-id': requestId,
+      ...headers,
+    },
+    body: {
+      error: { code, message },
+      meta: { requestId, timestamp: new Date().toISOString() },
+    },
+  };
+}
+
+/**
+ * Turn a scripted failure into the result returned for the request
+ */
+function failureResult(failure: MockFailure): MockResult {
+  if (failure === 'timeout' || failure === 'network') {
+    return { type: failure };
+  }
+
+  const { status, code, message, retryAfter } =
+    typeof failure === 'number' ? { status: failure } : failure;
+
+  return errorResult(
+    status,
+    code ?? FAILURE_CODES[status] ?? 'ERROR',
+    message ?? `Simulated ${status} response`,
+    retryAfter === undefined ? {} : { 'retry-after': String(retryAfter) }
+  );
+}
+
+/**
+ * Key of the usage group an SMS falls in
+ */
+function usageGroupKey(
+  groupBy: string,
+  sms: SentSms,
+  message: Message
+): string {
+  switch (groupBy) {
+    case 'day':
+      return message.createdAt.slice(0, 10);
+    case 'month':
+      return message.createdAt.slice(0, 7);
+    case 'week': {
+      // Weeks start on Monday
+      const date = new Date(message.createdAt.slice(0, 10));
+      date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+      return date.toISOString().slice(0, 10);
+    }
+    case 'country': {
+      const parsed = safeParsePhoneNumber(sms.to);
+      return (parsed.success ? parsed.data.country : undefined) ?? 'unknown';
+    }
+    default:
+      return sms.channel;
+  }
+}
+
+function smsMatches(sms: SentSms, match: SmsMatcher): boolean {
+  return (
+    (match.to === undefined || sms.to === normalizeNumber(match.to)) &&
+    (match.from === undefined || sms.from === match.from) &&
+    (match.channel === undefined || sms.channel === match.channel) &&
+    (match.clientReference === undefined ||
+      sms.clientReference === match.clientReference) &&
+    (match.message === undefined ||
+      (typeof match.message === 'string'
+        ? sms.message === match.message
+        : match.message.test(sms.message)))
+  );
+}
+
+function normalizeNumber(number: string): string {
+  const parsed = safeParsePhoneNumber(number);
+  return parsed.success ? parsed.data.e164 : number;
+}
+
+function describeMatcher(match: SmsMatcher): string {
+  const fields = Object.entries(match).map(
+    ([key, value]) =>
+      `${key}: ${value instanceof RegExp ? String(value) : JSON.stringify(value)}`
+  );
+  return fields.length === 0 ? 'anything' : `{ ${fields.join(', ')} }`;
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,166 @@
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo, Socket } from 'net';
+import { MockApiOptions, MockMsGineApi } from './mock-api';
+
+/**
+ * Options for starting a mock server
+ */
+export interface MockServerOptions extends MockApiOptions {
+  /**
+   * Mock API serving the requests. Created from the other options when
+   * omitted.
+   */
+  api?: MockMsGineApi;
+
+  /**
+   * Port to listen on; a free port is chosen when omitted
+   */
+  port?: number;
+}
+
+/**
+ * A running mock server
+ */
+export interface MockServer {
+  /**
+   * Base URL to pass as the client's `baseUrl`
+   */
+  url: string;
+
+  /**
+   * Mock API behind the server, for scripting failures and assertions
+   */
+  api: MockMsGineApi;
+
+  /**
+   * Stop the server, dropping open connections
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * Start a local HTTP server that mimics the MsGine API, for tests that
+ * exercise the real network stack or run the SDK in another process
+ *
+ * @param options - Server and mock API options
+ * @returns Promise resolving once the server is listening
+ *
+ * @example
+ * ```typescript
+ * const server = await createMockServer();
+ * const client = new MsGineClient({ apiToken: 'test', baseUrl: server.url });
+ *
+ * await client.sendSms({ to: '+256701521269', message: 'Hello' });
+ * server.api.expectSmsSent({ to: '+256701521269' });
+ *
+ * await server.close();
+ * ```
+ */
+export async function createMockServer(
+  options: MockServerOptions = {}
+): Promise<MockServer> {
+  const { api = new MockMsGineApi(options), port = 0 } = options;
+  const sockets = new Set<Socket>();
+
+  const server = createServer((request, response) => {
+    serve(api, request, response).catch((error: unknown) =>
+      fail(response, error)
+    );
+  });
+
+  server.on('connection', (socket) => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, '127.0.0.1', () => resolve());
+  });
+
+  const address = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${address.port}/api/v1`,
+    api,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        // Requests held open by a scripted timeout would keep the server up
+        for (const socket of sockets) {
+          socket.destroy();
+        }
+        server.close((error) => (error ? reject(error) : resolve()));
+      }),
+  };
+}
+
+/**
+ * Answer a request that the mock API could not handle with a 500, or drop
+ * the connection if the response has already started
+ */
+function fail(response: ServerResponse, error: unknown): void {
+  if (response.headersSent) {
+    response.destroy();
+    return;
+  }
+
+  response.writeHead(500, { 'content-type': 'application/json' });
+  response.end(
+    JSON.stringify({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: error instanceof Error ? error.message : String(error),
+      },
+    })
+  );
+}
+
+/**
+ * Answer a request from the mock API
+ */
+async function serve(
+  api: MockMsGineApi,
+  request: IncomingMessage,
+  response: ServerResponse
+): Promise<void> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer);
+  }
+
+  const url = new URL(request.url ?? '/', 'http://127.0.0.1');
+  const text = Buffer.concat(chunks).toString('utf8');
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(request.headers)) {
+    if (value !== undefined) {
+      headers[name] = Array.isArray(value) ? value.join(', ') : value;
+    }
+  }
+
+  let body: unknown;
+  try {
+    body = text ? (JSON.parse(text) as unknown) : undefined;
+  } catch {
+    body = undefined;
+  }
+
+  const result = await api.handle({
+    method: request.method ?? 'GET',
+    path: url.pathname,
+    query: Object.fromEntries(url.searchParams),
+    headers,
+    body,
+  });
+
+  switch (result.type) {
+    case 'timeout':
+      // Never answer; the client gives up after its timeout
+      return;
+    case 'network':
+      request.socket.destroy();
+      return;
+    default:
+      response.writeHead(result.status, result.headers);
+      response.end(JSON.stringify(result.body));
+  }
+}
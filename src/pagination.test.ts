@@ -0,0 +1,93 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  MsGineCancelledError,
+  Page,
+  PaginationParams,
+  Paginator,
+} from '../src';
+
+describe('Paginator', () => {
+  const cursorPages: Record<string, Page<number>> = {
+    start: { data: [1, 2], meta: { nextCursor: 'c2' } },
+    c2: { data: [3, 4], meta: { nextCursor: 'c3' } },
+    c3: { data: [5], meta: { nextCursor: null } },
+  };
+
+  const fetchCursorPage = vi.fn((params: PaginationParams) =>
+    Promise.resolve(cursorPages[params.cursor ?? 'start']!)
+  );
+
+  it('should follow cursors until exhausted', async () => {
+    fetchCursorPage.mockClear();
+    const items: number[] = [];
+
+    for await (const item of new Paginator(fetchCursorPage, { limit: 2 })) {
+      items.push(item);
+    }
+
+    expect(items).toEqual([1, 2, 3, 4, 5]);
+    expect(fetchCursorPage).toHaveBeenCalledTimes(3);
+    expect(fetchCursorPage.mock.calls[1]?.[0]).toEqual({
+      limit: 2,
+      cursor: 'c2',
+    });
+  });
+
+  it('should follow page numbers until the last page', async () => {
+    const fetchPage = vi.fn((params: PaginationParams) => {
+      const page = params.page ?? 1;
+      return Promise.resolve({
+        data: [page * 10],
+        meta: { page, totalPages: 3 },
+      });
+    });
+
+    const pages: Page<number>[] = [];
+    for await (const page of new Paginator(fetchPage).pages()) {
+      pages.push(page);
+    }
+
+    expect(pages.map((page) => page.data)).toEqual([[10], [20], [30]]);
+    expect(fetchPage).toHaveBeenCalledTimes(3);
+  });
+
+  it('should stop at an empty page', async () => {
+    const fetchPage = vi
+      .fn<[PaginationParams], Promise<Page<number>>>()
+      .mockResolvedValueOnce({ data: [1], meta: { page: 1 } })
+      .mockResolvedValueOnce({ data: [], meta: { page: 2 } });
+
+    await expect(new Paginator(fetchPage).toArray()).resolves.toEqual([1]);
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+  });
+
+  it('should only fetch as many pages as needed for a limit', async () => {
+    fetchCursorPage.mockClear();
+
+    const items = await new Paginator(fetchCursorPage).toArray({ limit: 3 });
+
+    expect(items).toEqual([1, 2, 3]);
+    expect(fetchCursorPage).toHaveBeenCalledTimes(2);
+  });
+
+  it('should stop when the signal is aborted', async () => {
+    fetchCursorPage.mockClear();
+    const controller = new AbortController();
+    const paginator = new Paginator(
+      fetchCursorPage,
+      {},
+      { signal: controller.signal }
+    );
+
+    const items: number[] = [];
+    await expect(async () => {
+      for await (const item of paginator) {
+        items.push(item);
+        controller.abort();
+      }
+    }).rejects.toThrow(MsGineCancelledError);
+
+    expect(items).toEqual([1, 2]);
+    expect(fetchCursorPage).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,123 @@
+import { cancellationError } from './http-client';
+import { PaginationMeta, PaginationParams } from './types';
+
+/**
+ * A single page of results from a list endpoint
+ */
+export interface Page<T> {
+  data: T[];
+  meta?: PaginationMeta;
+}
+
+/**
+ * Fetches one page of results for the given pagination parameters
+ */
+export type PageFetcher<T> = (params: PaginationParams) => Promise<Page<T>>;
+
+/**
+ * Options for iterating over a paginated list
+ */
+export interface PaginatorOptions {
+  /**
+   * Signal that stops iteration before the next page is fetched, with an
+   * `MsGineCancelledError`
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Lazily walks a paginated list endpoint, following `nextCursor` or page
+ * numbers until the server reports no more results
+ *
+ * @example
+ * ```typescript
+ * for await (const message of client.messages.list({ status: 'failed' })) {
+ *   console.log(message.id);
+ * }
+ *
+ * const recent = await client.messages.list().toArray({ limit: 100 });
+ * ```
+ */
+export class Paginator<T> implements AsyncIterable<T> {
+  constructor(
+    private readonly fetchPage: PageFetcher<T>,
+    private readonly initialParams: PaginationParams = {},
+    private readonly options: PaginatorOptions = {}
+  ) {}
+
+  /**
+   * Iterate over every item across all pages
+   */
+  async *[Symbol.asyncIterator](): AsyncIterator<T> {
+    for await (const page of this.pages()) {
+      yield* page.data;
+    }
+  }
+
+  /**
+   * Iterate over whole pages, including their pagination metadata
+   */
+  async *pages(): AsyncGenerator<Page<T>, void, undefined> {
+    let params: PaginationParams | null = this.initialParams;
+
+    while (params) {
+      const { signal } = this.options;
+      if (signal?.aborted) {
+        throw cancellationError(signal);
+      }
+
+      const page = await this.fetchPage(params);
+      yield page;
+
+      params = page.data.length > 0 ? nextPageParams(params, page.meta) : null;
+    }
+  }
+
+  /**
+   * Collect items into an array
+   *
+   * @param options.limit - Stop after collecting this many items
+   */
+  async toArray(options: { limit?: number } = {}): Promise<T[]> {
+    const items: T[] = [];
+
+    if (options.limit !== undefined && options.limit <= 0) {
+      return items;
+    }
+
+    for await (const item of this) {
+      items.push(item);
+      if (options.limit !== undefined && items.length >= options.limit) {
+        break;
+      }
+    }
+
+    return items;
+  }
+}
+
+/**
+ * Work out the parameters for the page after the current one, or `null`
+ * if the current page is the last
+ */
+function nextPageParams(
+  current: PaginationParams,
+  meta?: PaginationMeta
+): PaginationParams | null {
+  if (!meta || meta.hasMore === false) {
+    return null;
+  }
+
+  if (meta.nextCursor) {
+    return { limit: current.limit, cursor: meta.nextCursor };
+  }
+
+  if (meta.page !== undefined) {
+    if (meta.totalPages !== undefined && meta.page >= meta.totalPages) {
+      return null;
+    }
+    return { limit: current.limit, page: meta.page + 1 };
+  }
+
+  return null;
+}
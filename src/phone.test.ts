@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { PhoneNumberSchema, safeParsePhoneNumber } from '../src';
+
+describe('safeParsePhoneNumber', () => {
+  it('should normalise international formats to E.164', () => {
+    for (const input of [
+      '+256701521269',
+      '+256 701 521 269',
+      '00256701521269',
+      '+256 (701) 521-269',
+    ]) {
+      const result = safeParsePhoneNumber(input);
+      expect(result.success && result.data.e164).toBe('+256701521269');
+    }
+  });
+
+  it('should parse national formats with a default country', () => {
+    const result = safeParsePhoneNumber('0701 521 269', {
+      defaultCountry: 'UG',
+    });
+
+    expect(result).toEqual({
+      success: true,
+      data: {
+        e164: '+256701521269',
+        callingCode: '256',
+        nationalNumber: '701521269',
+        country: 'UG',
+        carrier: 'Airtel',
+        carrierPrefix: '70',
+      },
+    });
+
+    const withoutPlus = safeParsePhoneNumber('256771234567', {
+      defaultCountry: 'UG',
+    });
+    expect(withoutPlus.success && withoutPlus.data.carrier).toBe('MTN');
+  });
+
+  it('should tell countries sharing a calling code apart by area code', () => {
+    const country = (input: string, options = {}) => {
+      const result = safeParsePhoneNumber(input, options);
+      return result.success ? result.data.country : 'invalid';
+    };
+
+    expect(country('+14165550123')).toBe('CA');
+    expect(country('+12125550123', { defaultCountry: 'CA' })).toBe('US');
+    expect(country('(416) 555-0123', { defaultCountry: 'US' })).toBe('CA');
+    expect(country('+18765550123')).toBeUndefined();
+  });
+
+  it('should accept calling codes without bundled metadata', () => {
+    const result = safeParsePhoneNumber('+33612345678');
+
+    expect(result).toEqual({
+      success: true,
+      data: {
+        e164: '+33612345678',
+        callingCode: '33',
+        nationalNumber: '612345678',
+      },
+    });
+  });
+
+  it.each([
+    ['hello', {}, 'INVALID_CHARACTERS'],
+    ['0701 521 269', {}, 'MISSING_COUNTRY'],
+    ['+999123456789', {}, 'UNKNOWN_CALLING_CODE'],
+    ['+25670152126', {}, 'TOO_SHORT'],
+    ['07015212699', { defaultCountry: 'UG' }, 'TOO_LONG'],
+    ['+256901521269', {}, 'INVALID_NUMBER'],
+  ] as const)('should reject %s with %s', (input, options, reason) => {
+    const result = safeParsePhoneNumber(input, options);
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.error.issues[0]).toMatchObject({
+      code: 'custom',
+      params: { reason },
+    });
+  });
+});
+
+describe('PhoneNumberSchema', () => {
+  it('should transform valid numbers to E.164', () => {
+    expect(PhoneNumberSchema.parse('+256-701-521-269')).toBe('+256701521269');
+  });
+
+  it('should report precise issues', () => {
+    const result = PhoneNumberSchema.safeParse('+256 70');
+
+    expect(!result.success && result.error.issues[0]?.message).toBe(
+      'Phone number is too short for UG (+256)'
+    );
+  });
+});
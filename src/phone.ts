@@ -0,0 +1,591 @@
+import { z } from 'zod';
+
+/**
+ * Numbering plan metadata for a country
+ */
+interface CountryMetadata {
+  /**
+   * Country calling code, without the leading `+`
+   */
+  callingCode: string;
+
+  /**
+   * National trunk prefix dialled before local numbers
+   */
+  trunkPrefix?: string;
+
+  /**
+   * Allowed lengths of the national significant number
+   */
+  lengths: number[];
+
+  /**
+   * Pattern every national significant number must match
+   */
+  pattern?: RegExp;
+
+  /**
+   * Mobile network operators by national number prefix. Numbers may have
+   * been ported, so this reflects the original allocation.
+   */
+  carriers?: Record<string, string[]>;
+
+  /**
+   * Area codes, the first three digits of the national number, that tell
+   * the country apart from the others sharing its calling code. The country
+   * sharing a calling code without area codes gets the remaining numbers.
+   */
+  areaCodes?: string[];
+}
+
+/**
+ * Bundled numbering plan metadata
+ */
+const COUNTRY_METADATA = {
+  UG: {
+    callingCode: '256',
+    trunkPrefix: '0',
+    lengths: [9],
+    pattern: /^[2-7]/,
+    carriers: {
+      MTN: ['76', '77', '78', '39', '31'],
+      Airtel: ['70', '74', '75', '20'],
+      'Uganda Telecom': ['71'],
+    },
+  },
+  KE: {
+    callingCode: '254',
+    trunkPrefix: '0',
+    lengths: [9],
+    pattern: /^[1-9]/,
+    carriers: {
+      Safaricom: ['70', '71', '72', '74', '79', '11'],
+      Airtel: ['73', '75', '78', '10'],
+      Telkom: ['77'],
+    },
+  },
+  TZ: {
+    callingCode: '255',
+    trunkPrefix: '0',
+    lengths: [9],
+    pattern: /^[2-8]/,
+    carriers: {
+      Vodacom: ['74', '75', '76'],
+      Airtel: ['68', '69', '78'],
+      Tigo: ['65', '67', '71'],
+      Halotel: ['61', '62'],
+      Zantel: ['77'],
+      TTCL: ['73'],
+    },
+  },
+  RW: {
+    callingCode: '250',
+    trunkPrefix: '0',
+    lengths: [9],
+    pattern: /^[27]/,
+    carriers: {
+      MTN: ['78', '79'],
+      Airtel: ['72', '73'],
+    },
+  },
+  BI: { callingCode: '257', lengths: [8], pattern: /^[2-7]/ },
+  SS: {
+    callingCode: '211',
+    trunkPrefix: '0',
+    lengths: [9],
+    pattern: /^[19]/,
+  },
+  CD: {
+    callingCode: '243',
+    trunkPrefix: '0',
+    lengths: [9],
+    pattern: /^[1-9]/,
+  },
+  ET: {
+    callingCode: '251',
+    trunkPrefix: '0',
+    lengths: [9],
+    pattern: /^[1-9]/,
+  },
+  NG: {
+    callingCode: '234',
+    trunkPrefix: '0',
+    lengths: [8, 10],
+    pattern: /^[1-9]/,
+  },
+  GH: {
+    callingCode: '233',
+    trunkPrefix: '0',
+    lengths: [9],
+    pattern: /^[235]/,
+    carriers: {
+      MTN: ['24', '25', '53', '54', '55', '59'],
+      Telecel: ['20', '50'],
+      AirtelTigo: ['26', '27', '56', '57'],
+    },
+  },
+  ZA: {
+    callingCode: '27',
+    trunkPrefix: '0',
+    lengths: [9],
+    pattern: /^[1-8]/,
+  },
+  ZM: {
+    callingCode: '260',
+    trunkPrefix: '0',
+    lengths: [9],
+    pattern: /^[2-9]/,
+  },
+  ZW: {
+    callingCode: '263',
+    trunkPrefix: '0',
+    lengths: [9],
+    pattern: /^[1-9]/,
+  },
+  MW: {
+    callingCode: '265',
+    trunkPrefix: '0',
+    lengths: [9],
+    pattern: /^[1-9]/,
+  },
+  EG: {
+    callingCode: '20',
+    trunkPrefix: '0',
+    lengths: [9, 10],
+    pattern: /^[1-9]/,
+  },
+  AE: {
+    callingCode: '971',
+    trunkPrefix: '0',
+    lengths: [8, 9],
+    pattern: /^[2-9]/,
+  },
+  IN: {
+    callingCode: '91',
+    trunkPrefix: '0',
+    lengths: [10],
+    pattern: /^[1-9]/,
+  },
+  GB: {
+    callingCode: '44',
+    trunkPrefix: '0',
+    lengths: [9, 10],
+    pattern: /^[1-9]/,
+  },
+  US: {
+    callingCode: '1',
+    trunkPrefix: '1',
+    lengths: [10],
+    pattern: /^[2-9]\d{2}[2-9]/,
+  },
+  CA: {
+    callingCode: '1',
+    trunkPrefix: '1',
+    lengths: [10],
+    pattern: /^[2-9]\d{2}[2-9]/,
+    areaCodes: (
+      '204 226 236 249 250 257 263 289 306 343 354 365 367 368 382 387 403 ' +
+      '416 418 428 431 437 438 450 460 468 474 506 514 519 548 579 581 584 ' +
+      '587 600 604 613 622 639 647 672 683 705 709 742 753 778 780 782 807 ' +
+      '819 825 867 873 879 902 905 942'
+    ).split(' '),
+  },
+} satisfies Record<string, CountryMetadata>;
+
+/**
+ * ISO 3166-1 alpha-2 codes of countries with bundled numbering plan
+ * metadata
+ */
+export type CountryCode = keyof typeof COUNTRY_METADATA;
+
+/**
+ * Assigned country calling codes without bundled metadata, validated only
+ * against the overall E.164 length
+ */
+const OTHER_CALLING_CODES = new Set(
+  (
+    '7 30 31 32 33 34 36 39 40 41 43 45 46 47 48 49 51 52 53 54 55 56 57 58 ' +
+    '60 61 62 63 64 65 66 81 82 84 86 90 92 93 94 95 98 212 213 216 218 ' +
+    '220 221 222 223 224 225 226 227 228 229 230 231 232 233 234 235 236 ' +
+    '237 238 239 240 241 242 244 245 246 247 248 249 252 253 258 261 262 ' +
+    '264 266 267 268 269 290 291 297 298 299 350 351 352 353 354 355 356 ' +
+    '357 358 359 370 371 372 373 374 375 376 377 378 380 381 382 383 385 ' +
+    '386 387 389 420 421 423 500 501 502 503 504 505 506 507 508 509 590 ' +
+    '591 592 593 594 595 596 597 598 599 670 672 673 674 675 676 677 678 ' +
+    '679 680 681 682 683 685 686 687 688 689 690 691 692 850 852 853 855 ' +
+    '856 880 886 960 961 962 963 964 965 966 967 968 970 972 973 974 975 ' +
+    '976 977 992 993 994 995 996 998'
+  ).split(' ')
+);
+
+/**
+ * Area codes of the North American Numbering Plan members without bundled
+ * metadata, such as Jamaica, Puerto Rico and Bermuda. Numbers in them share
+ * the `+1` calling code with the United States and Canada but belong to
+ * neither.
+ */
+const OTHER_NANP_AREA_CODES = new Set(
+  (
+    '242 246 264 268 284 340 345 441 473 649 658 664 670 671 684 721 758 ' +
+    '767 784 787 809 829 849 868 869 876 939'
+  ).split(' ')
+);
+
+/**
+ * Maximum number of digits in an E.164 number, including the calling code
+ */
+const MAX_E164_DIGITS = 15;
+
+/**
+ * Minimum length of a national number without bundled metadata
+ */
+const MIN_NATIONAL_NUMBER_LENGTH = 4;
+
+/**
+ * Reason a phone number was rejected
+ */
+export type PhoneNumberErrorReason =
+  | 'INVALID_CHARACTERS'
+  | 'MISSING_COUNTRY'
+  | 'UNKNOWN_CALLING_CODE'
+  | 'TOO_SHORT'
+  | 'TOO_LONG'
+  | 'INVALID_NUMBER';
+
+/**
+ * A phone number parsed and normalised to E.164
+ */
+export interface ParsedPhoneNumber {
+  /**
+   * Number in E.164 format, e.g. `+256701521269`
+   */
+  e164: string;
+
+  /**
+   * Country calling code, e.g. `256`
+   */
+  callingCode: string;
+
+  /**
+   * National significant number, e.g. `701521269`
+   */
+  nationalNumber: string;
+
+  /**
+   * Country the number belongs to, when bundled metadata covers it. `+1`
+   * numbers are told apart by area code, and have no country outside the
+   * United States and Canada.
+   */
+  country?: CountryCode;
+
+  /**
+   * Mobile network operator the number prefix was allocated to
+   */
+  carrier?: string;
+
+  /**
+   * National number prefix that identified the carrier, e.g. `70`
+   */
+  carrierPrefix?: string;
+}
+
+/**
+ * Options for parsing phone numbers
+ */
+export interface PhoneNumberOptions {
+  /**
+   * Country used to interpret numbers written in national format, such as
+   * `0701 521 269`. Without it, numbers must include a country calling code.
+   */
+  defaultCountry?: CountryCode;
+}
+
+/**
+ * Result of parsing a phone number
+ */
+export type PhoneNumberParseResult =
+  | { success: true; data: ParsedPhoneNumber }
+  | { success: false; error: z.ZodError };
+
+/**
+ * Problem found while parsing a phone number
+ */
+interface PhoneNumberIssue {
+  reason: PhoneNumberErrorReason;
+  message: string;
+}
+
+/**
+ * Parse a phone number written in international or national format
+ *
+ * @param input - Phone number, e.g. `+256 701 521269`, `00256701521269` or
+ * `0701-521-269` with `defaultCountry: 'UG'`
+ * @param options - Parsing options
+ * @returns The parsed number, or a ZodError describing why it is invalid
+ *
+ * @example
+ * ```typescript
+ * const result = safeParsePhoneNumber('0701 521 269', { defaultCountry: 'UG' });
+ *
+ * if (result.success) {
+ *   console.log(result.data.e164); // '+256701521269'
+ *   console.log(result.data.carrier); // 'Airtel'
+ * }
+ * ```
+ */
+export function safeParsePhoneNumber(
+  input: string,
+  options: PhoneNumberOptions = {}
+): PhoneNumberParseResult {
+  const result = analyzePhoneNumber(input, options.defaultCountry);
+
+  if ('reason' in result) {
+    return {
+      success: false,
+      error: new z.ZodError([
+        {
+          code: z.ZodIssueCode.custom,
+          path: [],
+          message: result.message,
+          params: { reason: result.reason },
+        },
+      ]),
+    };
+  }
+
+  return { success: true, data: result };
+}
+
+/**
+ * Create a zod schema that validates a phone number and normalises it to
+ * E.164
+ *
+ * Rejected numbers produce a custom issue whose `params.reason` is a
+ * {@link PhoneNumberErrorReason}.
+ *
+ * @param options - Parsing options
+ */
+export function createPhoneNumberSchema(options: PhoneNumberOptions = {}) {
+  return z
+    .string()
+    .min(1, 'Phone number is required')
+    .transform((value, ctx) => {
+      const result = analyzePhoneNumber(value, options.defaultCountry);
+
+      if ('reason' in result) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: result.message,
+          params: { reason: result.reason },
+        });
+        return z.NEVER;
+      }
+
+      return result.e164;
+    });
+}
+
+/**
+ * Phone number schema accepting international format only
+ */
+export const PhoneNumberSchema = createPhoneNumberSchema();
+
+/**
+ * Parse a phone number, returning the parsed number or the issue found
+ */
+function analyzePhoneNumber(
+  input: string,
+  defaultCountry?: CountryCode
+): ParsedPhoneNumber | PhoneNumberIssue {
+  // Drop common formatting characters
+  const cleaned = input.trim().replace(/[\s\-.()]/g, '');
+
+  if (!/^\+?\d+$/.test(cleaned)) {
+    return {
+      reason: 'INVALID_CHARACTERS',
+      message: 'Phone number may only contain digits and a leading +',
+    };
+  }
+
+  let international: string | undefined;
+  if (cleaned.startsWith('+')) {
+    international = cleaned.slice(1);
+  } else if (cleaned.startsWith('00')) {
+    international = cleaned.slice(2);
+  }
+
+  if (international !== undefined) {
+    return analyzeInternational(international, defaultCountry);
+  }
+
+  if (!defaultCountry) {
+    return {
+      reason: 'MISSING_COUNTRY',
+      message:
+        'Phone number must be in international format (e.g. +256701521269) when no default country is set',
+    };
+  }
+
+  const metadata: CountryMetadata = COUNTRY_METADATA[defaultCountry];
+
+  // Numbers already including the calling code but missing the `+`
+  if (
+    cleaned.startsWith(metadata.callingCode) &&
+    metadata.lengths.includes(cleaned.length - metadata.callingCode.length)
+  ) {
+    return analyzeNational(
+      cleaned.slice(metadata.callingCode.length),
+      defaultCountry
+    );
+  }
+
+  const national =
+    metadata.trunkPrefix && cleaned.startsWith(metadata.trunkPrefix)
+      ? cleaned.slice(metadata.trunkPrefix.length)
+      : cleaned;
+
+  return analyzeNational(national, defaultCountry);
+}
+
+/**
+ * Parse the digits of an international number, after the `+` or `00`
+ */
+function analyzeInternational(
+  digits: string,
+  defaultCountry?: CountryCode
+): ParsedPhoneNumber | PhoneNumberIssue {
+  if (digits.length > MAX_E164_DIGITS) {
+    return {
+      reason: 'TOO_LONG',
+      message: `Phone number cannot have more than ${MAX_E164_DIGITS} digits`,
+    };
+  }
+
+  for (const length of [1, 2, 3]) {
+    const callingCode = digits.slice(0, length);
+    const countries = countriesForCallingCode(callingCode);
+
+    if (countries.length > 0) {
+      // Validate against the default country when several share a calling
+      // code; the number's own country is then found by its area code
+      const country =
+        defaultCountry && countries.includes(defaultCountry)
+          ? defaultCountry
+          : countries[0]!;
+      return analyzeNational(digits.slice(length), country);
+    }
+
+    if (OTHER_CALLING_CODES.has(callingCode)) {
+      const nationalNumber = digits.slice(length);
+      if (nationalNumber.length < MIN_NATIONAL_NUMBER_LENGTH) {
+        return {
+          reason: 'TOO_SHORT',
+          message: `Phone number is too short for country calling code +${callingCode}`,
+        };
+      }
+      return { e164: `+${digits}`, callingCode, nationalNumber };
+    }
+  }
+
+  return {
+    reason: 'UNKNOWN_CALLING_CODE',
+    message: 'Phone number does not start with a valid country calling code',
+  };
+}
+
+/**
+ * Validate a national significant number against its country's metadata
+ */
+function analyzeNational(
+  nationalNumber: string,
+  country: CountryCode
+): ParsedPhoneNumber | PhoneNumberIssue {
+  const metadata: CountryMetadata = COUNTRY_METADATA[country];
+  const minLength = Math.min(...metadata.lengths);
+  const maxLength = Math.max(...metadata.lengths);
+
+  if (nationalNumber.length < minLength) {
+    return {
+      reason: 'TOO_SHORT',
+      message: `Phone number is too short for ${country} (+${metadata.callingCode})`,
+    };
+  }
+
+  if (nationalNumber.length > maxLength) {
+    return {
+      reason: 'TOO_LONG',
+      message: `Phone number is too long for ${country} (+${metadata.callingCode})`,
+    };
+  }
+
+  if (
+    !metadata.lengths.includes(nationalNumber.length) ||
+    (metadata.pattern && !metadata.pattern.test(nationalNumber))
+  ) {
+    return {
+      reason: 'INVALID_NUMBER',
+      message: `Phone number is not a valid ${country} (+${metadata.callingCode}) number`,
+    };
+  }
+
+  const parsed: ParsedPhoneNumber = {
+    e164: `+${metadata.callingCode}${nationalNumber}`,
+    callingCode: metadata.callingCode,
+    nationalNumber,
+  };
+
+  const numberCountry = countryForNumber(country, nationalNumber);
+  if (numberCountry) {
+    parsed.country = numberCountry;
+  }
+
+  for (const [carrier, prefixes] of Object.entries(metadata.carriers ?? {})) {
+    const prefix = prefixes.find((p) => nationalNumber.startsWith(p));
+    if (prefix) {
+      parsed.carrier = carrier;
+      parsed.carrierPrefix = prefix;
+      break;
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Countries with bundled metadata for a calling code
+ */
+function countriesForCallingCode(callingCode: string): CountryCode[] {
+  return (Object.keys(COUNTRY_METADATA) as CountryCode[]).filter(
+    (country) => COUNTRY_METADATA[country].callingCode === callingCode
+  );
+}
+
+/**
+ * Country a valid national number belongs to, telling apart the countries
+ * that share its calling code by area code
+ */
+function countryForNumber(
+  country: CountryCode,
+  nationalNumber: string
+): CountryCode | undefined {
+  const countries = countriesForCallingCode(
+    COUNTRY_METADATA[country].callingCode
+  );
+
+  if (countries.length === 1) {
+    return country;
+  }
+
+  const areaCode = nationalNumber.slice(0, 3);
+  if (OTHER_NANP_AREA_CODES.has(areaCode)) {
+    return undefined;
+  }
+
+  const areaCodesOf = (code: CountryCode): string[] | undefined =>
+    (COUNTRY_METADATA[code] as CountryMetadata).areaCodes;
+
+  return (
+    countries.find((code) => areaCodesOf(code)?.includes(areaCode)) ??
+    countries.find((code) => !areaCodesOf(code))
+  );
+}
@@ -0,0 +1,93 @@
+import { z } from 'zod';
+import { createPhoneNumberSchema, PhoneNumberOptions } from './phone';
+import { ResponseValidator } from './responses';
+import {
+  CallOptions,
+  HttpClient,
+  HttpMethod,
+  MsGineValidationError,
+  Price,
+  PriceSchema,
+} from './types';
+import { toCallOptions } from './utils';
+
+/**
+ * ISO 3166-1 alpha-2 country code, in either case
+ */
+const CountryCodeSchema = z
+  .string()
+  .regex(/^[A-Za-z]{2}$/)
+  .transform((code) => code.toUpperCase());
+
+/**
+ * Pricing endpoints
+ *
+ * Available as `client.pricing`.
+ */
+export class Pricing {
+  private readonly phoneNumberSchema: ReturnType<
+    typeof createPhoneNumberSchema
+  >;
+
+  constructor(
+    private readonly httpClient: HttpClient,
+    phoneNumberOptions: PhoneNumberOptions = {},
+    private readonly responses: ResponseValidator = new ResponseValidator()
+  ) {
+    this.phoneNumberSchema = createPhoneNumberSchema(phoneNumberOptions);
+  }
+
+  /**
+   * Look up the price of sending to a country or phone number
+   *
+   * A country returns its standard price with a price per carrier. A phone
+   * number returns the price on its carrier.
+   *
+   * @param countryOrNumber - ISO country code such as `UG`, or a phone
+   * number
+   * @param options - Request options
+   * @returns Promise resolving to the price per segment
+   * @throws {MsGineValidationError} If the country or number is invalid, or
+   * the response is invalid
+   * @throws {MsGineError} If the API request fails
+   *
+   * @example
+   * ```typescript
+   * const price = await client.pricing.lookup('+256771234567');
+   *
+   * console.log(price.carrier, price.pricePerSegment, price.currency);
+   * ```
+   */
+  async lookup(
+    countryOrNumber: string,
+    options: CallOptions = {}
+  ): Promise<Price> {
+    const response = await this.httpClient.request<unknown>({
+      ...toCallOptions(options),
+      method: HttpMethod.GET,
+      path: '/pricing',
+      queryParams: this.lookupParams(countryOrNumber),
+    });
+
+    return this.responses.parse(PriceSchema, response, 'price');
+  }
+
+  private lookupParams(countryOrNumber: string): Record<string, string> {
+    const country = CountryCodeSchema.safeParse(countryOrNumber);
+
+    if (country.success) {
+      return { country: country.data };
+    }
+
+    const number = this.phoneNumberSchema.safeParse(countryOrNumber);
+
+    if (!number.success) {
+      throw new MsGineValidationError(
+        'Invalid country code or phone number',
+        number.error
+      );
+    }
+
+    return { to: number.data };
+  }
+}
@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { RequestLimiter } from './rate-limiter';
+
+describe('RequestLimiter', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const deferred = () => {
+    let resolve!: () => void;
+    const promise = new Promise<void>((r) => (resolve = r));
+    return { promise, resolve };
+  };
+
+  it('should bound the number of tasks in flight', async () => {
+    const limiter = new RequestLimiter({ concurrency: 2 });
+    const gates = [deferred(), deferred(), deferred()];
+    const started: number[] = [];
+
+    const runs = gates.map((gate, i) =>
+      limiter.schedule(() => {
+        started.push(i);
+        return gate.promise;
+      })
+    );
+
+    expect(started).toEqual([0, 1]);
+    expect(limiter.stats()).toMatchObject({ active: 2, queueDepth: 1 });
+
+    gates[0]!.resolve();
+    await runs[0];
+    await Promise.resolve();
+
+    expect(started).toEqual([0, 1, 2]);
+
+    gates[1]!.resolve();
+    gates[2]!.resolve();
+    await Promise.all(runs);
+    expect(limiter.stats()).toMatchObject({ active: 0, queueDepth: 0 });
+  });
+
+  it('should space requests out with a token bucket', async () => {
+    vi.useFakeTimers();
+    const onThrottle = vi.fn();
+    const limiter = new RequestLimiter({
+      rateLimit: { requestsPerSecond: 10, burst: 2 },
+      onThrottle,
+    });
+    const started: number[] = [];
+
+    const runs = [0, 1, 2, 3].map((i) =>
+      limiter.schedule(() => {
+        started.push(i);
+        return Promise.resolve(i);
+      })
+    );
+
+    // The burst goes out immediately
+    expect(started).toEqual([0, 1]);
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(started).toEqual([0, 1, 2]);
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(started).toEqual([0, 1, 2, 3]);
+
+    await expect(Promise.all(runs)).resolves.toEqual([0, 1, 2, 3]);
+    expect(onThrottle).toHaveBeenCalledWith({ waitMs: 100, queueDepth: 1 });
+    expect(limiter.stats().maxWaitMs).toBe(200);
+  });
+
+  it('should propagate task failures', async () => {
+    const limiter = new RequestLimiter({ concurrency: 1 });
+
+    await expect(
+      limiter.schedule(() => Promise.reject(new Error('boom')))
+    ).rejects.toThrow('boom');
+    await expect(limiter.schedule(() => Promise.resolve('ok'))).resolves.toBe(
+      'ok'
+    );
+  });
+
+  it('should drop queued tasks whose signal aborts', async () => {
+    const limiter = new RequestLimiter({ concurrency: 1 });
+    const gate = deferred();
+    const controller = new AbortController();
+    const task = vi.fn(() => Promise.resolve());
+
+    const first = limiter.schedule(() => gate.promise);
+    const queued = limiter.schedule(task, {
+      signal: controller.signal,
+      abortError: () => new Error('cancelled'),
+    });
+    expect(limiter.stats().queueDepth).toBe(1);
+
+    controller.abort();
+
+    await expect(queued).rejects.toThrow('cancelled');
+    expect(limiter.stats().queueDepth).toBe(0);
+
+    gate.resolve();
+    await first;
+    expect(task).not.toHaveBeenCalled();
+    await expect(
+      limiter.schedule(task, { signal: controller.signal })
+    ).rejects.toBeDefined();
+  });
+
+  it('should reject invalid limits', () => {
+    expect(() => new RequestLimiter({ concurrency: 0 })).toThrow();
+    expect(
+      () => new RequestLimiter({ rateLimit: { requestsPerSecond: 0 } })
+    ).toThrow();
+  });
+});
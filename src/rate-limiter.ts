@@ -0,0 +1,194 @@
+import { LimiterStats, RateLimitConfig, ThrottleEvent } from './types';
+
+/**
+ * Options for the request limiter
+ */
+interface RequestLimiterOptions {
+  concurrency?: number;
+  rateLimit?: RateLimitConfig;
+  onThrottle?: (event: ThrottleEvent) => void;
+}
+
+/**
+ * Options for scheduling a task
+ */
+interface ScheduleOptions {
+  /**
+   * Takes the task out of the queue if it aborts before the task starts
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Build the error to reject with when `signal` aborts. Defaults to the
+   * signal's reason.
+   */
+  abortError?: () => unknown;
+}
+
+/**
+ * Task waiting for a concurrency slot and a rate limit token
+ */
+interface QueuedTask {
+  run: () => Promise<void>;
+  enqueuedAt: number;
+}
+
+/**
+ * FIFO queue that bounds the number of in-flight requests and spaces them
+ * out with a token bucket
+ */
+export class RequestLimiter {
+  private readonly concurrency: number;
+  private readonly rateLimit?: Required<RateLimitConfig>;
+  private readonly onThrottle?: (event: ThrottleEvent) => void;
+  private readonly queue: QueuedTask[] = [];
+  private active = 0;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private refillTimer?: ReturnType<typeof setTimeout>;
+  private lastWaitMs = 0;
+  private maxWaitMs = 0;
+
+  constructor(options: RequestLimiterOptions = {}) {
+    this.concurrency = options.concurrency ?? Infinity;
+    this.onThrottle = options.onThrottle;
+
+    if (!(this.concurrency >= 1)) {
+      throw new Error('Concurrency must be at least 1');
+    }
+
+    if (options.rateLimit) {
+      const { requestsPerSecond } = options.rateLimit;
+      const burst = options.rateLimit.burst ?? requestsPerSecond;
+
+      if (!(requestsPerSecond > 0) || !(burst >= 1)) {
+        throw new Error(
+          'Rate limit requires requestsPerSecond > 0 and burst >= 1'
+        );
+      }
+
+      this.rateLimit = { requestsPerSecond, burst };
+    }
+
+    this.tokens = this.rateLimit?.burst ?? Infinity;
+  }
+
+  /**
+   * Run a task once a concurrency slot and a rate limit token are available
+   */
+  schedule<T>(
+    task: () => Promise<T>,
+    options: ScheduleOptions = {}
+  ): Promise<T> {
+    const { signal } = options;
+    const abortError = () =>
+      options.abortError?.() ?? (signal?.reason as unknown);
+
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(abortError());
+        return;
+      }
+
+      const queued: QueuedTask = {
+        run: () => {
+          signal?.removeEventListener('abort', onAbort);
+          return task().then(resolve, reject);
+        },
+        enqueuedAt: Date.now(),
+      };
+      const onAbort = () => {
+        const index = this.queue.indexOf(queued);
+        if (index !== -1) {
+          this.queue.splice(index, 1);
+          reject(abortError());
+        }
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.queue.push(queued);
+      this.drain();
+    });
+  }
+
+  /**
+   * Current queue depth, in-flight count and wait times
+   */
+  stats(): LimiterStats {
+    return {
+      queueDepth: this.queue.length,
+      active: this.active,
+      lastWaitMs: this.lastWaitMs,
+      maxWaitMs: this.maxWaitMs,
+    };
+  }
+
+  /**
+   * Start as many queued tasks as the limits allow
+   */
+  private drain(): void {
+    while (this.queue.length > 0 && this.active < this.concurrency) {
+      if (!this.takeToken()) {
+        this.scheduleRefill();
+        return;
+      }
+
+      const task = this.queue.shift()!;
+      const waitMs = Date.now() - task.enqueuedAt;
+
+      this.lastWaitMs = waitMs;
+      this.maxWaitMs = Math.max(this.maxWaitMs, waitMs);
+      if (waitMs > 0) {
+        this.onThrottle?.({ waitMs, queueDepth: this.queue.length });
+      }
+
+      this.active++;
+      void task.run().finally(() => {
+        this.active--;
+        this.drain();
+      });
+    }
+  }
+
+  /**
+   * Take a token from the bucket, refilling it for the time elapsed
+   */
+  private takeToken(): boolean {
+    if (!this.rateLimit) {
+      return true;
+    }
+
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.rateLimit.burst,
+      this.tokens +
+        ((now - this.lastRefill) * this.rateLimit.requestsPerSecond) / 1000
+    );
+    this.lastRefill = now;
+
+    if (this.tokens < 1) {
+      return false;
+    }
+
+    this.tokens--;
+    return true;
+  }
+
+  /**
+   * Wake up once the next token is available
+   */
+  private scheduleRefill(): void {
+    if (this.refillTimer !== undefined || !this.rateLimit) {
+      return;
+    }
+
+    const delay = Math.ceil(
+      ((1 - this.tokens) * 1000) / this.rateLimit.requestsPerSecond
+    );
+
+    this.refillTimer = setTimeout(() => {
+      this.refillTimer = undefined;
+      this.drain();
+    }, delay);
+  }
+}
@@ -0,0 +1,209 @@
+import { z } from 'zod';
+import { SdkLogger } from './logger';
+import {
+  MsGineValidationError,
+  ResponseMeta,
+  ResponseValidationMode,
+} from './types';
+import { isRecord } from './utils';
+
+/**
+ * Property holding response metadata on parsed API results
+ */
+const META_PROPERTY = '$meta';
+
+/**
+ * Envelope metadata returned alongside response data
+ */
+const EnvelopeMetaSchema = z.object({
+  requestId: z.string().optional(),
+  timestamp: z.string().optional(),
+});
+
+/**
+ * Attach response metadata to a parsed result as a non-enumerable `$meta`
+ * property, so it does not show up when the result is spread, compared or
+ * serialised. Primitives and `null` are returned unchanged.
+ */
+export function attachResponseMeta<T>(value: T, meta: ResponseMeta): T {
+  if (typeof value === 'object' && value !== null) {
+    Object.defineProperty(value, META_PROPERTY, {
+      value: meta,
+      enumerable: false,
+      configurable: true,
+      writable: false,
+    });
+  }
+  return value;
+}
+
+/**
+ * Get the request ID, timestamp, status and headers of the response an
+ * API result was parsed from
+ *
+ * @param value - Result returned by an SDK method
+ * @returns The response metadata, or `undefined` for values that were not
+ * returned by the API
+ *
+ * @example
+ * ```typescript
+ * const result = await client.sendSms({ to: '+256701521269', message: 'Hi' });
+ *
+ * console.log(getResponseMeta(result)?.requestId);
+ * ```
+ */
+export function getResponseMeta(value: unknown): ResponseMeta | undefined {
+  if (typeof value !== 'object' || value === null) {
+    return undefined;
+  }
+  return (value as { [META_PROPERTY]?: ResponseMeta })[META_PROPERTY];
+}
+
+/**
+ * Options for parsing a response
+ */
+export interface ResponseParseOptions {
+  /**
+   * The request took effect, e.g. a message was sent and billed. An invalid
+   * response is then logged as a warning in `strict` mode too, since
+   * throwing would suggest the request failed and invite a retry that
+   * repeats it.
+   */
+  committed?: boolean;
+}
+
+/**
+ * Validates API responses against their schemas and unwraps the
+ * `{ data, meta }` envelope
+ */
+export class ResponseValidator {
+  constructor(
+    private readonly mode: ResponseValidationMode = 'strict',
+    private readonly logger: SdkLogger = new SdkLogger()
+  ) {}
+
+  /**
+   * Parse a single resource, unwrapping it from its envelope when the API
+   * returned one
+   *
+   * @param schema - Schema of the resource
+   * @param response - Response body
+   * @param description - Resource name used in error messages
+   * @param options - Parse options
+   * @throws {MsGineValidationError} If the response does not match the
+   * schema in `strict` mode, unless the request was committed
+   */
+  parse<T>(
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    response: unknown,
+    description: string,
+    options: ResponseParseOptions = {}
+  ): T {
+    if (isEnvelope(response)) {
+      return this.validate(
+        schema,
+        response.data,
+        description,
+        this.metaFor(response, response.meta),
+        options
+      );
+    }
+
+    return this.validate(
+      schema,
+      response,
+      description,
+      this.metaFor(response, undefined),
+      options
+    );
+  }
+
+  /**
+   * Parse a response whose schema describes the whole envelope, such as a
+   * page of a list endpoint
+   *
+   * @param schema - Schema of the envelope
+   * @param response - Response body
+   * @param description - Resource name used in error messages
+   * @param options - Parse options
+   * @throws {MsGineValidationError} If the response does not match the
+   * schema in `strict` mode, unless the request was committed
+   */
+  parseEnvelope<T>(
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    response: unknown,
+    description: string,
+    options: ResponseParseOptions = {}
+  ): T {
+    const meta = isRecord(response) ? response.meta : undefined;
+
+    return this.validate(
+      schema,
+      response,
+      description,
+      this.metaFor(response, meta),
+      options
+    );
+  }
+
+  private validate<T>(
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    data: unknown,
+    description: string,
+    meta: ResponseMeta,
+    options: ResponseParseOptions
+  ): T {
+    if (this.mode === 'off') {
+      return attachResponseMeta(data as T, meta);
+    }
+
+    const parsed = schema.safeParse(data);
+
+    if (parsed.success) {
+      return attachResponseMeta(parsed.data, meta);
+    }
+
+    if (this.mode === 'warn' || options.committed) {
+      this.logger.warn('Unexpected MsGine response', {
+        response: description,
+        requestId: meta.requestId,
+        issues: parsed.error.issues,
+      });
+      return attachResponseMeta(data as T, meta);
+    }
+
+    throw new MsGineValidationError(
+      `Invalid ${description} response`,
+      parsed.error
+    );
+  }
+
+  /**
+   * Merge envelope metadata with the transport metadata attached by the
+   * HTTP client
+   */
+  private metaFor(response: unknown, envelopeMeta: unknown): ResponseMeta {
+    const transport = getResponseMeta(response);
+    const parsed = EnvelopeMetaSchema.safeParse(envelopeMeta);
+    const body = parsed.success ? parsed.data : {};
+
+    return {
+      ...transport,
+      requestId: body.requestId ?? transport?.requestId,
+      timestamp: body.timestamp ?? transport?.timestamp,
+    };
+  }
+}
+
+/**
+ * Whether a response body is a `{ data, meta }` envelope
+ */
+function isEnvelope(
+  response: unknown
+): response is { data: unknown; meta?: unknown } {
+  return (
+    isRecord(response) &&
+    'data' in response &&
+    Object.keys(response).every((key) => key === 'data' || key === 'meta')
+  );
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MsGinePricingError,
+  MsGineValidationError,
+  analyzeMessage,
+  estimateCost,
+} from '../src';
+
+describe('analyzeMessage', () => {
+  it('should fit 160 GSM-7 characters in one segment', () => {
+    expect(analyzeMessage('a'.repeat(160))).toMatchObject({
+      encoding: 'GSM-7',
+      length: 160,
+      segments: 1,
+      remaining: 0,
+      nonGsmCharacters: [],
+    });
+
+    expect(analyzeMessage('a'.repeat(161))).toMatchObject({
+      segments: 2,
+      charactersPerSegment: 153,
+      remaining: 145,
+    });
+  });
+
+  it('should count extension characters as two septets', () => {
+    const analysis = analyzeMessage('€'.repeat(80));
+
+    expect(analysis).toMatchObject({
+      encoding: 'GSM-7',
+      length: 160,
+      segments: 1,
+    });
+
+    // Escape sequences are not split across segments
+    expect(analyzeMessage('a' + '€'.repeat(80)).segments).toBe(2);
+  });
+
+  it('should switch to UCS-2 for non-GSM characters', () => {
+    const analysis = analyzeMessage(`Shipped 🚚 “today”${'a'.repeat(60)}`);
+
+    expect(analysis.encoding).toBe('UCS-2');
+    expect(analysis.nonGsmCharacters).toEqual(['🚚', '“', '”']);
+    expect(analysis.length).toBe(78);
+    expect(analysis.segments).toBe(2);
+    expect(analysis.remaining).toBe(67 - 11);
+  });
+
+  it('should transliterate typographic characters', () => {
+    const analysis = analyzeMessage('It’s “done” – finally…', {
+      transliterate: true,
+    });
+
+    expect(analysis.text).toBe('It\'s "done" - finally...');
+    expect(analysis.encoding).toBe('GSM-7');
+  });
+});
+
+describe('estimateCost', () => {
+  const pricing = {
+    currency: 'UGX',
+    carriers: { 'UG:MTN': 25 },
+    countries: { UG: 30 },
+  };
+
+  it('should price each recipient by carrier, country and segments', () => {
+    const estimate = estimateCost(
+      {
+        to: [
+          { to: '+256771234567', variables: { name: 'Alice' } },
+          { to: '+256701521269', variables: { name: 'B'.repeat(160) } },
+        ],
+        message: 'Hi {{name}}',
+      },
+      pricing
+    );
+
+    expect(estimate).toEqual({
+      currency: 'UGX',
+      total: 25 + 2 * 30,
+      segments: 3,
+      recipients: [
+        expect.objectContaining({
+          to: '+256771234567',
+          carrier: 'MTN',
+          segments: 1,
+          cost: 25,
+        }),
+        expect.objectContaining({
+          to: '+256701521269',
+          country: 'UG',
+          segments: 2,
+          cost: 60,
+        }),
+      ],
+    });
+  });
+
+  it('should reject recipients without a price', () => {
+    expect(() =>
+      estimateCost({ to: '+254712345678', message: 'Hello' }, pricing)
+    ).toThrow(MsGinePricingError);
+    expect(() =>
+      estimateCost({ to: '+254712345678', message: 'Hello' }, pricing)
+    ).toThrow('No price available for recipient +254712345678');
+  });
+
+  it('should price numbers before their carrier and country', () => {
+    const estimate = estimateCost(
+      { to: ['+4915123456789', '+256771234567'], message: 'Hello' },
+      { ...pricing, numbers: { '+4915123456789': 90, '+256771234567': 20 } }
+    );
+
+    expect(estimate.recipients.map((r) => r.cost)).toEqual([90, 20]);
+  });
+
+  it('should validate the payload', () => {
+    expect(() => estimateCost({ to: 'hello', message: 'Hi' }, pricing)).toThrow(
+      MsGineValidationError
+    );
+  });
+});
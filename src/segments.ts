@@ -0,0 +1,367 @@
+import { safeParsePhoneNumber, PhoneNumberOptions } from './phone';
+import {
+  createSendSmsSchema,
+  MsGinePricingError,
+  MsGineValidationError,
+  SendSmsPayload,
+} from './types';
+import { renderTemplate } from './utils';
+
+/**
+ * Characters of the GSM 03.38 default alphabet
+ */
+const GSM_BASIC_CHARACTERS = new Set(
+  '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?' +
+    '¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà'
+);
+
+/**
+ * Characters of the GSM 03.38 extension table, each sent as an escape
+ * sequence taking two septets
+ */
+const GSM_EXTENSION_CHARACTERS = new Set('^{}\\[~]|€\f');
+
+/**
+ * GSM replacements for common typographic characters
+ */
+const TRANSLITERATIONS: Record<string, string> = {
+  '‘': "'",
+  '’': "'",
+  '‚': "'",
+  '′': "'",
+  '“': '"',
+  '”': '"',
+  '„': '"',
+  '″': '"',
+  '‐': '-',
+  '‑': '-',
+  '‒': '-',
+  '–': '-',
+  '—': '-',
+  '―': '-',
+  '−': '-',
+  '…': '...',
+  '\u00a0': ' ',
+  '\u2009': ' ',
+  '\u202f': ' ',
+  '\u200b': '',
+  '«': '"',
+  '»': '"',
+  '•': '-',
+};
+
+/**
+ * Segment capacity per encoding, in septets for GSM-7 and UTF-16 code
+ * units for UCS-2. Multipart messages lose room to the concatenation
+ * header.
+ */
+const SEGMENT_LIMITS = {
+  'GSM-7': { single: 160, multipart: 153 },
+  'UCS-2': { single: 70, multipart: 67 },
+} as const;
+
+/**
+ * Character encoding used to send a message
+ */
+export type MessageEncoding = keyof typeof SEGMENT_LIMITS;
+
+/**
+ * Options for analysing a message
+ */
+export interface AnalyzeMessageOptions {
+  /**
+   * Replace smart quotes, dashes, ellipses and similar characters with
+   * GSM equivalents before analysing
+   * @default false
+   */
+  transliterate?: boolean;
+}
+
+/**
+ * Encoding and segment breakdown of a message
+ */
+export interface MessageAnalysis {
+  /**
+   * The analysed text, after transliteration if enabled
+   */
+  text: string;
+
+  /**
+   * Encoding the message will be sent with
+   */
+  encoding: MessageEncoding;
+
+  /**
+   * Length in septets (GSM-7) or UTF-16 code units (UCS-2)
+   */
+  length: number;
+
+  /**
+   * Number of SMS segments the message is split into
+   */
+  segments: number;
+
+  /**
+   * Capacity of each segment in the current encoding
+   */
+  charactersPerSegment: number;
+
+  /**
+   * Characters that still fit in the last segment
+   */
+  remaining: number;
+
+  /**
+   * Distinct characters outside the GSM-7 alphabet that force UCS-2
+   */
+  nonGsmCharacters: string[];
+}
+
+/**
+ * Work out how a message will be encoded and how many SMS segments it
+ * takes
+ *
+ * @param text - Message text
+ * @param options - Analysis options
+ *
+ * @example
+ * ```typescript
+ * const analysis = analyzeMessage('Your order has shipped 🚚');
+ *
+ * console.log(analysis.encoding); // 'UCS-2'
+ * console.log(analysis.nonGsmCharacters); // ['🚚']
+ * ```
+ */
+export function analyzeMessage(
+  text: string,
+  options: AnalyzeMessageOptions = {}
+): MessageAnalysis {
+  const analysed = options.transliterate ? transliterate(text) : text;
+  const characters = Array.from(analysed);
+  const nonGsmCharacters = [
+    ...new Set(
+      characters.filter(
+        (c) => !GSM_BASIC_CHARACTERS.has(c) && !GSM_EXTENSION_CHARACTERS.has(c)
+      )
+    ),
+  ];
+  const encoding: MessageEncoding =
+    nonGsmCharacters.length > 0 ? 'UCS-2' : 'GSM-7';
+
+  // Escape sequences and surrogate pairs are never split across segments
+  const sizes = characters.map((c) =>
+    encoding === 'GSM-7' ? (GSM_EXTENSION_CHARACTERS.has(c) ? 2 : 1) : c.length
+  );
+  const length = sizes.reduce((total, size) => total + size, 0);
+  const limits = SEGMENT_LIMITS[encoding];
+
+  if (length <= limits.single) {
+    return {
+      text: analysed,
+      encoding,
+      length,
+      segments: length === 0 ? 0 : 1,
+      charactersPerSegment: limits.single,
+      remaining: limits.single - length,
+      nonGsmCharacters,
+    };
+  }
+
+  let segments = 1;
+  let used = 0;
+  for (const size of sizes) {
+    if (used + size > limits.multipart) {
+      segments++;
+      used = 0;
+    }
+    used += size;
+  }
+
+  return {
+    text: analysed,
+    encoding,
+    length,
+    segments,
+    charactersPerSegment: limits.multipart,
+    remaining: limits.multipart - used,
+    nonGsmCharacters,
+  };
+}
+
+/**
+ * Per-segment prices used to estimate the cost of a send. The most
+ * specific price for each recipient applies: carrier, then country, then
+ * the default.
+ */
+export interface PricingTable {
+  /**
+   * Currency of the prices, e.g. `UGX`
+   */
+  currency: string;
+
+  /**
+   * Price per segment by E.164 number, for recipients whose country is not
+   * known from the number alone
+   */
+  numbers?: Record<string, number>;
+
+  /**
+   * Price per segment by country and carrier, keyed as `UG:MTN`
+   */
+  carriers?: Record<string, number>;
+
+  /**
+   * Price per segment by country, e.g. `{ UG: 30 }`
+   */
+  countries?: Record<string, number>;
+
+  /**
+   * Price per segment for recipients without a more specific price
+   */
+  default?: number;
+}
+
+/**
+ * Options for estimating the cost of a send
+ */
+export interface EstimateCostOptions
+  extends PhoneNumberOptions,
+    AnalyzeMessageOptions {}
+
+/**
+ * Estimated cost of sending a message to one recipient
+ */
+export interface RecipientCostEstimate {
+  to: string;
+  country?: string;
+  carrier?: string;
+  encoding: MessageEncoding;
+  segments: number;
+  pricePerSegment: number;
+  cost: number;
+}
+
+/**
+ * Estimated cost of a send
+ */
+export interface CostEstimate {
+  currency: string;
+  total: number;
+  segments: number;
+  recipients: RecipientCostEstimate[];
+}
+
+/**
+ * Estimate the cost of sending an SMS payload before calling `sendSms`
+ *
+ * Template variables are filled in for each recipient, so personalised
+ * messages are priced by their own segment count.
+ *
+ * @param payload - SMS message data, as passed to `sendSms`
+ * @param pricing - Per-segment prices
+ * @param options - Phone number and analysis options
+ * @throws {MsGineValidationError} If payload validation fails
+ * @throws {MsGinePricingError} If the pricing table has no price for a
+ * recipient
+ *
+ * @example
+ * ```typescript
+ * const estimate = estimateCost(
+ *   { to: ['+256771234567', '+256701521269'], message: 'Hello!' },
+ *   { currency: 'UGX', countries: { UG: 30 }, carriers: { 'UG:MTN': 25 } }
+ * );
+ *
+ * console.log(estimate.total, estimate.currency); // 55 'UGX'
+ * ```
+ */
+export function estimateCost(
+  payload: SendSmsPayload,
+  pricing: PricingTable,
+  options: EstimateCostOptions = {}
+): CostEstimate {
+  const validation = createSendSmsSchema(options).safeParse(payload);
+
+  if (!validation.success) {
+    throw new MsGineValidationError('Invalid SMS payload', validation.error);
+  }
+
+  const { to, message, variables } = validation.data;
+  const recipients = (Array.isArray(to) ? to : [to]).map((recipient) =>
+    typeof recipient === 'string'
+      ? { to: recipient, variables }
+      : {
+          to: recipient.to,
+          variables: { ...variables, ...recipient.variables },
+        }
+  );
+
+  const estimates = recipients.map((recipient): RecipientCostEstimate => {
+    const analysis = analyzeMessage(
+      renderTemplate(message, recipient.variables ?? {}),
+      options
+    );
+    const parsed = safeParsePhoneNumber(recipient.to);
+    const country = parsed.success ? parsed.data.country : undefined;
+    const carrier = parsed.success ? parsed.data.carrier : undefined;
+    const pricePerSegment = priceFor(pricing, recipient.to, country, carrier);
+
+    if (pricePerSegment === undefined) {
+      throw new MsGinePricingError(
+        `No price available for recipient ${recipient.to}`,
+        'PRICE_UNAVAILABLE'
+      );
+    }
+
+    return {
+      to: recipient.to,
+      country,
+      carrier,
+      encoding: analysis.encoding,
+      segments: analysis.segments,
+      pricePerSegment,
+      cost: analysis.segments * pricePerSegment,
+    };
+  });
+
+  return {
+    currency: pricing.currency,
+    total: estimates.reduce((total, estimate) => total + estimate.cost, 0),
+    segments: estimates.reduce(
+      (total, estimate) => total + estimate.segments,
+      0
+    ),
+    recipients: estimates,
+  };
+}
+
+/**
+ * Find the most specific per-segment price for a recipient
+ */
+function priceFor(
+  pricing: PricingTable,
+  number: string,
+  country?: string,
+  carrier?: string
+): number | undefined {
+  const numberPrice = pricing.numbers?.[number];
+  if (numberPrice !== undefined) {
+    return numberPrice;
+  }
+
+  if (country && carrier) {
+    const carrierPrice = pricing.carriers?.[`${country}:${carrier}`];
+    if (carrierPrice !== undefined) {
+      return carrierPrice;
+    }
+  }
+
+  const countryPrice = country ? pricing.countries?.[country] : undefined;
+  return countryPrice ?? pricing.default;
+}
+
+/**
+ * Replace typographic characters with GSM equivalents
+ */
+function transliterate(text: string): string {
+  return Array.from(text, (c) => TRANSLITERATIONS[c] ?? c).join('');
+}
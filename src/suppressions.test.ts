@@ -0,0 +1,283 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { MsGineSuppressionError, MsGineValidationError } from '../src';
+import { MockMsGineApi } from '../src/testing';
+import { createSandbox } from '../src/test-helpers';
+
+describe('Suppressions', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const suppressed = () => new MockMsGineApi({ suppressed: ['+256701521269'] });
+
+  const lookups = (api: MockMsGineApi) =>
+    api.requests.filter((request) => request.path.includes('/suppressions'));
+
+  describe('list management', () => {
+    it('should add, get, list and remove numbers', async () => {
+      const { api, client } = createSandbox({ sandbox: suppressed() });
+
+      const added = await client.suppressions.add('0701 521 270', {
+        reason: 'complaint',
+        note: 'Called support',
+      });
+      expect(added).toMatchObject({
+        number: '+256701521270',
+        reason: 'complaint',
+        note: 'Called support',
+      });
+
+      await expect(
+        client.suppressions.get('+256701521270')
+      ).resolves.toMatchObject({ reason: 'complaint' });
+      expect(
+        (await client.suppressions.list({ reason: 'opt_out' }).toArray()).map(
+          (s) => s.number
+        )
+      ).toEqual(['+256701521269']);
+
+      await client.suppressions.remove('0701521270');
+      await expect(
+        client.suppressions.get('+256701521270')
+      ).resolves.toBeUndefined();
+      expect(api.suppressions).toHaveLength(1);
+    });
+
+    it('should reject invalid numbers before sending', async () => {
+      const { api, client } = createSandbox({ sandbox: suppressed() });
+
+      await expect(client.suppressions.add('12')).rejects.toThrow(
+        MsGineValidationError
+      );
+      expect(api.requests).toHaveLength(0);
+    });
+
+    it('should cache lookups until the TTL expires', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      const { api, client } = createSandbox({
+        sandbox: suppressed(),
+        suppressionCacheTtl: 60_000,
+      });
+
+      const numbers = ['+256701521269', '+256701521270'];
+      expect(await client.suppressions.lookup(numbers)).toHaveLength(1);
+      expect(await client.suppressions.lookup(numbers)).toHaveLength(1);
+      await client.suppressions.get('+256701521270');
+      expect(lookups(api)).toHaveLength(1);
+
+      // Changes made through the client update the cache
+      await client.suppressions.add('+256701521270');
+      expect(await client.suppressions.lookup(numbers)).toHaveLength(2);
+      expect(lookups(api)).toHaveLength(2);
+
+      vi.advanceTimersByTime(60_000);
+      await client.suppressions.lookup(numbers);
+      expect(lookups(api)).toHaveLength(3);
+    });
+
+    it('should look up large lists in chunks', async () => {
+      const { api, client } = createSandbox({ sandbox: suppressed() });
+      const numbers = Array.from(
+        { length: 2500 },
+        (_, i) => `+2567015${String(i).padStart(5, '0')}`
+      );
+
+      const found = await client.suppressions.lookup([
+        ...numbers,
+        '+256701521269',
+      ]);
+
+      expect(found.map((s) => s.number)).toEqual(['+256701521269']);
+      expect(
+        lookups(api).map(
+          (request) => (request.body as { numbers: string[] }).numbers.length
+        )
+      ).toEqual([1000, 1000, 501]);
+    });
+
+    it('should accept reasons added by the API', async () => {
+      const api = suppressed();
+      api.suppressions[0]!.reason = 'carrier_block';
+      const { client } = createSandbox({
+        sandbox: api,
+        respectSuppression: 'filter',
+      });
+
+      const response = await client.sendSms({
+        to: ['0701521269', '0701521270'],
+        message: 'Sale today',
+      });
+
+      expect(response.skipped).toMatchObject([
+        { to: '+256701521269', reason: 'carrier_block' },
+      ]);
+    });
+  });
+
+  describe('respectSuppression', () => {
+    it('should not check recipients when unset', async () => {
+      const { api, client } = createSandbox({ sandbox: suppressed() });
+
+      await client.sendSms({ to: '+256701521269', message: 'Hello' });
+
+      expect(lookups(api)).toHaveLength(0);
+      api.expectSmsSent({ to: '+256701521269' });
+    });
+
+    it('should leave suppressed recipients out and report them', async () => {
+      const { api, client } = createSandbox({
+        sandbox: suppressed(),
+        respectSuppression: 'filter',
+      });
+
+      const response = await client.sendSms({
+        to: ['0701521269', '0701521270'],
+        message: 'Sale today',
+      });
+
+      expect(response.to).toEqual(['+256701521270']);
+      expect(response.skipped).toMatchObject([
+        {
+          to: '+256701521269',
+          reason: 'opt_out',
+          suppression: { number: '+256701521269' },
+        },
+      ]);
+      api.expectNoSmsSent({ to: '+256701521269' });
+    });
+
+    it('should refuse sends with no recipient left', async () => {
+      const { api, client } = createSandbox({
+        sandbox: suppressed(),
+        respectSuppression: 'filter',
+      });
+
+      const error = await client
+        .sendSms({ to: '0701521269', message: 'Sale today' })
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(MsGineSuppressionError);
+      expect(error).toMatchObject({
+        skipped: [{ to: '+256701521269', reason: 'opt_out' }],
+      });
+      api.expectNoSmsSent();
+    });
+
+    it('should reject sends to suppressed recipients', async () => {
+      const { api, client } = createSandbox({
+        sandbox: suppressed(),
+        respectSuppression: 'reject',
+      });
+
+      await expect(
+        client.sendSms({
+          to: ['0701521269', '0701521270'],
+          message: 'Sale today',
+        })
+      ).rejects.toThrow('Cannot send to 1 suppressed recipient');
+      api.expectNoSmsSent();
+    });
+
+    it('should send anyway with ignoreSuppression', async () => {
+      const { api, client } = createSandbox({
+        sandbox: suppressed(),
+        respectSuppression: 'reject',
+      });
+
+      await client.sendSms(
+        { to: '0701521269', message: 'You are unsubscribed' },
+        { ignoreSuppression: true }
+      );
+
+      api.expectSmsSent({ to: '+256701521269' });
+    });
+
+    it('should send verification codes anyway with ignoreSuppression', async () => {
+      const { api, client } = createSandbox({
+        sandbox: suppressed(),
+        respectSuppression: 'reject',
+      });
+
+      await expect(client.verify.send('0701521269')).rejects.toThrow(
+        MsGineSuppressionError
+      );
+      await client.verify.send('0701521269', { ignoreSuppression: true });
+
+      api.expectSmsSent({ to: '+256701521269' }, { times: 1 });
+    });
+
+    it('should screen batches with a single lookup', async () => {
+      const { api, client } = createSandbox({
+        sandbox: suppressed(),
+        respectSuppression: 'filter',
+      });
+
+      const results = await client.sendSmsBatch([
+        { to: '0701521270', message: 'One' },
+        { to: '0701521269', message: 'Two' },
+        { to: ['0701521269', '0701521271'], message: 'Three' },
+      ]);
+
+      expect(results.map((result) => [result.index, result.ok])).toEqual([
+        [0, true],
+        [1, false],
+        [2, true],
+      ]);
+      expect(results[1]).toMatchObject({
+        error: expect.any(MsGineSuppressionError) as unknown,
+      });
+      expect(results[2]).toMatchObject({
+        response: { skipped: [{ to: '+256701521269' }] },
+      });
+      expect(lookups(api)).toHaveLength(1);
+      api.expectNoSmsSent({ to: '+256701521269' });
+    });
+
+    it('should reject batches before sending anything', async () => {
+      const { api, client } = createSandbox({
+        sandbox: suppressed(),
+        respectSuppression: 'reject',
+      });
+
+      await expect(
+        client.sendSmsBatch([
+          { to: '0701521270', message: 'One' },
+          { to: '0701521269', message: 'Two' },
+        ])
+      ).rejects.toThrow(MsGineSuppressionError);
+      api.expectNoSmsSent();
+    });
+  });
+
+  describe('keywords', () => {
+    it('should suppress on STOP and confirm it, and lift it on START', async () => {
+      const { api, client } = createSandbox({
+        sandbox: new MockMsGineApi(),
+        respectSuppression: 'reject',
+        keywords: {
+          suppress: true,
+          replies: { stop: 'You are unsubscribed.' },
+        },
+      });
+      await client.sendSms({ to: '0701521269', message: 'Sale today' });
+
+      await client.keywords.handle(
+        api.receive({ from: '+256701521269', content: 'STOP' })
+      );
+
+      expect(api.suppressions).toMatchObject([
+        { number: '+256701521269', reason: 'opt_out' },
+      ]);
+      api.expectSmsSent({ message: 'You are unsubscribed.' });
+      await expect(
+        client.sendSms({ to: '0701521269', message: 'Another sale' })
+      ).rejects.toThrow(MsGineSuppressionError);
+
+      await client.keywords.handle(
+        api.receive({ from: '+256701521269', content: 'start' })
+      );
+
+      expect(api.suppressions).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,322 @@
+import { Paginator, PaginatorOptions } from './pagination';
+import { createPhoneNumberSchema, PhoneNumberOptions } from './phone';
+import { ResponseValidator } from './responses';
+import {
+  AddSuppressionOptions,
+  CallOptions,
+  HttpClient,
+  HttpMethod,
+  ListSuppressionsParams,
+  ListSuppressionsParamsSchema,
+  ListSuppressionsResponse,
+  ListSuppressionsResponseSchema,
+  MsGineNotFoundError,
+  MsGineValidationError,
+  Suppression,
+  SuppressionSchema,
+} from './types';
+import { toCallOptions, toQueryParams } from './utils';
+
+/**
+ * Numbers checked per lookup request, so large sends do not build one huge
+ * request body
+ */
+const LOOKUP_CHUNK_SIZE = 1000;
+
+/**
+ * Suppression list endpoints, with an optional local cache of lookups
+ *
+ * Available as `client.suppressions`. Suppressed numbers are left out of
+ * sends, or refuse them, when the client's `respectSuppression` option is
+ * set.
+ */
+export class Suppressions {
+  private readonly phoneNumberSchema: ReturnType<
+    typeof createPhoneNumberSchema
+  >;
+
+  /**
+   * Cached lookups by E.164 number, including numbers found not to be
+   * suppressed
+   */
+  private readonly cache = new Map<
+    string,
+    { suppression?: Suppression; expiresAt: number }
+  >();
+
+  constructor(
+    private readonly httpClient: HttpClient,
+    phoneNumberOptions: PhoneNumberOptions = {},
+    private readonly cacheTtl = 0,
+    private readonly responses: ResponseValidator = new ResponseValidator()
+  ) {
+    this.phoneNumberSchema = createPhoneNumberSchema(phoneNumberOptions);
+  }
+
+  /**
+   * Add a number to the suppression list
+   *
+   * @param number - Phone number to suppress
+   * @param options - Reason, note and request options
+   * @returns Promise resolving to the suppression list entry
+   * @throws {MsGineValidationError} If the number or the response is invalid
+   * @throws {MsGineError} If the API request fails
+   *
+   * @example
+   * ```typescript
+   * await client.suppressions.add('+256701521269', {
+   *   reason: 'complaint',
+   *   note: 'Asked by phone not to be contacted',
+   * });
+   * ```
+   */
+  async add(
+    number: string,
+    options: AddSuppressionOptions = {}
+  ): Promise<Suppression> {
+    const response = await this.httpClient.request<unknown>({
+      ...toCallOptions(options),
+      method: HttpMethod.POST,
+      path: '/suppressions',
+      body: {
+        number: this.normalize(number),
+        reason: options.reason ?? 'manual',
+        note: options.note,
+      },
+    });
+
+    const suppression = this.responses.parse(
+      SuppressionSchema,
+      response,
+      'suppression'
+    );
+    this.remember(suppression.number, suppression);
+    return suppression;
+  }
+
+  /**
+   * Remove a number from the suppression list, so it can be sent messages
+   * again
+   *
+   * @param number - Suppressed phone number
+   * @param options - Request options
+   * @throws {MsGineValidationError} If the number is invalid
+   * @throws {MsGineError} If the API request fails
+   */
+  async remove(number: string, options: CallOptions = {}): Promise<void> {
+    const normalized = this.normalize(number);
+
+    await this.httpClient.request<unknown>({
+      ...toCallOptions(options),
+      method: HttpMethod.DELETE,
+      path: `/suppressions/${encodeURIComponent(normalized)}`,
+    });
+
+    this.remember(normalized, undefined);
+  }
+
+  /**
+   * Get the suppression list entry for a number
+   *
+   * @param number - Phone number
+   * @param options - Request options
+   * @returns Promise resolving to the entry, or `undefined` if the number
+   * is not suppressed
+   * @throws {MsGineValidationError} If the number or the response is invalid
+   * @throws {MsGineError} If the API request fails
+   */
+  async get(
+    number: string,
+    options: CallOptions = {}
+  ): Promise<Suppression | undefined> {
+    const normalized = this.normalize(number);
+    const cached = this.cached(normalized);
+
+    if (cached) {
+      return cached.suppression;
+    }
+
+    let response: unknown;
+    try {
+      response = await this.httpClient.request<unknown>({
+        ...toCallOptions(options),
+        method: HttpMethod.GET,
+        path: `/suppressions/${encodeURIComponent(normalized)}`,
+      });
+    } catch (error) {
+      if (error instanceof MsGineNotFoundError) {
+        this.remember(normalized, undefined);
+        return undefined;
+      }
+      throw error;
+    }
+
+    const suppression = this.responses.parse(
+      SuppressionSchema,
+      response,
+      'suppression'
+    );
+    this.remember(normalized, suppression);
+    return suppression;
+  }
+
+  /**
+   * Find which of several numbers are suppressed, asking the API about the
+   * numbers not cached in requests of up to 1000 numbers
+   *
+   * @param numbers - Phone numbers to check
+   * @param options - Request options
+   * @returns Promise resolving to the entries of the suppressed numbers
+   * @throws {MsGineValidationError} If a number or the response is invalid
+   * @throws {MsGineError} If the API request fails
+   *
+   * @example
+   * ```typescript
+   * const suppressed = await client.suppressions.lookup(customers);
+   * ```
+   */
+  async lookup(
+    numbers: string[],
+    options: CallOptions = {}
+  ): Promise<Suppression[]> {
+    const normalized = [...new Set(numbers.map((n) => this.normalize(n)))];
+    const found: Suppression[] = [];
+    const uncached: string[] = [];
+
+    for (const number of normalized) {
+      const cached = this.cached(number);
+      if (!cached) {
+        uncached.push(number);
+      } else if (cached.suppression) {
+        found.push(cached.suppression);
+      }
+    }
+
+    for (let i = 0; i < uncached.length; i += LOOKUP_CHUNK_SIZE) {
+      const chunk = uncached.slice(i, i + LOOKUP_CHUNK_SIZE);
+      const response = await this.httpClient.request<unknown>({
+        ...toCallOptions(options),
+        method: HttpMethod.POST,
+        path: '/suppressions/lookup',
+        body: { numbers: chunk },
+      });
+      const suppressions = this.responses.parse(
+        SuppressionSchema.array(),
+        response,
+        'suppression lookup'
+      );
+
+      for (const number of chunk) {
+        const suppression = suppressions.find((s) => s.number === number);
+        this.remember(number, suppression);
+        if (suppression) {
+          found.push(suppression);
+        }
+      }
+    }
+
+    return found;
+  }
+
+  /**
+   * List every suppressed number, fetching pages on demand
+   *
+   * @param params - Listing filters and page size
+   * @param options - Iteration and request options
+   * @returns Paginator over the suppression list
+   * @throws {MsGineValidationError} If the filters are invalid
+   */
+  list(
+    params: ListSuppressionsParams = {},
+    options: PaginatorOptions & CallOptions = {}
+  ): Paginator<Suppression> {
+    const { limit, cursor, page, ...filters } = this.validateParams(params);
+
+    return new Paginator<Suppression>(
+      (pagination) => this.listPage({ ...filters, ...pagination }, options),
+      { limit, cursor, page },
+      options
+    );
+  }
+
+  /**
+   * Fetch a single page of the suppression list
+   *
+   * @param params - Listing filters and pagination parameters
+   * @param options - Request options
+   * @returns Promise resolving to the page of suppressions
+   * @throws {MsGineValidationError} If the filters or the response are invalid
+   * @throws {MsGineError} If the API request fails
+   */
+  async listPage(
+    params: ListSuppressionsParams = {},
+    options: CallOptions = {}
+  ): Promise<ListSuppressionsResponse> {
+    const response = await this.httpClient.request<unknown>({
+      ...toCallOptions(options),
+      method: HttpMethod.GET,
+      path: '/suppressions',
+      queryParams: toQueryParams(this.validateParams(params)),
+    });
+
+    return this.responses.parseEnvelope(
+      ListSuppressionsResponseSchema,
+      response,
+      'suppression list'
+    );
+  }
+
+  /**
+   * Forget cached lookups, e.g. after the list was changed elsewhere
+   */
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  private normalize(number: string): string {
+    const validation = this.phoneNumberSchema.safeParse(number);
+
+    if (!validation.success) {
+      throw new MsGineValidationError('Invalid phone number', validation.error);
+    }
+
+    return validation.data;
+  }
+
+  private cached(
+    number: string
+  ): { suppression?: Suppression; expiresAt: number } | undefined {
+    const entry = this.cache.get(number);
+
+    if (entry && entry.expiresAt <= Date.now()) {
+      this.cache.delete(number);
+      return undefined;
+    }
+
+    return entry;
+  }
+
+  private remember(number: string, suppression: Suppression | undefined) {
+    if (this.cacheTtl > 0) {
+      this.cache.set(number, {
+        suppression,
+        expiresAt: Date.now() + this.cacheTtl,
+      });
+    }
+  }
+
+  private validateParams(
+    params: ListSuppressionsParams
+  ): ListSuppressionsParams {
+    const validation = ListSuppressionsParamsSchema.safeParse(params);
+
+    if (!validation.success) {
+      throw new MsGineValidationError(
+        'Invalid suppression filters',
+        validation.error
+      );
+    }
+
+    return validation.data;
+  }
+}
@@ -0,0 +1,172 @@
+import {
+  MsGineError,
+  RequestOptions,
+  SendSmsResponse,
+  TelemetryAttributes,
+  TelemetryConfig,
+  TelemetryCounter,
+  TelemetryHistogram,
+  TelemetryTracer,
+} from './types';
+
+/**
+ * `SpanKind.CLIENT` from `@opentelemetry/api`
+ */
+const SPAN_KIND_CLIENT = 2;
+
+/**
+ * `SpanStatusCode.ERROR` from `@opentelemetry/api`
+ */
+const SPAN_STATUS_ERROR = 2;
+
+/**
+ * Spans and metrics for one logical request, across all of its attempts
+ */
+export interface RequestTelemetry {
+  retry(attempt: number, error: MsGineError, delay: number): void;
+  succeed(): void;
+  fail(error: unknown): void;
+}
+
+/**
+ * Records SDK spans and metrics through user-supplied OpenTelemetry
+ * instruments, doing nothing when none are configured
+ */
+export class Telemetry {
+  private readonly tracer?: TelemetryTracer;
+  private readonly requestDuration?: TelemetryHistogram;
+  private readonly requestFailures?: TelemetryCounter;
+  private readonly messagesSent?: TelemetryCounter;
+  private readonly messageCost?: TelemetryHistogram;
+
+  private readonly serverAddress?: string;
+
+  constructor(config: TelemetryConfig = {}, baseUrl?: string) {
+    this.tracer = config.tracer;
+    this.serverAddress = hostnameOf(baseUrl);
+
+    const meter = config.meter;
+    this.requestDuration = meter?.createHistogram(
+      'msgine.client.request.duration',
+      { description: 'Duration of MsGine API requests', unit: 'ms' }
+    );
+    this.requestFailures = meter?.createCounter(
+      'msgine.client.request.failures',
+      { description: 'MsGine API requests that failed after all retries' }
+    );
+    this.messagesSent = meter?.createCounter('msgine.messages.sent', {
+      description: 'Messages accepted by MsGine',
+      unit: '{message}',
+    });
+    this.messageCost = meter?.createHistogram('msgine.messages.cost', {
+      description: 'Cost of messages accepted by MsGine',
+    });
+  }
+
+  /**
+   * Start tracking a logical request
+   */
+  startRequest(options: RequestOptions): RequestTelemetry {
+    const startedAt = Date.now();
+    const attributes: TelemetryAttributes = {
+      'http.request.method': options.method,
+      'server.address': this.serverAddress,
+      'url.path': options.path,
+    };
+
+    const span = this.tracer?.startSpan(options.method, {
+      kind: SPAN_KIND_CLIENT,
+      attributes,
+    });
+
+    const recordDuration = (extra: TelemetryAttributes) => {
+      this.requestDuration?.record(Date.now() - startedAt, {
+        'http.request.method': options.method,
+        ...extra,
+      });
+    };
+
+    return {
+      retry: (attempt, error, delay) => {
+        span?.addEvent('retry', {
+          'http.request.resend_count': attempt,
+          'http.response.status_code': error.statusCode || undefined,
+          'error.type': error.code ?? String(error.statusCode),
+          'msgine.retry.delay_ms': Math.round(delay),
+        });
+      },
+      succeed: () => {
+        recordDuration({});
+        span?.end();
+      },
+      fail: (error) => {
+        const errorType = errorTypeOf(error);
+        recordDuration({ 'error.type': errorType });
+        this.requestFailures?.add(1, {
+          'http.request.method': options.method,
+          'error.type': errorType,
+        });
+
+        if (span) {
+          span.setAttribute('error.type', errorType);
+          if (error instanceof MsGineError) {
+            if (error.statusCode) {
+              span.setAttribute('http.response.status_code', error.statusCode);
+            }
+            if (error.requestId) {
+              span.setAttribute('msgine.request_id', error.requestId);
+            }
+          }
+          if (error instanceof Error) {
+            span.recordException(error);
+          }
+          span.setStatus({
+            code: SPAN_STATUS_ERROR,
+            message: error instanceof Error ? error.message : String(error),
+          });
+          span.end();
+        }
+      },
+    };
+  }
+
+  /**
+   * Record messages accepted by the API and their cost
+   */
+  recordMessagesSent(responses: SendSmsResponse[]): void {
+    for (const response of responses) {
+      const attributes = { 'msgine.channel': response.channel };
+      this.messagesSent?.add(
+        Array.isArray(response.to) ? response.to.length : 1,
+        attributes
+      );
+      if (typeof response.cost === 'number') {
+        this.messageCost?.record(response.cost, {
+          ...attributes,
+          'msgine.currency': response.currency,
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Low-cardinality error type for span attributes and metrics
+ */
+function errorTypeOf(error: unknown): string {
+  if (error instanceof MsGineError) {
+    return error.code ?? String(error.statusCode);
+  }
+  return error instanceof Error ? error.name : 'unknown';
+}
+
+/**
+ * Host name of the API base URL, for the `server.address` attribute
+ */
+function hostnameOf(baseUrl?: string): string | undefined {
+  try {
+    return baseUrl ? new URL(baseUrl).hostname : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,143 @@
+import { describe, it, expect, vi } from 'vitest';
+import { MsGineClient, MsGineValidationError } from '../src';
+
+describe('Templates', () => {
+  const createClient = (mockFetch = vi.fn()) =>
+    new MsGineClient({
+      apiToken: 'test-token',
+      fetch: mockFetch as unknown as typeof fetch,
+      templates: {
+        otp: 'Your code is {{code}}. It expires in {{ minutes }} minutes.',
+        welcome: { body: 'Welcome {{name}}! {{details}}', maxSegments: 1 },
+        quote: { body: 'It’s “ready”', transliterate: true },
+      },
+    });
+
+  const issuesOf = (fn: () => unknown) => {
+    try {
+      fn();
+    } catch (error) {
+      expect(error).toBeInstanceOf(MsGineValidationError);
+      return (error as MsGineValidationError).errors.issues;
+    }
+    throw new Error('Expected render to fail');
+  };
+
+  it('should render templates with variables', () => {
+    const client = createClient();
+
+    const { text, analysis } = client.templates.render('otp', {
+      code: '123456',
+      minutes: 10,
+    });
+
+    expect(text).toBe('Your code is 123456. It expires in 10 minutes.');
+    expect(analysis).toMatchObject({ encoding: 'GSM-7', segments: 1 });
+  });
+
+  it('should reject missing and unused variables', () => {
+    const client = createClient();
+
+    expect(
+      issuesOf(() => client.templates.render('otp', { code: 1, extra: 'x' }))
+    ).toMatchObject([
+      {
+        path: ['vars', 'minutes'],
+        message: 'Missing template variable "minutes"',
+      },
+      { path: ['vars', 'extra'], message: 'Unused template variable "extra"' },
+    ]);
+  });
+
+  it('should reject unknown templates', () => {
+    expect(
+      issuesOf(() => createClient().templates.render('missing'))
+    ).toMatchObject([
+      { path: ['name'], message: 'Unknown template "missing"' },
+    ]);
+  });
+
+  it('should enforce the segment limit', () => {
+    const client = createClient();
+
+    expect(
+      issuesOf(() =>
+        client.templates.render('welcome', {
+          name: 'Alice',
+          details: 'a'.repeat(160),
+        })
+      )
+    ).toMatchObject([
+      {
+        message: 'Rendered template takes 2 segments, more than the allowed 1',
+      },
+    ]);
+  });
+
+  it('should transliterate when configured', () => {
+    expect(createClient().templates.render('quote').text).toBe('It\'s "ready"');
+  });
+
+  it('should send rendered templates', async () => {
+    const mockFetch = vi.fn().mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      headers: new Headers({ 'content-type': 'application/json' }),
+      json: () =>
+        Promise.resolve({
+          id: 'msg_123',
+          sid: null,
+          channel: 'sms',
+          to: ['+256701521269'],
+          from: 'MsGine',
+          content: 'Your code is 123456. It expires in 5 minutes.',
+          status: 'pending',
+          cost: 30,
+          currency: 'UGX',
+          createdAt: '2024-01-01T00:00:00Z',
+        }),
+    });
+
+    const client = createClient(mockFetch);
+    await client.sendTemplate('otp', {
+      to: '+256701521269',
+      vars: { code: '123456', minutes: 5 },
+      clientReference: 'login-1',
+    });
+
+    const [, options] = mockFetch.mock.calls[0] as [string, RequestInit];
+    expect(JSON.parse(options.body as string)).toEqual({
+      to: '+256701521269',
+      message: 'Your code is 123456. It expires in 5 minutes.',
+      clientReference: 'login-1',
+    });
+  });
+
+  it('should load templates from the API', async () => {
+    const mockFetch = vi.fn().mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      headers: new Headers({ 'content-type': 'application/json' }),
+      json: () =>
+        Promise.resolve({
+          data: [{ name: 'remote', body: 'Hello {{name}}' }],
+          meta: { hasMore: false },
+        }),
+    });
+
+    const client = createClient(mockFetch);
+    await client.templates.load();
+
+    const [url] = mockFetch.mock.calls[0] as [string, RequestInit];
+    expect(url).toContain('/templates');
+    expect(client.templates.render('remote', { name: 'Bob' }).text).toBe(
+      'Hello Bob'
+    );
+  });
+
+  it('should validate registered templates', () => {
+    expect(() => createClient().templates.register('empty', '')).toThrow(
+      MsGineValidationError
+    );
+  });
+});
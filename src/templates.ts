@@ -0,0 +1,208 @@
+import { z } from 'zod';
+import { Paginator } from './pagination';
+import { ResponseValidator } from './responses';
+import { analyzeMessage } from './segments';
+import {
+  CallOptions,
+  HttpClient,
+  HttpMethod,
+  ListTemplatesResponseSchema,
+  MessageTemplate,
+  MessageTemplateSchema,
+  MsGineValidationError,
+  PaginationParams,
+  RenderedTemplate,
+  TemplateDefinition,
+  TemplateVariables,
+} from './types';
+import {
+  renderTemplate,
+  templatePlaceholders,
+  toCallOptions,
+  toQueryParams,
+} from './utils';
+
+/**
+ * Registry of message templates, rendered with checked variables
+ *
+ * Available as `client.templates`. Templates passed to the client's
+ * `templates` option are registered up front.
+ */
+export class Templates {
+  private readonly registry = new Map<string, MessageTemplate>();
+
+  constructor(
+    private readonly httpClient: HttpClient,
+    templates: Record<string, TemplateDefinition> = {},
+    private readonly responses: ResponseValidator = new ResponseValidator()
+  ) {
+    for (const [name, definition] of Object.entries(templates)) {
+      this.register(name, definition);
+    }
+  }
+
+  /**
+   * Register a template, replacing any template with the same name
+   *
+   * @param name - Template name
+   * @param definition - Template body, or body with render options
+   * @throws {MsGineValidationError} If the template is invalid
+   *
+   * @example
+   * ```typescript
+   * client.templates.register('otp', {
+   *   body: 'Your code is {{code}}. It expires in {{minutes}} minutes.',
+   *   maxSegments: 1,
+   * });
+   * ```
+   */
+  register(name: string, definition: TemplateDefinition): void {
+    const validation = MessageTemplateSchema.safeParse(
+      typeof definition === 'string'
+        ? { name, body: definition }
+        : { ...definition, name }
+    );
+
+    if (!validation.success) {
+      throw new MsGineValidationError('Invalid template', validation.error);
+    }
+
+    this.registry.set(name, validation.data);
+  }
+
+  /**
+   * Get a registered template
+   *
+   * @param name - Template name
+   * @returns The template, or `undefined` if none is registered
+   */
+  get(name: string): MessageTemplate | undefined {
+    return this.registry.get(name);
+  }
+
+  /**
+   * List registered templates
+   */
+  list(): MessageTemplate[] {
+    return [...this.registry.values()];
+  }
+
+  /**
+   * Fetch every template from the templates endpoint and register it,
+   * replacing local templates with the same name
+   *
+   * @param options - Request options
+   * @returns Promise resolving to the fetched templates
+   * @throws {MsGineValidationError} If the response is invalid
+   * @throws {MsGineError} If the API request fails
+   */
+  async load(options: CallOptions = {}): Promise<MessageTemplate[]> {
+    const templates = await new Paginator(
+      (params) => this.fetchPage(params, options),
+      {},
+      { signal: options.signal }
+    ).toArray();
+
+    for (const template of templates) {
+      this.registry.set(template.name, template);
+    }
+
+    return templates;
+  }
+
+  /**
+   * Render a template, checking that every placeholder has a variable,
+   * that no variable is unused, and that the result fits the template's
+   * segment limit
+   *
+   * @param name - Template name
+   * @param vars - Values for the template's placeholders
+   * @returns The rendered text and its segment breakdown
+   * @throws {MsGineValidationError} If the template is unknown, variables
+   * are missing or unused, or the result is too long
+   *
+   * @example
+   * ```typescript
+   * const { text, analysis } = client.templates.render('otp', {
+   *   code: '123456',
+   *   minutes: 10,
+   * });
+   * ```
+   */
+  render(name: string, vars: TemplateVariables = {}): RenderedTemplate {
+    const template = this.registry.get(name);
+
+    if (!template) {
+      throw renderError([
+        { path: ['name'], message: `Unknown template "${name}"` },
+      ]);
+    }
+
+    const placeholders = templatePlaceholders(template.body);
+    const issues = [
+      ...placeholders
+        .filter((placeholder) => vars[placeholder] === undefined)
+        .map((placeholder) => ({
+          path: ['vars', placeholder],
+          message: `Missing template variable "${placeholder}"`,
+        })),
+      ...Object.keys(vars)
+        .filter((key) => !placeholders.includes(key))
+        .map((key) => ({
+          path: ['vars', key],
+          message: `Unused template variable "${key}"`,
+        })),
+    ];
+
+    if (issues.length > 0) {
+      throw renderError(issues);
+    }
+
+    const analysis = analyzeMessage(renderTemplate(template.body, vars), {
+      transliterate: template.transliterate,
+    });
+
+    if (
+      template.maxSegments !== undefined &&
+      analysis.segments > template.maxSegments
+    ) {
+      throw renderError([
+        {
+          path: [],
+          message: `Rendered template takes ${analysis.segments} segments, more than the allowed ${template.maxSegments}`,
+        },
+      ]);
+    }
+
+    return { text: analysis.text, analysis };
+  }
+
+  private async fetchPage(params: PaginationParams, options: CallOptions) {
+    const response = await this.httpClient.request<unknown>({
+      ...toCallOptions(options),
+      method: HttpMethod.GET,
+      path: '/templates',
+      queryParams: toQueryParams(params),
+    });
+
+    return this.responses.parseEnvelope(
+      ListTemplatesResponseSchema,
+      response,
+      'template list'
+    );
+  }
+}
+
+/**
+ * Build the error thrown when a template cannot be rendered
+ */
+function renderError(
+  issues: { path: (string | number)[]; message: string }[]
+): MsGineValidationError {
+  return new MsGineValidationError(
+    'Invalid template render',
+    new z.ZodError(
+      issues.map((issue) => ({ code: z.ZodIssueCode.custom, ...issue }))
+    )
+  );
+}
@@ -0,0 +1,27 @@
+import { MsGineClient } from './client';
+import { MockMsGineApi } from './mock-api';
+import { MsGineClientConfig } from './types';
+
+/**
+ * Create a client sending every request to a mock API, for tests
+ *
+ * Numbers in national format are read as Ugandan, and retries wait a few
+ * milliseconds. Pass `sandbox` to use a mock API set up by the test.
+ *
+ * @param config - Client configuration overriding the defaults
+ * @returns The mock API and the client
+ */
+export function createSandbox(config: Partial<MsGineClientConfig> = {}) {
+  const api = config.sandbox ?? new MockMsGineApi();
+
+  return {
+    api,
+    client: new MsGineClient({
+      apiToken: 'test-token',
+      defaultCountry: 'UG',
+      retry: { initialDelay: 1, maxDelay: 5 },
+      ...config,
+      sandbox: api,
+    }),
+  };
+}
@@ -0,0 +1,338 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  getResponseMeta,
+  Messages,
+  MessageStatus,
+  MsGineClient,
+  MsGineAuthenticationError,
+  MsGineConflictError,
+  MsGineNetworkError,
+  MsGineNotFoundError,
+  MsGineRateLimitError,
+  MsGineTimeoutError,
+} from '../src';
+import {
+  createMockServer,
+  FakeHttpClient,
+  MockMsGineApi,
+  MockServer,
+} from '../src/testing';
+import { createSandbox } from '../src/test-helpers';
+
+describe('testing', () => {
+  describe('sandbox', () => {
+    it('should route sends to the mock API', async () => {
+      const { api, client } = createSandbox();
+
+      const result = await client.sendSms({
+        to: '0701 521 269',
+        message: 'Hello',
+      });
+
+      expect(result).toMatchObject({
+        to: ['+256701521269'],
+        content: 'Hello',
+        status: MessageStatus.PENDING,
+        cost: 30,
+      });
+      expect(getResponseMeta(result)?.requestId).toMatch(/^req_/);
+      expect(api.messages).toHaveLength(1);
+      api.expectSmsSent({ to: '+256 701 521 269', message: 'Hello' });
+    });
+
+    it('should expose the mock API on the client', async () => {
+      const { api, client } = createSandbox();
+
+      await client.sendSms({ to: '+256701521269', message: 'Hello' });
+
+      expect(client.sandbox).toBe(api);
+      client.sandbox?.expectSmsSent({ to: '+256701521269' }, { times: 1 });
+    });
+
+    it('should render per-recipient template variables', async () => {
+      const { api, client } = createSandbox();
+
+      await client.sendSms({
+        to: [
+          { to: '+256701521269', variables: { name: 'Alice' } },
+          '+256701521270',
+        ],
+        message: 'Hi {{name}}',
+        variables: { name: 'there' },
+      });
+
+      api.expectSmsSent({ to: '+256701521269', message: 'Hi Alice' });
+      api.expectSmsSent({ to: '+256701521270', message: 'Hi there' });
+    });
+
+    it('should retry scripted server errors', async () => {
+      const { api, client } = createSandbox();
+      api.failNext(503, { times: 2, path: '/messages/sms' });
+
+      await client.sendSms({ to: '+256701521269', message: 'Hello' });
+
+      expect(api.requests).toHaveLength(3);
+      api.expectSmsSent({ to: '+256701521269' }, { times: 1 });
+    });
+
+    it('should script rate limits and timeouts', async () => {
+      const api = new MockMsGineApi();
+      const client = new MsGineClient({
+        apiToken: 'test-token',
+        sandbox: api,
+        timeout: 10,
+        retry: { maxRetries: 0 },
+      });
+      const send = () =>
+        client
+          .sendSms({ to: '+256701521269', message: 'Hello' })
+          .catch((e: unknown) => e);
+
+      api.failNext({ status: 429, retryAfter: 2 });
+      const rateLimited = await send();
+      expect(rateLimited).toBeInstanceOf(MsGineRateLimitError);
+      expect(rateLimited).toMatchObject({ retryAfter: 2000 });
+
+      api.failNext('timeout');
+      expect(await send()).toBeInstanceOf(MsGineTimeoutError);
+
+      api.expectNoSmsSent();
+    });
+
+    it('should replay requests with the same idempotency key', async () => {
+      const { api, client } = createSandbox();
+
+      const first = await client.sendSms(
+        { to: '+256701521269', message: 'Hello' },
+        { idempotencyKey: 'key-1' }
+      );
+      const second = await client.sendSms(
+        { to: '+256701521269', message: 'Hello' },
+        { idempotencyKey: 'key-1' }
+      );
+
+      expect(second.id).toBe(first.id);
+      expect(api.messages).toHaveLength(1);
+    });
+
+    it('should reject requests with the wrong token', async () => {
+      const api = new MockMsGineApi({ apiToken: 'secret' });
+      const client = new MsGineClient({ apiToken: 'wrong', sandbox: api });
+
+      await expect(client.getMessage('msg_1')).rejects.toMatchObject({
+        statusCode: 401,
+      });
+    });
+  });
+
+  describe('delivery progression', () => {
+    it('should advance messages to delivered or failed', async () => {
+      const { api, client } = createSandbox({
+        sandbox: new MockMsGineApi({ undeliverable: ['+256701521270'] }),
+      });
+
+      const delivered = await client.sendSms({
+        to: '+256701521269',
+        message: 'Hello',
+      });
+      const failed = await client.sendSms({
+        to: '+256701521270',
+        message: 'Hello',
+      });
+
+      api.advance();
+      expect((await client.getMessage(delivered.id)).status).toBe(
+        MessageStatus.SENT
+      );
+
+      api.advance();
+      expect((await client.getMessage(delivered.id)).status).toBe(
+        MessageStatus.DELIVERED
+      );
+      expect((await client.getMessage(failed.id)).status).toBe(
+        MessageStatus.FAILED
+      );
+    });
+
+    it('should advance on each lookup with autoAdvance', async () => {
+      const { client } = createSandbox({
+        sandbox: new MockMsGineApi({ autoAdvance: true }),
+      });
+      const { id } = await client.sendSms({
+        to: '+256701521269',
+        message: 'Hello',
+      });
+
+      const statuses = [];
+      for (let i = 0; i < 3; i++) {
+        statuses.push((await client.getMessage(id)).status);
+      }
+
+      expect(statuses).toEqual([
+        MessageStatus.SENT,
+        MessageStatus.DELIVERED,
+        MessageStatus.DELIVERED,
+      ]);
+    });
+
+    it('should list, cancel and reschedule scheduled messages', async () => {
+      const { api, client } = createSandbox();
+      const sendAt = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+
+      const scheduled = await client.sendSms({
+        to: '+256701521269',
+        message: 'Later',
+        sendAt,
+      });
+      await client.sendSms({ to: '+256701521270', message: 'Now' });
+
+      const page = await client.listMessages({
+        status: MessageStatus.SCHEDULED,
+      });
+      expect(page.data.map((message) => message.id)).toEqual([scheduled.id]);
+
+      const later = new Date(Date.now() + 2 * 60 * 60 * 1000).toISOString();
+      const rescheduled = await client.rescheduleMessage(scheduled.id, later);
+      expect(rescheduled.sendAt).toBe(later);
+
+      const cancelled = await client.cancelMessage(scheduled.id);
+      expect(cancelled.status).toBe(MessageStatus.CANCELLED);
+      await expect(client.cancelMessage(scheduled.id)).rejects.toThrow(
+        MsGineConflictError
+      );
+      expect(api.messages).toHaveLength(2);
+    });
+  });
+
+  describe('assertions', () => {
+    it('should describe what was sent when an expectation fails', async () => {
+      const { api, client } = createSandbox();
+      await client.sendSms({ to: '+256701521269', message: 'Hello' });
+
+      expect(() => api.expectSmsSent({ to: '+256701521270' })).toThrow(
+        'Expected at least 1 SMS matching { to: "+256701521270" }, found 0. Sent: +256701521269: "Hello"'
+      );
+      expect(() =>
+        api.expectSmsSent({ message: /hello/i }, { times: 2 })
+      ).toThrow('Expected 2 SMS');
+      expect(() => api.expectNoSmsSent({ message: 'Hello' })).toThrow(
+        'Expected no SMS'
+      );
+      expect(() => api.expectNoSmsSent({ message: 'Bye' })).not.toThrow();
+    });
+
+    it('should forget everything on reset', async () => {
+      const { api, client } = createSandbox();
+      await client.sendSms({ to: '+256701521269', message: 'Hello' });
+      api.failNext(500);
+
+      api.reset();
+
+      expect(api.messages).toEqual([]);
+      expect(api.requests).toEqual([]);
+      await client.sendSms({ to: '+256701521269', message: 'Hello' });
+      expect(api.requests).toHaveLength(1);
+    });
+  });
+
+  describe('FakeHttpClient', () => {
+    it('should serve resources from the mock API', async () => {
+      const api = new MockMsGineApi();
+      const messages = new Messages(new FakeHttpClient(api));
+
+      await expect(messages.get('msg_missing')).rejects.toThrow(
+        MsGineNotFoundError
+      );
+
+      const client = new MsGineClient({ apiToken: 'test', sandbox: api });
+      const { id } = await client.sendSms({
+        to: '+256701521269',
+        message: 'Hello',
+      });
+
+      await expect(messages.get(id)).resolves.toMatchObject({ id });
+    });
+
+    it('should throw scripted failures as SDK errors', async () => {
+      const api = new MockMsGineApi();
+      const messages = new Messages(new FakeHttpClient(api));
+
+      api.failNext('network');
+      await expect(messages.listPage()).rejects.toThrow(MsGineNetworkError);
+
+      api.failNext('timeout');
+      await expect(messages.listPage()).rejects.toThrow(MsGineTimeoutError);
+    });
+
+    it('should send the API token', async () => {
+      const api = new MockMsGineApi({ apiToken: 'secret' });
+
+      await expect(
+        new Messages(new FakeHttpClient(api)).listPage()
+      ).rejects.toThrow(MsGineAuthenticationError);
+      await expect(
+        new Messages(new FakeHttpClient(api, 'secret')).listPage()
+      ).resolves.toMatchObject({ data: [] });
+    });
+  });
+
+  describe('createMockServer', () => {
+    let server: MockServer | undefined;
+
+    afterEach(async () => {
+      await server?.close();
+      server = undefined;
+    });
+
+    it('should serve the API over HTTP', async () => {
+      server = await createMockServer({ apiToken: 'test-token' });
+      const client = new MsGineClient({
+        apiToken: 'test-token',
+        baseUrl: server.url,
+      });
+
+      const result = await client.sendSms({
+        to: '+256701521269',
+        message: 'Hello',
+      });
+
+      expect(getResponseMeta(result)?.status).toBe(200);
+      await expect(client.getMessage(result.id)).resolves.toMatchObject({
+        id: result.id,
+      });
+      server.api.expectSmsSent({ to: '+256701521269', message: 'Hello' });
+    });
+
+    it('should drop connections and hold requests open', async () => {
+      server = await createMockServer();
+      const client = new MsGineClient({
+        apiToken: 'test-token',
+        baseUrl: server.url,
+        timeout: 50,
+        retry: { maxRetries: 0 },
+      });
+      const send = () =>
+        client
+          .sendSms({ to: '+256701521269', message: 'Hello' })
+          .catch((e: unknown) => e);
+
+      server.api.failNext('network');
+      expect(await send()).toBeInstanceOf(MsGineNetworkError);
+
+      server.api.failNext('timeout');
+      expect(await send()).toBeInstanceOf(MsGineTimeoutError);
+    });
+
+    it('should answer 500 when the mock API throws', async () => {
+      server = await createMockServer();
+      vi.spyOn(server.api, 'handle').mockRejectedValue(new Error('Broken'));
+
+      const response = await fetch(`${server.url}/messages`);
+
+      expect(response.status).toBe(500);
+      await expect(response.json()).resolves.toEqual({
+        error: { code: 'INTERNAL_ERROR', message: 'Broken' },
+      });
+    });
+  });
+});
@@ -0,0 +1,22 @@
+/**
+ * Test helpers for code built on the MsGine SDK: an in-memory mock of the
+ * API, an `HttpClient` backed by it and a local mock server
+ *
+ * @packageDocumentation
+ */
+
+export { MockMsGineApi, FakeHttpClient } from './mock-api';
+export type {
+  MockApiOptions,
+  MockRequest,
+  MockResult,
+  MockFailure,
+  MockHttpFailure,
+  MockFailureOptions,
+  MockInboundSms,
+  SentSms,
+  SmsMatcher,
+} from './mock-api';
+
+export { createMockServer } from './mock-server';
+export type { MockServer, MockServerOptions } from './mock-server';
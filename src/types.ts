@@ -1,4 +1,12 @@
 import { z } from 'zod';
+import type { MockMsGineApi } from './mock-api';
+import type { MessageAnalysis, PricingTable } from './segments';
+import { isValidTimeZone, resolveSendAt, templatePlaceholders } from './utils';
+import {
+  CountryCode,
+  createPhoneNumberSchema,
+  PhoneNumberOptions,
+} from './phone';
 
 /**
  * Configuration options for the MsGine client
@@ -31,95 +39,2009 @@ export interface MsGineClientConfig {
    * Retry configuration
    */
   retry?: RetryConfig;
+
+  /**
+   * Maximum number of HTTP requests in flight at once. Further requests
+   * wait in a queue.
+   * @default Infinity
+   */
+  concurrency?: number;
+
+  /**
+   * Client-side rate limit applied to every HTTP request, including retries
+   */
+  rateLimit?: RateLimitConfig;
+
+  /**
+   * Called whenever a request had to wait for a concurrency slot or a rate
+   * limit token before being sent
+   */
+  onThrottle?: (event: ThrottleEvent) => void;
+
+  /**
+   * Middleware run around every request attempt, in order
+   */
+  middleware?: Middleware[];
+
+  /**
+   * Logger receiving structured records for every request attempt, retry,
+   * timeout and response. Compatible with pino and similar loggers.
+   */
+  logger?: Logger;
+
+  /**
+   * Minimum level of records sent to the logger
+   * @default 'info'
+   */
+  logLevel?: LogLevel;
+
+  /**
+   * Redaction applied to logged requests
+   */
+  redact?: RedactConfig;
+
+  /**
+   * OpenTelemetry tracer and meter used to instrument requests
+   */
+  telemetry?: TelemetryConfig;
+
+  /**
+   * Country used to interpret recipient numbers written in national format,
+   * such as `0701 521 269`. Without it, recipients must include a country
+   * calling code.
+   */
+  defaultCountry?: CountryCode;
+
+  /**
+   * Message templates to register, by name. Their placeholders type the
+   * variables accepted by `sendTemplate`.
+   */
+  templates?: Record<string, TemplateDefinition>;
+
+  /**
+   * One-time code verification settings for `client.verify`
+   */
+  verify?: VerifyConfig;
+
+  /**
+   * STOP, START and HELP keyword handling for `client.keywords`
+   */
+  keywords?: KeywordConfig;
+
+  /**
+   * Check recipients against the suppression list before sending.
+   * `filter` leaves suppressed recipients out and reports them in
+   * `response.skipped`; `reject` refuses the whole send with an
+   * `MsGineSuppressionError`. Recipients are not checked when omitted.
+   */
+  respectSuppression?: RespectSuppressionMode;
+
+  /**
+   * How long suppression lookups are cached locally, in milliseconds.
+   * Lookups are not cached when omitted.
+   */
+  suppressionCacheTtl?: number;
+
+  /**
+   * How API responses are checked against their schemas: `strict` throws
+   * an `MsGineValidationError` on a mismatch, `warn` logs it and returns
+   * the response as received, and `off` skips validation
+   * @default 'strict'
+   */
+  responseValidation?: ResponseValidationMode;
+
+  /**
+   * Send every request to an in-memory mock of the API instead of MsGine.
+   * Pass a `MockMsGineApi` from `@msgine/sdk/testing`, which scripts
+   * failures and makes assertions. The mock is only loaded by the testing
+   * entry point, so it stays out of production bundles.
+   */
+  sandbox?: MockMsGineApi;
+}
+
+/**
+ * How API responses are validated
+ */
+export type ResponseValidationMode = 'strict' | 'warn' | 'off';
+
+/**
+ * Metadata of the response an API result was parsed from, available
+ * through `getResponseMeta()` or the non-enumerable `$meta` property
+ */
+export interface ResponseMeta {
+  /**
+   * Request ID assigned by the API, useful when contacting support
+   */
+  requestId?: string;
+
+  /**
+   * Time the API handled the request
+   */
+  timestamp?: string;
+
+  /**
+   * HTTP status code
+   */
+  status?: number;
+
+  /**
+   * Response headers
+   */
+  headers?: Headers;
+}
+
+/**
+ * Attribute values accepted by spans and metric instruments
+ */
+export type TelemetryAttributes = Record<
+  string,
+  string | number | boolean | undefined
+>;
+
+/**
+ * Subset of the `@opentelemetry/api` `Span` interface used by the SDK
+ */
+export interface TelemetrySpan {
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  addEvent(name: string, attributes?: TelemetryAttributes): unknown;
+  recordException(exception: Error): void;
+  setStatus(status: { code: number; message?: string }): unknown;
+  end(): void;
+}
+
+/**
+ * Subset of the `@opentelemetry/api` `Tracer` interface used by the SDK
+ */
+export interface TelemetryTracer {
+  startSpan(
+    name: string,
+    options?: { kind?: number; attributes?: TelemetryAttributes }
+  ): TelemetrySpan;
+}
+
+/**
+ * Subset of the `@opentelemetry/api` `Counter` interface used by the SDK
+ */
+export interface TelemetryCounter {
+  add(value: number, attributes?: TelemetryAttributes): void;
+}
+
+/**
+ * Subset of the `@opentelemetry/api` `Histogram` interface used by the SDK
+ */
+export interface TelemetryHistogram {
+  record(value: number, attributes?: TelemetryAttributes): void;
+}
+
+/**
+ * Subset of the `@opentelemetry/api` `Meter` interface used by the SDK
+ */
+export interface TelemetryMeter {
+  createCounter(
+    name: string,
+    options?: { description?: string; unit?: string }
+  ): TelemetryCounter;
+  createHistogram(
+    name: string,
+    options?: { description?: string; unit?: string }
+  ): TelemetryHistogram;
+}
+
+/**
+ * OpenTelemetry instrumentation options
+ *
+ * @example
+ * ```typescript
+ * import { metrics, trace } from '@opentelemetry/api';
+ *
+ * const client = new MsGineClient({
+ *   apiToken,
+ *   telemetry: {
+ *     tracer: trace.getTracer('@msgine/sdk'),
+ *     meter: metrics.getMeter('@msgine/sdk'),
+ *   },
+ * });
+ * ```
+ */
+export interface TelemetryConfig {
+  /**
+   * Tracer used to create a client span per request
+   */
+  tracer?: TelemetryTracer;
+
+  /**
+   * Meter used to record request and message metrics
+   */
+  meter?: TelemetryMeter;
+}
+
+/**
+ * Log levels, from most to least verbose
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+/**
+ * Structured logger interface, matching pino's `(fields, message)` call
+ * signature
+ */
+export interface Logger {
+  debug(fields: Record<string, unknown>, message?: string): void;
+  info(fields: Record<string, unknown>, message?: string): void;
+  warn(fields: Record<string, unknown>, message?: string): void;
+  error(fields: Record<string, unknown>, message?: string): void;
+}
+
+/**
+ * Redaction applied to logged requests
+ */
+export interface RedactConfig {
+  /**
+   * Header names (case-insensitive) whose values are replaced
+   * @default ['authorization']
+   */
+  headers?: string[];
+
+  /**
+   * Mask phone numbers in `to`/`from` fields, keeping the prefix and last
+   * two digits
+   * @default true
+   */
+  phoneNumbers?: boolean;
+
+  /**
+   * Replace message contents and template variable values
+   * @default true
+   */
+  messageBodies?: boolean;
+}
+
+/**
+ * Context shared by the middleware hooks of a single request attempt
+ */
+export interface MiddlewareContext {
+  /**
+   * Request options for this attempt. Mutate or replace them in `onRequest`
+   * to rewrite the request.
+   */
+  options: RequestOptions & { headers: Record<string, string> };
+
+  /**
+   * 1-based attempt number, incremented on every retry
+   */
+  readonly attempt: number;
+
+  /**
+   * Scratch space for passing data between the hooks of one attempt
+   */
+  readonly state: Record<string, unknown>;
+}
+
+/**
+ * Response supplied by middleware instead of one from the API
+ */
+export interface MiddlewareResponse {
+  response: unknown;
+}
+
+/**
+ * Request/response middleware
+ *
+ * `onRequest` hooks run in order before the request is sent; returning a
+ * response skips the remaining hooks and the HTTP request. `onResponse`
+ * and `onError` hooks run in reverse order afterwards.
+ *
+ * @example
+ * ```typescript
+ * const tenantHeader: Middleware = {
+ *   onRequest: (context) => {
+ *     context.options.headers['X-Tenant-Id'] = tenantId;
+ *   },
+ * };
+ * ```
+ */
+export interface Middleware {
+  /**
+   * Inspect or rewrite a request before it is sent, or return a response
+   * to short-circuit it
+   */
+  onRequest?: (
+    context: MiddlewareContext
+  ) => void | MiddlewareResponse | Promise<void | MiddlewareResponse>;
+
+  /**
+   * Inspect a successful response. Returning a value other than
+   * `undefined` replaces the response.
+   */
+  onResponse?: (context: MiddlewareContext, response: unknown) => unknown;
+
+  /**
+   * Inspect a failed attempt. Returning a response recovers from the
+   * error; throwing replaces it. Unrecovered errors go on to the retry
+   * logic.
+   */
+  onError?: (
+    context: MiddlewareContext,
+    error: unknown
+  ) => void | MiddlewareResponse | Promise<void | MiddlewareResponse>;
+}
+
+/**
+ * Token-bucket rate limit configuration
+ */
+export interface RateLimitConfig {
+  /**
+   * Sustained number of requests allowed per second
+   */
+  requestsPerSecond: number;
+
+  /**
+   * Maximum number of requests that can be sent at once after an idle period
+   * @default requestsPerSecond
+   */
+  burst?: number;
+}
+
+/**
+ * Details of a request that was delayed by the client-side limiter
+ */
+export interface ThrottleEvent {
+  /**
+   * Time the request spent queued, in milliseconds
+   */
+  waitMs: number;
+
+  /**
+   * Number of requests still waiting after this one was released
+   */
+  queueDepth: number;
+}
+
+/**
+ * Snapshot of the client-side limiter
+ */
+export interface LimiterStats {
+  /**
+   * Requests waiting to be sent
+   */
+  queueDepth: number;
+
+  /**
+   * Requests currently in flight
+   */
+  active: number;
+
+  /**
+   * Time the most recently released request spent queued, in milliseconds
+   */
+  lastWaitMs: number;
+
+  /**
+   * Longest time any request has spent queued, in milliseconds
+   */
+  maxWaitMs: number;
+}
+
+/**
+ * Retry configuration for failed requests
+ */
+export interface RetryConfig {
+  /**
+   * Maximum number of retry attempts
+   * @default 3
+   */
+  maxRetries?: number;
+
+  /**
+   * Initial retry delay in milliseconds
+   * @default 1000
+   */
+  initialDelay?: number;
+
+  /**
+   * Maximum retry delay in milliseconds
+   * @default 10000
+   */
+  maxDelay?: number;
+
+  /**
+   * Backoff multiplier
+   * @default 2
+   */
+  backoffMultiplier?: number;
+
+  /**
+   * HTTP status codes that should trigger a retry. Network errors are
+   * always retried.
+   * @default [408, 429, 500, 502, 503, 504]
+   */
+  retryableStatusCodes?: number[];
+
+  /**
+   * Randomization applied to the backoff delay so that many clients
+   * retrying at once do not all wake at the same moment
+   * - `none`: exact exponential backoff
+   * - `full`: random delay between 0 and the backoff
+   * - `equal`: half the backoff plus a random delay up to the other half
+   * - `decorrelated`: random delay between `initialDelay` and three times
+   *   the previous delay
+   * @default 'full'
+   */
+  jitter?: JitterStrategy;
+
+  /**
+   * Wait for the delay given by the `Retry-After` or `X-RateLimit-Reset`
+   * response headers instead of the backoff, capped by `maxDelay`
+   * @default true
+   */
+  respectRetryAfter?: boolean;
+
+  /**
+   * Decide whether a failed attempt should be retried, replacing the
+   * `retryableStatusCodes` check. `attempt` is the 1-based number of the
+   * attempt that failed. Retries still stop after `maxRetries`.
+   */
+  shouldRetry?: (error: MsGineError, attempt: number) => boolean;
+
+  /**
+   * Called before waiting to retry. `attempt` is the 1-based number of the
+   * retry about to be made and `delay` the wait in milliseconds.
+   */
+  onRetry?: (attempt: number, error: MsGineError, delay: number) => void;
+}
+
+/**
+ * Backoff jitter strategy
+ */
+export type JitterStrategy = 'none' | 'full' | 'equal' | 'decorrelated';
+
+/**
+ * Values substituted into `{{name}}` placeholders of a message
+ */
+export const TemplateVariablesSchema = z.record(
+  z.union([z.string(), z.number()])
+);
+
+/**
+ * Type for template variables
+ */
+export type TemplateVariables = z.infer<typeof TemplateVariablesSchema>;
+
+/**
+ * Channel a message is delivered over
+ */
+export enum MessageChannel {
+  SMS = 'sms',
+  WHATSAPP = 'whatsapp',
+  /**
+   * Class 0 SMS shown immediately on screen and not stored by the handset
+   */
+  FLASH = 'flash',
+}
+
+/**
+ * Value of an enum returned by the API, or a value added to the API after
+ * this SDK version
+ */
+export type OpenEnum<T extends string> = T | (string & Record<never, never>);
+
+/**
+ * Schema accepting the values of an enum, and any other string, so that
+ * values the API adds later do not fail response validation
+ */
+export function openEnum<T extends Record<string, string>>(values: T) {
+  return z.union([z.nativeEnum(values), z.string()]) as unknown as z.ZodType<
+    OpenEnum<T[keyof T]>
+  >;
+}
+
+/**
+ * Delivery priority of a message
+ */
+export enum MessagePriority {
+  LOW = 'low',
+  NORMAL = 'normal',
+  HIGH = 'high',
+}
+
+/**
+ * Sender ID: up to 11 letters, digits and spaces including at least one
+ * letter, or a numeric sender of up to 15 digits
+ */
+export const SenderIdSchema = z
+  .string()
+  .min(1, 'Sender ID is required')
+  .refine(
+    (value) =>
+      /^(?=.*[A-Za-z])[A-Za-z0-9 ]{1,11}$/.test(value) ||
+      /^\+?\d{1,15}$/.test(value),
+    'Sender ID must be up to 11 letters, digits and spaces, or a number of up to 15 digits'
+  );
+
+/**
+ * Metadata echoed back on the message and its webhooks
+ */
+export const MessageMetadataSchema = z
+  .record(z.string().max(500, 'Metadata values cannot exceed 500 characters'))
+  .refine(
+    (metadata) => Object.keys(metadata).length <= 20,
+    'Metadata cannot have more than 20 keys'
+  );
+
+/**
+ * Message options shared by send payloads and message responses
+ */
+const MessageOptionsSchema = z.object({
+  /**
+   * Sender ID shown to the recipient
+   */
+  from: SenderIdSchema.optional(),
+
+  /**
+   * Delivery channel
+   * @default MessageChannel.SMS
+   */
+  channel: z.nativeEnum(MessageChannel).optional(),
+
+  /**
+   * URL delivery reports for this message are posted to
+   */
+  callbackUrl: z
+    .string()
+    .url('Callback URL must be a valid URL')
+    .refine(
+      (url) => /^https?:\/\//i.test(url),
+      'Callback URL must use http or https'
+    )
+    .optional(),
+
+  /**
+   * Validity period in seconds, after which undelivered messages expire
+   */
+  ttl: z
+    .number()
+    .int()
+    .min(60, 'TTL must be at least 60 seconds')
+    .max(7 * 24 * 60 * 60, 'TTL cannot exceed 7 days')
+    .optional(),
+
+  /**
+   * Delivery priority
+   */
+  priority: z.nativeEnum(MessagePriority).optional(),
+
+  /**
+   * Your own reference for the message, echoed back
+   */
+  clientReference: z
+    .string()
+    .min(1)
+    .max(128, 'Client reference cannot exceed 128 characters')
+    .optional(),
+
+  /**
+   * String key-value pairs echoed back on the message
+   */
+  metadata: MessageMetadataSchema.optional(),
+});
+
+/**
+ * Type for message options
+ */
+export type MessageOptions = z.infer<typeof MessageOptionsSchema>;
+
+/**
+ * How far ahead a message can be scheduled
+ */
+const MAX_SCHEDULE_DAYS = 30;
+
+/**
+ * Scheduled send time: an ISO 8601 timestamp or a Date. Timestamps without
+ * a UTC offset are wall-clock time in the accompanying `timezone`.
+ */
+export const SendAtSchema = z.union([
+  z.string().datetime({ offset: true, local: true }),
+  z.date(),
+]);
+
+/**
+ * IANA time zone name, e.g. `Africa/Kampala`
+ */
+export const TimeZoneSchema = z
+  .string()
+  .refine(isValidTimeZone, 'Invalid IANA time zone');
+
+/**
+ * Check that a scheduled send time resolves to an instant within the
+ * scheduling window
+ */
+function refineSchedule(
+  schedule: { sendAt?: string | Date; timezone?: string },
+  ctx: z.RefinementCtx
+): void {
+  if (
+    schedule.sendAt === undefined ||
+    (schedule.timezone !== undefined && !isValidTimeZone(schedule.timezone))
+  ) {
+    return;
+  }
+
+  const sendAt = resolveSendAt(schedule.sendAt, schedule.timezone);
+
+  if (!sendAt) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'sendAt without a UTC offset requires a timezone',
+      path: ['sendAt'],
+    });
+    return;
+  }
+
+  const now = Date.now();
+
+  if (sendAt.getTime() <= now) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'sendAt must be in the future',
+      path: ['sendAt'],
+    });
+  } else if (sendAt.getTime() > now + MAX_SCHEDULE_DAYS * 24 * 60 * 60 * 1000) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `sendAt cannot be more than ${MAX_SCHEDULE_DAYS} days ahead`,
+      path: ['sendAt'],
+    });
+  }
+}
+
+/**
+ * Normalise a validated send time to a UTC ISO 8601 string
+ */
+function normalizeSendAt(sendAt: string | Date, timezone?: string): string {
+  return (resolveSendAt(sendAt, timezone) ?? new Date(sendAt)).toISOString();
+}
+
+/**
+ * Create an SMS message payload schema
+ *
+ * Recipients are normalised to E.164 and, when several are given,
+ * de-duplicated keeping the first occurrence. If any template variables are
+ * supplied, every recipient must have a value for each placeholder in the
+ * message. A scheduled `sendAt` must be in the future and is normalised to
+ * UTC.
+ *
+ * @param options - Phone number parsing options
+ */
+export function createSendSmsSchema(options: PhoneNumberOptions = {}) {
+  const phoneNumber = createPhoneNumberSchema(options);
+
+  return MessageOptionsSchema.extend({
+    to: z.union([
+      phoneNumber,
+      z
+        .array(
+          z.union([
+            phoneNumber,
+            z.object({
+              to: phoneNumber,
+              variables: TemplateVariablesSchema.optional(),
+            }),
+          ])
+        )
+        .min(1, 'At least one recipient is required'),
+    ]),
+    message: z
+      .string()
+      .min(1, 'Message is required')
+      .max(1600, 'Message too long'),
+    variables: TemplateVariablesSchema.optional(),
+    sendAt: SendAtSchema.optional(),
+    timezone: TimeZoneSchema.optional(),
+  })
+    .superRefine(refineSchedule)
+    .superRefine((payload, ctx) => {
+      const recipients = Array.isArray(payload.to) ? payload.to : [payload.to];
+      const hasVariables =
+        payload.variables !== undefined ||
+        recipients.some((r) => typeof r !== 'string' && r.variables);
+
+      if (!hasVariables) {
+        return;
+      }
+
+      const placeholders = templatePlaceholders(payload.message);
+
+      recipients.forEach((recipient, index) => {
+        const variables = {
+          ...payload.variables,
+          ...(typeof recipient === 'string' ? {} : recipient.variables),
+        };
+
+        for (const name of placeholders) {
+          if (variables[name] === undefined) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              message: `Missing template variable "${name}"`,
+              path: Array.isArray(payload.to)
+                ? ['to', index, 'variables', name]
+                : ['variables', name],
+            });
+          }
+        }
+      });
+    })
+    .transform((payload) => {
+      if (payload.sendAt !== undefined) {
+        payload = {
+          ...payload,
+          sendAt: normalizeSendAt(payload.sendAt, payload.timezone),
+        };
+      }
+
+      if (!Array.isArray(payload.to)) {
+        return payload;
+      }
+
+      const seen = new Set<string>();
+      const to = payload.to.filter((recipient) => {
+        const number = typeof recipient === 'string' ? recipient : recipient.to;
+        if (seen.has(number)) {
+          return false;
+        }
+        seen.add(number);
+        return true;
+      });
+
+      return { ...payload, to };
+    });
+}
+
+/**
+ * SMS message payload schema, accepting recipients in international format
+ */
+export const SendSmsSchema = createSendSmsSchema();
+
+/**
+ * Type for SMS message payload
+ */
+export type SendSmsPayload = z.input<typeof SendSmsSchema>;
+
+/**
+ * A recipient with its own template variables
+ */
+export interface SmsRecipient {
+  to: string;
+  variables?: TemplateVariables;
+}
+
+/**
+ * SMS payload addressed to the members of a contact group
+ */
+export type SendToGroupPayload = Omit<SendSmsPayload, 'to'> & {
+  /**
+   * ID of the group whose contacts receive the message
+   */
+  toGroup: string;
+};
+
+/**
+ * SMS delivery status
+ */
+export enum MessageStatus {
+  PENDING = 'pending',
+  SENT = 'sent',
+  DELIVERED = 'delivered',
+  FAILED = 'failed',
+  SCHEDULED = 'scheduled',
+  CANCELLED = 'cancelled',
+}
+
+/**
+ * Whether a message was sent by you or received from a customer
+ */
+export enum MessageDirection {
+  OUTBOUND = 'outbound',
+  INBOUND = 'inbound',
+}
+
+/**
+ * Message resource schema, used to validate message lookups
+ */
+export const MessageSchema = z.object({
+  id: z.string(),
+  sid: z.string().nullable(),
+  direction: z.literal(MessageDirection.OUTBOUND).optional(),
+  channel: openEnum(MessageChannel),
+  to: z.array(z.string()),
+  from: z.string(),
+  content: z.string(),
+  status: openEnum(MessageStatus),
+  cost: z.number(),
+  currency: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string().optional(),
+  sendAt: z.string().optional(),
+  timezone: z.string().optional(),
+  callbackUrl: z.string().optional(),
+  ttl: z.number().optional(),
+  priority: openEnum(MessagePriority).optional(),
+  clientReference: z.string().optional(),
+  metadata: z.record(z.string()).optional(),
+});
+
+/**
+ * Message resource as returned by the API
+ */
+export type Message = z.infer<typeof MessageSchema>;
+
+/**
+ * Outcome of a multi-recipient send for a single recipient
+ */
+export const SendSmsRecipientResultSchema = z.object({
+  /**
+   * Recipient phone number in E.164 format
+   */
+  to: z.string(),
+
+  /**
+   * ID of the message sent to this recipient
+   */
+  id: z.string(),
+
+  /**
+   * Delivery status for this recipient
+   */
+  status: openEnum(MessageStatus),
+
+  /**
+   * Why the message could not be sent to this recipient
+   */
+  error: z
+    .object({
+      code: z.string(),
+      message: z.string(),
+    })
+    .optional(),
+});
+
+/**
+ * Outcome of a multi-recipient send for a single recipient
+ */
+export type SendSmsRecipientResult = z.infer<
+  typeof SendSmsRecipientResultSchema
+>;
+
+/**
+ * Send response schema
+ */
+export const SendSmsResponseSchema = MessageSchema.extend({
+  /**
+   * Outcome for each recipient, in the order they were given. Set for
+   * multi-recipient sends.
+   */
+  recipients: z.array(SendSmsRecipientResultSchema).optional(),
+});
+
+/**
+ * Response from sending an SMS
+ */
+export type SendSmsResponse = z.infer<typeof SendSmsResponseSchema> & {
+  /**
+   * Recipients left out because they are suppressed, when
+   * `respectSuppression` is `filter`
+   */
+  skipped?: SkippedRecipient[];
+};
+
+/**
+ * Pagination parameters accepted by list endpoints
+ */
+export const PaginationParamsSchema = z.object({
+  limit: z.number().int().positive().optional(),
+  cursor: z.string().min(1).optional(),
+  page: z.number().int().positive().optional(),
+});
+
+/**
+ * Type for pagination parameters
+ */
+export type PaginationParams = z.infer<typeof PaginationParamsSchema>;
+
+/**
+ * Pagination metadata returned by list endpoints, either cursor-based
+ * (`nextCursor`) or page-based (`page`/`totalPages`)
+ */
+export const PaginationMetaSchema = z.object({
+  requestId: z.string().optional(),
+  timestamp: z.string().optional(),
+  nextCursor: z.string().nullable().optional(),
+  hasMore: z.boolean().optional(),
+  page: z.number().int().optional(),
+  totalPages: z.number().int().optional(),
+  total: z.number().int().optional(),
+});
+
+/**
+ * Type for pagination metadata
+ */
+export type PaginationMeta = z.infer<typeof PaginationMetaSchema>;
+
+/**
+ * Filters for listing messages
+ */
+export const ListMessagesParamsSchema = PaginationParamsSchema.extend({
+  status: z.nativeEnum(MessageStatus).optional(),
+  to: z.string().min(1).optional(),
+  from: z.string().min(1).optional(),
+  channel: z.string().min(1).optional(),
+  createdAfter: z.union([z.string().datetime(), z.date()]).optional(),
+  createdBefore: z.union([z.string().datetime(), z.date()]).optional(),
+});
+
+/**
+ * Type for message listing filters
+ */
+export type ListMessagesParams = z.infer<typeof ListMessagesParamsSchema>;
+
+/**
+ * Message listing response schema
+ */
+export const ListMessagesResponseSchema = z.object({
+  data: z.array(MessageSchema),
+  meta: PaginationMetaSchema.optional(),
+});
+
+/**
+ * Response from listing messages
+ */
+export type ListMessagesResponse = z.infer<typeof ListMessagesResponseSchema>;
+
+/**
+ * Inbound message schema
+ */
+export const InboundMessageSchema = z.object({
+  id: z.string(),
+  direction: z.literal(MessageDirection.INBOUND).optional(),
+  channel: openEnum(MessageChannel),
+
+  /**
+   * Customer number the message came from, in E.164 format
+   */
+  from: z.string(),
+
+  /**
+   * Your number or short code the message was sent to
+   */
+  to: z.string(),
+  content: z.string(),
+  receivedAt: z.string(),
+
+  /**
+   * ID of the outbound message this message answers, when known
+   */
+  inReplyTo: z.string().optional(),
+});
+
+/**
+ * Message received from a customer
+ */
+export type InboundMessage = z.infer<typeof InboundMessageSchema>;
+
+/**
+ * Inbound message listing parameters schema
+ */
+export const ListInboundMessagesParamsSchema = PaginationParamsSchema.extend({
+  from: z.string().min(1).optional(),
+  to: z.string().min(1).optional(),
+  receivedAfter: z.union([z.string().datetime(), z.date()]).optional(),
+  receivedBefore: z.union([z.string().datetime(), z.date()]).optional(),
+});
+
+/**
+ * Type for inbound message listing filters
+ */
+export type ListInboundMessagesParams = z.infer<
+  typeof ListInboundMessagesParamsSchema
+>;
+
+/**
+ * Inbound message listing response schema
+ */
+export const ListInboundMessagesResponseSchema = z.object({
+  data: z.array(InboundMessageSchema),
+  meta: PaginationMetaSchema.optional(),
+});
+
+/**
+ * Response from listing inbound messages
+ */
+export type ListInboundMessagesResponse = z.infer<
+  typeof ListInboundMessagesResponseSchema
+>;
+
+/**
+ * Conversation message schema: an outbound or inbound message,
+ * discriminated on `direction`
+ */
+export const ConversationMessageSchema = z.discriminatedUnion('direction', [
+  MessageSchema.extend({ direction: z.literal(MessageDirection.OUTBOUND) }),
+  InboundMessageSchema.extend({
+    direction: z.literal(MessageDirection.INBOUND),
+  }),
+]);
+
+/**
+ * Message exchanged with a customer, in either direction
+ */
+export type ConversationMessage = z.infer<typeof ConversationMessageSchema>;
+
+/**
+ * Conversation page response schema
+ */
+export const ConversationResponseSchema = z.object({
+  data: z.array(ConversationMessageSchema),
+  meta: PaginationMetaSchema.optional(),
+});
+
+/**
+ * Page of a conversation, oldest message first
+ */
+export type ConversationResponse = z.infer<typeof ConversationResponseSchema>;
+
+/**
+ * Reschedule request schema
+ */
+export const RescheduleMessageSchema = z
+  .object({
+    sendAt: SendAtSchema,
+    timezone: TimeZoneSchema.optional(),
+  })
+  .superRefine(refineSchedule)
+  .transform((schedule) => ({
+    ...schedule,
+    sendAt: normalizeSendAt(schedule.sendAt, schedule.timezone),
+  }));
+
+/**
+ * Options for rescheduling a message
+ */
+export interface RescheduleMessageOptions extends CallOptions {
+  /**
+   * IANA time zone for a `sendAt` without a UTC offset
+   */
+  timezone?: string;
+}
+
+/**
+ * Message template schema, for templates registered locally or fetched
+ * from the templates endpoint
+ */
+export const MessageTemplateSchema = z.object({
+  name: z.string().min(1, 'Template name is required'),
+  body: z
+    .string()
+    .min(1, 'Template body is required')
+    .max(1600, 'Template body too long'),
+  /**
+   * Reject renders that take more SMS segments than this
+   */
+  maxSegments: z.number().int().positive().optional(),
+  /**
+   * Replace smart quotes, dashes and similar characters with GSM
+   * equivalents when rendering
+   */
+  transliterate: z.boolean().optional(),
+});
+
+/**
+ * A message template
+ */
+export type MessageTemplate = z.infer<typeof MessageTemplateSchema>;
+
+/**
+ * Template definition: the body alone, or the body with render options
+ */
+export type TemplateDefinition = string | Omit<MessageTemplate, 'name'>;
+
+/**
+ * Template listing response schema
+ */
+export const ListTemplatesResponseSchema = z.object({
+  data: z.array(MessageTemplateSchema),
+  meta: PaginationMetaSchema.optional(),
+});
+
+/**
+ * Remove leading and trailing spaces from a string type
+ */
+type Trim<S extends string> = S extends ` ${infer Rest}`
+  ? Trim<Rest>
+  : S extends `${infer Rest} `
+    ? Trim<Rest>
+    : S;
+
+/**
+ * Names of the `{{name}}` placeholders in a template body
+ *
+ * @example
+ * ```typescript
+ * type Names = TemplatePlaceholders<'Hi {{name}}, your code is {{ code }}'>;
+ * // 'name' | 'code'
+ * ```
+ */
+export type TemplatePlaceholders<Body extends string> =
+  Body extends `${string}{{${infer Name}}}${infer Rest}`
+    ? Trim<Name> | TemplatePlaceholders<Rest>
+    : never;
+
+/**
+ * Body of a template definition
+ */
+export type TemplateBody<Definition> = Definition extends string
+  ? Definition
+  : Definition extends { body: infer Body extends string }
+    ? Body
+    : string;
+
+/**
+ * Variables required to render a template body. Bodies only known at
+ * runtime accept any variables.
+ */
+export type TemplateVars<Body extends string> = string extends Body
+  ? TemplateVariables
+  : Record<TemplatePlaceholders<Body>, string | number>;
+
+/**
+ * Parameters for sending a templated message
+ */
+export type SendTemplateParams<Body extends string = string> = Omit<
+  SendSmsPayload,
+  'to' | 'message' | 'variables'
+> & {
+  to: string | string[];
+} & ([TemplatePlaceholders<Body>] extends [never]
+    ? string extends Body
+      ? { vars?: TemplateVariables }
+      : { vars?: Record<string, never> }
+    : { vars: TemplateVars<Body> });
+
+/**
+ * Result of rendering a template
+ */
+export interface RenderedTemplate {
+  /**
+   * Rendered message text
+   */
+  text: string;
+
+  /**
+   * Encoding and segment breakdown of the rendered text
+   */
+  analysis: MessageAnalysis;
+}
+
+/**
+ * Options accepted by every client method that calls the API
+ */
+export interface CallOptions {
+  /**
+   * Signal that cancels the request, including any wait between retries.
+   * A cancelled request rejects with `MsGineCancelledError`.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Timeout for each attempt in milliseconds, overriding the client's
+   * `timeout`
+   */
+  timeout?: number;
+
+  /**
+   * Retry settings merged over the client's `retry` configuration
+   */
+  retry?: RetryConfig;
+
+  /**
+   * Extra headers sent with the request
+   */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Options for sending an SMS
+ */
+export interface SendSmsOptions extends CallOptions {
+  /**
+   * Key identifying this send, sent as the `Idempotency-Key` header on
+   * every attempt so retries are never delivered twice. Generated
+   * automatically when omitted.
+   */
+  idempotencyKey?: string;
+
+  /**
+   * Send to suppressed recipients despite `respectSuppression`, e.g. to
+   * confirm an opt-out
+   * @default false
+   */
+  ignoreSuppression?: boolean;
+}
+
+/**
+ * Options for sending a batch of SMS messages
+ */
+export interface SendSmsBatchOptions extends CallOptions {
+  /**
+   * Base idempotency key for the batch. Each bulk request and individual
+   * send derives its own key from it. Generated automatically when omitted.
+   */
+  idempotencyKey?: string;
+
+  /**
+   * Number of messages sent per bulk request or per round of individual sends
+   * @default 100
+   */
+  chunkSize?: number;
+
+  /**
+   * Use the server-side bulk endpoint. When the endpoint is unavailable the
+   * client falls back to individual sends for the rest of its lifetime.
+   * @default true
+   */
+  useBulkEndpoint?: boolean;
+
+  /**
+   * Estimate the cost of the batch and check it against the account
+   * balance before sending anything. The batch is refused with an
+   * `MsGineInsufficientBalanceError` if the balance does not cover it.
+   * @default false
+   */
+  checkBalance?: boolean;
+
+  /**
+   * Prices used for the balance check. Looked up for each destination
+   * country, or for each number outside the countries with bundled phone
+   * metadata, when omitted.
+   */
+  pricing?: PricingTable;
+}
+
+/**
+ * Outcome of a single message in a batch, in the same position as its payload
+ */
+export type SendSmsBatchResult =
+  | {
+      ok: true;
+      index: number;
+      response: SendSmsResponse;
+    }
+  | {
+      ok: false;
+      index: number;
+      payload: SendSmsPayload;
+      error: Error;
+    };
+
+/**
+ * Bulk send response schema, with one entry per submitted message
+ */
+export const BulkSendResponseSchema = z.object({
+  data: z.array(
+    z.object({
+      index: z.number().int().nonnegative(),
+      message: MessageSchema.optional(),
+      error: z
+        .object({
+          code: z.string(),
+          message: z.string(),
+          details: z.record(z.unknown()).optional(),
+        })
+        .optional(),
+    })
+  ),
+  meta: z
+    .object({
+      requestId: z.string().optional(),
+      timestamp: z.string().optional(),
+    })
+    .optional(),
+});
+
+/**
+ * Response from the bulk send endpoint
+ */
+export type BulkSendResponse = z.infer<typeof BulkSendResponseSchema>;
+
+/**
+ * Stored state of a pending verification. Records are plain JSON so they
+ * can be kept in an external store such as Redis.
+ */
+export interface VerificationRecord {
+  /**
+   * HMAC-SHA256 of the code, hex encoded
+   */
+  hash: string;
+
+  /**
+   * Random salt mixed into the hash, hex encoded
+   */
+  salt: string;
+
+  /**
+   * When the code expires, in milliseconds since the epoch
+   */
+  expiresAt: number;
+
+  /**
+   * When the code was last sent, in milliseconds since the epoch
+   */
+  sentAt: number;
+
+  /**
+   * Failed checks so far, carried over when a new code is sent
+   */
+  attempts: number;
+}
+
+/**
+ * Storage for pending verifications
+ *
+ * @example
+ * ```typescript
+ * const redisStore: VerificationStore = {
+ *   async get(key) {
+ *     const value = await redis.hgetall(key);
+ *     return value.hash
+ *       ? {
+ *           hash: value.hash,
+ *           salt: value.salt,
+ *           expiresAt: Number(value.expiresAt),
+ *           sentAt: Number(value.sentAt),
+ *           attempts: Number(value.attempts),
+ *         }
+ *       : undefined;
+ *   },
+ *   async set(key, record, ttl) {
+ *     await redis.multi().del(key).hset(key, record).pexpire(key, ttl).exec();
+ *   },
+ *   async incrementAttempts(key) {
+ *     const attempts = await redis.eval(
+ *       "if redis.call('EXISTS', KEYS[1]) == 1 then " +
+ *         "return redis.call('HINCRBY', KEYS[1], 'attempts', 1) end",
+ *       1,
+ *       key
+ *     );
+ *     return attempts ?? undefined;
+ *   },
+ *   async reserve(key, ttl) {
+ *     return (await redis.set(key, '1', 'PX', ttl, 'NX')) === 'OK';
+ *   },
+ *   async delete(key) {
+ *     await redis.del(key);
+ *   },
+ * };
+ * ```
+ */
+export interface VerificationStore {
+  get(key: string): Promise<VerificationRecord | undefined>;
+
+  /**
+   * Store a record, discarding it after `ttl` milliseconds
+   */
+  set(key: string, record: VerificationRecord, ttl: number): Promise<void>;
+
+  /**
+   * Add one to the `attempts` of a stored record, keeping its TTL. Must be
+   * atomic, so that parallel checks cannot get past the attempt limit.
+   *
+   * @returns The new attempt count, or `undefined` if there is no record
+   */
+  incrementAttempts(key: string): Promise<number | undefined>;
+
+  /**
+   * Take a key for `ttl` milliseconds unless it is already taken. Must be
+   * atomic, like a Redis `SET NX`, so that parallel sends to a number
+   * cannot both get past the resend cooldown.
+   *
+   * @returns Whether the key was taken by this call
+   */
+  reserve(key: string, ttl: number): Promise<boolean>;
+
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Configuration for one-time code verification
+ */
+export interface VerifyConfig {
+  /**
+   * Number of characters in each code
+   * @default 6
+   */
+  codeLength?: number;
+
+  /**
+   * Characters codes are drawn from. Repeated characters count once.
+   * @default '0123456789'
+   */
+  alphabet?: string;
+
+  /**
+   * How long a code stays valid, in milliseconds
+   * @default 300000
+   */
+  expiresIn?: number;
+
+  /**
+   * Failed checks allowed before the pending code is locked
+   * @default 5
+   */
+  maxAttempts?: number;
+
+  /**
+   * Minimum time between sends to the same number, in milliseconds
+   * @default 30000
+   */
+  resendCooldown?: number;
+
+  /**
+   * Message sent with the code, with a `{{code}}` placeholder
+   * @default 'Your verification code is {{code}}'
+   */
+  message?: string;
+
+  /**
+   * Name of a registered template to send instead of `message`. It must use
+   * only the `{{code}}` placeholder.
+   */
+  template?: string;
+
+  /**
+   * Secret mixed into code hashes. Set it when codes are kept in a shared
+   * store, so a leaked store cannot be brute-forced offline.
+   */
+  secret?: string;
+
+  /**
+   * Where pending verifications are kept
+   * @default In-memory store, local to this client
+   */
+  store?: VerificationStore;
+}
+
+/**
+ * Opt-out and help keywords recognised in inbound messages
+ */
+export type InboundKeyword = 'stop' | 'start' | 'help';
+
+/**
+ * Called when an inbound message matches a keyword
+ */
+export type KeywordCallback = (message: InboundMessage) => void | Promise<void>;
+
+/**
+ * Configuration for STOP, START and HELP keyword handling
+ */
+export interface KeywordConfig {
+  /**
+   * Words, matched case-insensitively against the whole message, that
+   * trigger each keyword. Replaces the defaults for the keywords given.
+   * @default { stop: ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT'], start: ['START', 'UNSTOP', 'SUBSCRIBE'], help: ['HELP', 'INFO'] }
+   */
+  words?: Partial<Record<InboundKeyword, string[]>>;
+
+  /**
+   * Replies sent for each keyword, from the sender ID the customer
+   * answered. No reply is sent for keywords left out.
+   */
+  replies?: Partial<Record<InboundKeyword, string>>;
+
+  /**
+   * Add numbers that send STOP to the suppression list, and remove them
+   * when they send START
+   * @default false
+   */
+  suppress?: boolean;
+
+  /**
+   * Called when a customer opts out, e.g. to add them to an opt-out list
+   */
+  onStop?: KeywordCallback;
+
+  /**
+   * Called when a customer opts back in
+   */
+  onStart?: KeywordCallback;
+
+  /**
+   * Called when a customer asks for help
+   */
+  onHelp?: KeywordCallback;
+}
+
+/**
+ * Options for sending a verification code
+ */
+export type VerifySendOptions = Omit<
+  SendSmsPayload,
+  'to' | 'message' | 'variables'
+> &
+  SendSmsOptions;
+
+/**
+ * Result of sending a verification code
+ */
+export interface VerifySendResult {
+  /**
+   * Recipient in E.164 format
+   */
+  to: string;
+
+  /**
+   * When the code expires
+   */
+  expiresAt: Date;
+
+  /**
+   * Response from sending the code
+   */
+  response: SendSmsResponse;
+}
+
+/**
+ * Outcome of checking a verification code
+ */
+export type VerificationCheckResult =
+  | { status: 'valid' }
+  | { status: 'invalid'; attemptsRemaining: number }
+  | { status: 'expired' }
+  | { status: 'too_many_attempts' }
+  | { status: 'not_found' };
+
+/**
+ * Account balance schema
+ */
+export const BalanceSchema = z.object({
+  /**
+   * Credit available for sending
+   */
+  balance: z.number(),
+  currency: z.string(),
+
+  /**
+   * Credit that may be used beyond the balance, for postpaid accounts
+   */
+  creditLimit: z.number().optional(),
+  updatedAt: z.string().optional(),
+});
+
+/**
+ * Account balance
+ */
+export type Balance = z.infer<typeof BalanceSchema>;
+
+/**
+ * Price per segment on a single carrier
+ */
+export const CarrierPriceSchema = z.object({
+  carrier: z.string(),
+  pricePerSegment: z.number(),
+});
+
+/**
+ * Destination price schema
+ */
+export const PriceSchema = z.object({
+  /**
+   * ISO 3166-1 alpha-2 country code
+   */
+  country: z.string(),
+  callingCode: z.string().optional(),
+  currency: z.string(),
+
+  /**
+   * Price per segment for the looked-up number's carrier, or the country's
+   * standard price
+   */
+  pricePerSegment: z.number(),
+
+  /**
+   * Carrier of the looked-up number
+   */
+  carrier: z.string().optional(),
+
+  /**
+   * Price per segment on each carrier in the country
+   */
+  carriers: z.array(CarrierPriceSchema).optional(),
+});
+
+/**
+ * Price of sending to a country or phone number
+ */
+export type Price = z.infer<typeof PriceSchema>;
+
+/**
+ * Ways usage can be grouped
+ */
+export const UsageGroupBySchema = z.enum([
+  'day',
+  'week',
+  'month',
+  'country',
+  'channel',
+]);
+
+/**
+ * Way usage is grouped
+ */
+export type UsageGroupBy = z.infer<typeof UsageGroupBySchema>;
+
+/**
+ * Usage summary parameters schema
+ */
+export const UsageSummaryParamsSchema = z
+  .object({
+    from: z.union([z.string().datetime(), z.date()]),
+    to: z.union([z.string().datetime(), z.date()]),
+    groupBy: UsageGroupBySchema.optional(),
+  })
+  .refine(({ from, to }) => new Date(from) <= new Date(to), {
+    message: 'from must not be after to',
+    path: ['to'],
+  });
+
+/**
+ * Period and grouping of a usage summary
+ */
+export type UsageSummaryParams = z.infer<typeof UsageSummaryParamsSchema>;
+
+/**
+ * Usage totals for one group
+ */
+export const UsageGroupSchema = z.object({
+  /**
+   * Group key, such as `2025-06-01`, `UG` or `sms`
+   */
+  key: z.string(),
+  messages: z.number().int(),
+  segments: z.number().int(),
+  cost: z.number(),
+});
+
+/**
+ * Usage summary schema
+ */
+export const UsageSummarySchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  currency: z.string(),
+  messages: z.number().int(),
+  segments: z.number().int(),
+  cost: z.number(),
+
+  /**
+   * Totals per group, when `groupBy` was set
+   */
+  groups: z.array(UsageGroupSchema).optional(),
+});
+
+/**
+ * Messages, segments and cost over a period
+ */
+export type UsageSummary = z.infer<typeof UsageSummarySchema>;
+
+/**
+ * Why a number is on the suppression list
+ */
+export const SuppressionReasonSchema = z.enum([
+  'opt_out',
+  'manual',
+  'bounced',
+  'complaint',
+]);
+
+/**
+ * Why a number is on the suppression list: it replied STOP (`opt_out`),
+ * was added by hand (`manual`), cannot receive messages (`bounced`) or
+ * reported them as spam (`complaint`)
+ */
+export type SuppressionReason = z.infer<typeof SuppressionReasonSchema>;
+
+/**
+ * Suppression list entry schema
+ */
+export const SuppressionSchema = z.object({
+  /**
+   * Suppressed number in E.164 format
+   */
+  number: z.string(),
+  reason: openEnum(SuppressionReasonSchema.enum),
+  note: z.string().optional(),
+  createdAt: z.string(),
+});
+
+/**
+ * Number that must not be sent messages
+ */
+export type Suppression = z.infer<typeof SuppressionSchema>;
+
+/**
+ * Options for adding a number to the suppression list
+ */
+export interface AddSuppressionOptions extends CallOptions {
+  /**
+   * @default 'manual'
+   */
+  reason?: SuppressionReason;
+
+  /**
+   * Free-form note kept with the entry
+   */
+  note?: string;
+}
+
+/**
+ * Suppression listing parameters schema
+ */
+export const ListSuppressionsParamsSchema = PaginationParamsSchema.extend({
+  reason: SuppressionReasonSchema.optional(),
+});
+
+/**
+ * Type for suppression listing filters
+ */
+export type ListSuppressionsParams = z.infer<
+  typeof ListSuppressionsParamsSchema
+>;
+
+/**
+ * Suppression listing response schema
+ */
+export const ListSuppressionsResponseSchema = z.object({
+  data: z.array(SuppressionSchema),
+  meta: PaginationMetaSchema.optional(),
+});
+
+/**
+ * Response from listing suppressions
+ */
+export type ListSuppressionsResponse = z.infer<
+  typeof ListSuppressionsResponseSchema
+>;
+
+/**
+ * How sends treat suppressed recipients
+ */
+export type RespectSuppressionMode = 'filter' | 'reject';
+
+/**
+ * Recipient left out of a send because it is suppressed
+ */
+export interface SkippedRecipient {
+  to: string;
+  reason: OpenEnum<SuppressionReason>;
+  suppression: Suppression;
 }
 
 /**
- * Retry configuration for failed requests
+ * Custom contact field values schema. Field names are usable as template
+ * placeholders, so `{{plan}}` is filled from a contact's `plan` field.
  */
-export interface RetryConfig {
+export const ContactFieldsSchema = z.record(
+  z
+    .string()
+    .regex(
+      /^\w+$/,
+      'Field names may only contain letters, digits and underscores'
+    ),
+  z.union([z.string(), z.number(), z.boolean()])
+);
+
+/**
+ * Custom fields of a contact, by name
+ */
+export type ContactFields = z.infer<typeof ContactFieldsSchema>;
+
+/**
+ * Contact schema
+ */
+export const ContactSchema = z.object({
+  id: z.string(),
   /**
-   * Maximum number of retry attempts
-   * @default 3
+   * Phone number in E.164 format
    */
-  maxRetries?: number;
+  phoneNumber: z.string(),
+  name: z.string().optional(),
+  email: z.string().optional(),
+  fields: ContactFieldsSchema.optional(),
+  /**
+   * IDs of the groups the contact belongs to
+   */
+  groupIds: z.array(z.string()).optional(),
+  createdAt: z.string(),
+  updatedAt: z.string().optional(),
+});
+
+/**
+ * Stored contact
+ */
+export type Contact = z.infer<typeof ContactSchema>;
+
+/**
+ * Build the contact creation schema, normalising the phone number with the
+ * given options
+ *
+ * @param options - Phone number parsing options
+ */
+export function createContactSchema(options: PhoneNumberOptions = {}) {
+  return z.object({
+    phoneNumber: createPhoneNumberSchema(options),
+    name: z.string().min(1).max(100, 'Name too long').optional(),
+    email: z.string().email('Invalid email address').optional(),
+    fields: ContactFieldsSchema.optional(),
+    groupIds: z.array(z.string().min(1, 'Group ID is required')).optional(),
+  });
+}
+
+/**
+ * Contact creation schema, accepting numbers in international format
+ */
+export const CreateContactSchema = createContactSchema();
+
+/**
+ * Parameters for creating a contact
+ */
+export type CreateContactParams = z.input<typeof CreateContactSchema>;
+
+/**
+ * Parameters for updating a contact. Only the given properties change, and
+ * given `fields` are merged into the existing ones.
+ */
+export type UpdateContactParams = Partial<CreateContactParams>;
 
+/**
+ * Contact listing parameters schema
+ */
+export const ListContactsParamsSchema = PaginationParamsSchema.extend({
   /**
-   * Initial retry delay in milliseconds
-   * @default 1000
+   * Only list members of this group
    */
-  initialDelay?: number;
+  groupId: z.string().min(1).optional(),
+  /**
+   * Match against name, phone number and email
+   */
+  search: z.string().min(1).optional(),
+});
+
+/**
+ * Type for contact listing filters
+ */
+export type ListContactsParams = z.infer<typeof ListContactsParamsSchema>;
+
+/**
+ * Contact listing response schema
+ */
+export const ListContactsResponseSchema = z.object({
+  data: z.array(ContactSchema),
+  meta: PaginationMetaSchema.optional(),
+});
+
+/**
+ * Response from listing contacts
+ */
+export type ListContactsResponse = z.infer<typeof ListContactsResponseSchema>;
+
+/**
+ * Contact import response schema. `index` is the position of a refused
+ * contact in the request.
+ */
+export const ImportContactsResponseSchema = z.object({
+  imported: z.array(ContactSchema),
+  failed: z.array(
+    z.object({
+      index: z.number().int(),
+      code: z.string().optional(),
+      message: z.string(),
+    })
+  ),
+});
+
+/**
+ * Response from a contact import request
+ */
+export type ImportContactsResponse = z.infer<
+  typeof ImportContactsResponseSchema
+>;
 
+/**
+ * Options for importing contacts
+ */
+export interface ImportContactsOptions extends CallOptions {
   /**
-   * Maximum retry delay in milliseconds
-   * @default 10000
+   * Add every imported contact to this group
    */
-  maxDelay?: number;
+  groupId?: string;
 
   /**
-   * Backoff multiplier
-   * @default 2
+   * Contacts sent per request
+   * @default 500
    */
-  backoffMultiplier?: number;
+  chunkSize?: number;
+}
 
+/**
+ * Row that could not be imported
+ */
+export interface ContactImportFailure {
   /**
-   * HTTP status codes that should trigger a retry
-   * @default [408, 429, 500, 502, 503, 504]
+   * Position of the row in the imported list
    */
-  retryableStatusCodes?: number[];
+  row: number;
+  /**
+   * Why the row was refused, as `path: message` for validation errors
+   */
+  errors: string[];
 }
 
 /**
- * SMS message payload schema
+ * Outcome of a contact import
  */
-export const SendSmsSchema = z.object({
-  to: z.string().min(1, 'Phone number is required'),
-  message: z
-    .string()
-    .min(1, 'Message is required')
-    .max(1600, 'Message too long'),
+export interface ContactImportResult {
+  /**
+   * Contacts created or, for numbers already stored, updated
+   */
+  imported: Contact[];
+  failed: ContactImportFailure[];
+}
+
+/**
+ * Contact group schema
+ */
+export const GroupSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().optional(),
+  contactCount: z.number().int(),
+  createdAt: z.string(),
+  updatedAt: z.string().optional(),
 });
 
 /**
- * Type for SMS message payload
+ * Named list of contacts that messages can be sent to
  */
-export type SendSmsPayload = z.infer<typeof SendSmsSchema>;
+export type Group = z.infer<typeof GroupSchema>;
 
 /**
- * SMS delivery status
+ * Group creation and update schema
  */
-export enum MessageStatus {
-  PENDING = 'pending',
-  SENT = 'sent',
-  DELIVERED = 'delivered',
-  FAILED = 'failed',
-}
+export const GroupParamsSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100, 'Name too long'),
+  description: z.string().max(500, 'Description too long').optional(),
+});
 
 /**
- * Response from sending an SMS
+ * Parameters for creating or replacing a group
  */
-export interface SendSmsResponse {
-  id: string;
-  sid: string | null;
-  channel: string;
-  to: string[];
-  from: string;
-  content: string;
-  status: MessageStatus;
-  cost: number;
-  currency: string;
-  createdAt: string;
-  updatedAt?: string;
-}
+export type GroupParams = z.infer<typeof GroupParamsSchema>;
+
+/**
+ * Group listing response schema
+ */
+export const ListGroupsResponseSchema = z.object({
+  data: z.array(GroupSchema),
+  meta: PaginationMetaSchema.optional(),
+});
+
+/**
+ * Response from listing groups
+ */
+export type ListGroupsResponse = z.infer<typeof ListGroupsResponseSchema>;
 
 /**
  * Generic API response wrapper
  */
 export interface ApiResponse<T> {
   data: T;
-  meta?: {
-    requestId?: string;
-    timestamp?: string;
-  };
+  meta?: PaginationMeta;
 }
 
 /**
@@ -137,23 +2059,291 @@ export interface ApiErrorResponse {
   };
 }
 
+/**
+ * Additional context attached to a MsGine API error
+ */
+export interface MsGineErrorOptions {
+  /**
+   * Delay in milliseconds the server asked for before retrying, from the
+   * `Retry-After` or `X-RateLimit-Reset` headers
+   */
+  retryAfter?: number;
+
+  /**
+   * Idempotency key sent with the failed request. Reuse it to retry the
+   * request safely.
+   */
+  idempotencyKey?: string;
+
+  /**
+   * Whether the server replayed a stored response for the idempotency key
+   * instead of processing the request again
+   */
+  idempotentReplayed?: boolean;
+
+  /**
+   * Whether the request may succeed if retried
+   * @default Whether the status code is retried by default
+   */
+  isRetryable?: boolean;
+
+  /**
+   * Underlying error, such as the one raised by `fetch`
+   */
+  cause?: unknown;
+
+  /**
+   * Attempts made for the request, oldest first
+   */
+  attempts?: MsGineErrorAttempt[];
+}
+
+/**
+ * A failed attempt of a request
+ */
+export interface MsGineErrorAttempt {
+  /**
+   * Attempt number, starting at 1
+   */
+  attempt: number;
+
+  statusCode: number;
+  code?: string;
+  message: string;
+
+  /**
+   * Milliseconds waited before the next attempt, if there was one
+   */
+  delay?: number;
+}
+
+/**
+ * Status codes of transient failures, retried by default
+ */
+export const DEFAULT_RETRYABLE_STATUS_CODES = [408, 429, 500, 502, 503, 504];
+
 /**
  * Custom error class for MsGine API errors
  */
 export class MsGineError extends Error {
+  public readonly retryAfter?: number;
+  public readonly idempotencyKey?: string;
+  public readonly idempotentReplayed: boolean;
+  public readonly isRetryable: boolean;
+  public readonly cause?: unknown;
+
+  /**
+   * Attempts made for the request, oldest first. Filled in when the
+   * request is given up on.
+   */
+  public attempts: MsGineErrorAttempt[];
+
   constructor(
     message: string,
     public readonly statusCode: number,
     public readonly code?: string,
     public readonly details?: Record<string, unknown>,
-    public readonly requestId?: string
+    public readonly requestId?: string,
+    options: MsGineErrorOptions = {}
   ) {
     super(message);
     this.name = 'MsGineError';
+    this.retryAfter = options.retryAfter;
+    this.idempotencyKey = options.idempotencyKey;
+    this.idempotentReplayed = options.idempotentReplayed ?? false;
+    this.isRetryable =
+      options.isRetryable ??
+      DEFAULT_RETRYABLE_STATUS_CODES.includes(statusCode);
+    this.cause = options.cause;
+    this.attempts = options.attempts ?? [];
     Object.setPrototypeOf(this, MsGineError.prototype);
   }
 }
 
+/**
+ * Invalid or missing API token (401)
+ */
+export class MsGineAuthenticationError extends MsGineError {
+  constructor(...args: ConstructorParameters<typeof MsGineError>) {
+    super(...args);
+    this.name = 'MsGineAuthenticationError';
+    Object.setPrototypeOf(this, MsGineAuthenticationError.prototype);
+  }
+}
+
+/**
+ * API token lacks permission for the request (403)
+ */
+export class MsGinePermissionError extends MsGineError {
+  constructor(...args: ConstructorParameters<typeof MsGineError>) {
+    super(...args);
+    this.name = 'MsGinePermissionError';
+    Object.setPrototypeOf(this, MsGinePermissionError.prototype);
+  }
+}
+
+/**
+ * Account balance too low to send (402)
+ */
+export class MsGineInsufficientBalanceError extends MsGineError {
+  constructor(...args: ConstructorParameters<typeof MsGineError>) {
+    super(...args);
+    this.name = 'MsGineInsufficientBalanceError';
+    Object.setPrototypeOf(this, MsGineInsufficientBalanceError.prototype);
+  }
+}
+
+/**
+ * Request rejected by the server as invalid (400, 422)
+ */
+export class MsGineInvalidRequestError extends MsGineError {
+  constructor(...args: ConstructorParameters<typeof MsGineError>) {
+    super(...args);
+    this.name = 'MsGineInvalidRequestError';
+    Object.setPrototypeOf(this, MsGineInvalidRequestError.prototype);
+  }
+}
+
+/**
+ * Recipient phone number rejected by the server
+ */
+export class MsGineInvalidRecipientError extends MsGineInvalidRequestError {
+  constructor(...args: ConstructorParameters<typeof MsGineError>) {
+    super(...args);
+    this.name = 'MsGineInvalidRecipientError';
+    Object.setPrototypeOf(this, MsGineInvalidRecipientError.prototype);
+  }
+}
+
+/**
+ * Requested resource does not exist (404)
+ */
+export class MsGineNotFoundError extends MsGineError {
+  constructor(...args: ConstructorParameters<typeof MsGineError>) {
+    super(...args);
+    this.name = 'MsGineNotFoundError';
+    Object.setPrototypeOf(this, MsGineNotFoundError.prototype);
+  }
+}
+
+/**
+ * Request conflicts with the resource's state, e.g. an idempotency key
+ * reused with a different body (409)
+ */
+export class MsGineConflictError extends MsGineError {
+  constructor(...args: ConstructorParameters<typeof MsGineError>) {
+    super(...args);
+    this.name = 'MsGineConflictError';
+    Object.setPrototypeOf(this, MsGineConflictError.prototype);
+  }
+}
+
+/**
+ * Too many requests (429). `retryAfter` holds the delay the server asked
+ * for, when it sent one.
+ */
+export class MsGineRateLimitError extends MsGineError {
+  constructor(...args: ConstructorParameters<typeof MsGineError>) {
+    super(...args);
+    this.name = 'MsGineRateLimitError';
+    Object.setPrototypeOf(this, MsGineRateLimitError.prototype);
+  }
+}
+
+/**
+ * Server failed to handle the request (5xx)
+ */
+export class MsGineServerError extends MsGineError {
+  constructor(...args: ConstructorParameters<typeof MsGineError>) {
+    super(...args);
+    this.name = 'MsGineServerError';
+    Object.setPrototypeOf(this, MsGineServerError.prototype);
+  }
+}
+
+/**
+ * Request aborted by the client after the configured timeout. Unlike a
+ * 408 response from the server, no response was received.
+ */
+export class MsGineTimeoutError extends MsGineError {
+  constructor(...args: ConstructorParameters<typeof MsGineError>) {
+    super(...args);
+    this.name = 'MsGineTimeoutError';
+    Object.setPrototypeOf(this, MsGineTimeoutError.prototype);
+  }
+}
+
+/**
+ * Request could not reach the server. `cause` holds the error raised by
+ * `fetch`. Network errors are always retryable.
+ */
+export class MsGineNetworkError extends MsGineError {
+  constructor(...args: ConstructorParameters<typeof MsGineError>) {
+    super(...args);
+    this.name = 'MsGineNetworkError';
+    Object.setPrototypeOf(this, MsGineNetworkError.prototype);
+  }
+}
+
+/**
+ * Request cancelled through the caller's `AbortSignal`. `cause` holds the
+ * signal's abort reason. Cancelled requests are never retried.
+ */
+export class MsGineCancelledError extends MsGineError {
+  constructor(...args: ConstructorParameters<typeof MsGineError>) {
+    super(...args);
+    this.name = 'MsGineCancelledError';
+    Object.setPrototypeOf(this, MsGineCancelledError.prototype);
+  }
+}
+
+/**
+ * Error classes for API error codes, checked before the status code
+ */
+const ERROR_CLASSES_BY_CODE: Record<string, typeof MsGineError> = {
+  UNAUTHORIZED: MsGineAuthenticationError,
+  INVALID_TOKEN: MsGineAuthenticationError,
+  INVALID_API_TOKEN: MsGineAuthenticationError,
+  FORBIDDEN: MsGinePermissionError,
+  INSUFFICIENT_BALANCE: MsGineInsufficientBalanceError,
+  INSUFFICIENT_FUNDS: MsGineInsufficientBalanceError,
+  INVALID_RECIPIENT: MsGineInvalidRecipientError,
+  INVALID_PHONE_NUMBER: MsGineInvalidRecipientError,
+  RATE_LIMITED: MsGineRateLimitError,
+  RATE_LIMIT_EXCEEDED: MsGineRateLimitError,
+  TOO_MANY_REQUESTS: MsGineRateLimitError,
+};
+
+/**
+ * Error classes for HTTP status codes
+ */
+const ERROR_CLASSES_BY_STATUS: Record<number, typeof MsGineError> = {
+  400: MsGineInvalidRequestError,
+  401: MsGineAuthenticationError,
+  402: MsGineInsufficientBalanceError,
+  403: MsGinePermissionError,
+  404: MsGineNotFoundError,
+  409: MsGineConflictError,
+  422: MsGineInvalidRequestError,
+  429: MsGineRateLimitError,
+};
+
+/**
+ * Create the most specific error for an API error response, chosen by the
+ * error code and then the status code
+ */
+export function createMsGineError(
+  ...args: ConstructorParameters<typeof MsGineError>
+): MsGineError {
+  const [, statusCode, code] = args;
+  const ErrorClass =
+    (code !== undefined ? ERROR_CLASSES_BY_CODE[code] : undefined) ??
+    ERROR_CLASSES_BY_STATUS[statusCode] ??
+    (statusCode >= 500 ? MsGineServerError : MsGineError);
+
+  return new ErrorClass(...args);
+}
+
 /**
  * Validation error class
  */
@@ -168,6 +2358,88 @@ export class MsGineValidationError extends Error {
   }
 }
 
+/**
+ * Reason a webhook request was rejected
+ */
+export type MsGineWebhookErrorCode =
+  | 'MISSING_SIGNATURE'
+  | 'INVALID_SIGNATURE'
+  | 'TIMESTAMP_EXPIRED'
+  | 'INVALID_PAYLOAD';
+
+/**
+ * Webhook verification error class
+ */
+export class MsGineWebhookError extends Error {
+  constructor(
+    message: string,
+    public readonly code: MsGineWebhookErrorCode,
+    public readonly errors?: z.ZodError
+  ) {
+    super(message);
+    this.name = 'MsGineWebhookError';
+    Object.setPrototypeOf(this, MsGineWebhookError.prototype);
+  }
+}
+
+/**
+ * Reason a verification code could not be sent
+ */
+export type MsGineVerificationErrorCode = 'RESEND_COOLDOWN' | 'LOCKED';
+
+/**
+ * Verification error class
+ */
+export class MsGineVerificationError extends Error {
+  constructor(
+    message: string,
+    public readonly code: MsGineVerificationErrorCode,
+    /**
+     * Milliseconds until a code can be sent again
+     */
+    public readonly retryAfter: number
+  ) {
+    super(message);
+    this.name = 'MsGineVerificationError';
+    Object.setPrototypeOf(this, MsGineVerificationError.prototype);
+  }
+}
+
+/**
+ * Reason a cost could not be worked out
+ */
+export type MsGinePricingErrorCode = 'PRICE_UNAVAILABLE' | 'CURRENCY_MISMATCH';
+
+/**
+ * Pricing error class, for a recipient without a price or prices in
+ * another currency than the balance
+ */
+export class MsGinePricingError extends Error {
+  constructor(
+    message: string,
+    public readonly code: MsGinePricingErrorCode
+  ) {
+    super(message);
+    this.name = 'MsGinePricingError';
+    Object.setPrototypeOf(this, MsGinePricingError.prototype);
+  }
+}
+
+/**
+ * Suppressed recipients refused by `respectSuppression`, before anything
+ * was sent
+ */
+export class MsGineSuppressionError extends Error {
+  constructor(
+    message: string,
+    public readonly skipped: SkippedRecipient[]
+  ) {
+    super(message);
+    this.name = 'MsGineSuppressionError';
+    Object.setPrototypeOf(this, MsGineSuppressionError.prototype);
+  }
+}
+
 /**
  * HTTP methods
  */
@@ -182,11 +2454,10 @@ export enum HttpMethod {
 /**
  * Request options
  */
-export interface RequestOptions<TBody = unknown> {
+export interface RequestOptions<TBody = unknown> extends CallOptions {
   method: HttpMethod;
   path: string;
   body?: TBody;
-  headers?: Record<string, string>;
   queryParams?: Record<string, string | number | boolean>;
 }
 
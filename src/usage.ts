@@ -0,0 +1,71 @@
+import { ResponseValidator } from './responses';
+import {
+  CallOptions,
+  HttpClient,
+  HttpMethod,
+  MsGineValidationError,
+  UsageSummary,
+  UsageSummaryParams,
+  UsageSummaryParamsSchema,
+  UsageSummarySchema,
+} from './types';
+import { toCallOptions, toQueryParams } from './utils';
+
+/**
+ * Usage reporting endpoints
+ *
+ * Available as `client.usage`.
+ */
+export class Usage {
+  constructor(
+    private readonly httpClient: HttpClient,
+    private readonly responses: ResponseValidator = new ResponseValidator()
+  ) {}
+
+  /**
+   * Summarise messages sent, segments and cost over a period
+   *
+   * @param params - Period, and how to group the totals
+   * @param options - Request options
+   * @returns Promise resolving to the totals, with one entry per group
+   * when `groupBy` is set
+   * @throws {MsGineValidationError} If the parameters or the response are
+   * invalid
+   * @throws {MsGineError} If the API request fails
+   *
+   * @example
+   * ```typescript
+   * const usage = await client.usage.summary({
+   *   from: new Date('2025-06-01T00:00:00Z'),
+   *   to: new Date('2025-07-01T00:00:00Z'),
+   *   groupBy: 'country',
+   * });
+   *
+   * for (const group of usage.groups ?? []) {
+   *   console.log(group.key, group.cost, usage.currency);
+   * }
+   * ```
+   */
+  async summary(
+    params: UsageSummaryParams,
+    options: CallOptions = {}
+  ): Promise<UsageSummary> {
+    const validation = UsageSummaryParamsSchema.safeParse(params);
+
+    if (!validation.success) {
+      throw new MsGineValidationError(
+        'Invalid usage parameters',
+        validation.error
+      );
+    }
+
+    const response = await this.httpClient.request<unknown>({
+      ...toCallOptions(options),
+      method: HttpMethod.GET,
+      path: '/usage',
+      queryParams: toQueryParams(validation.data),
+    });
+
+    return this.responses.parse(UsageSummarySchema, response, 'usage');
+  }
+}
@@ -0,0 +1,141 @@
+import type { CallOptions } from './types';
+
+/**
+ * Convert validated parameters to query parameters, dropping unset values
+ * and serializing dates as ISO 8601 strings
+ */
+export function toQueryParams(
+  params: Record<string, string | number | boolean | Date | undefined>
+): Record<string, string | number | boolean> {
+  const queryParams: Record<string, string | number | boolean> = {};
+
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined) {
+      continue;
+    }
+    queryParams[key] = value instanceof Date ? value.toISOString() : value;
+  }
+
+  return queryParams;
+}
+
+/**
+ * Whether a value is a plain object, as opposed to `null`, an array or a
+ * primitive
+ */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Pick the per-call request options out of a method's options, leaving
+ * method-specific settings behind
+ */
+export function toCallOptions(options: CallOptions): CallOptions {
+  const { signal, timeout, retry, headers } = options;
+  return { signal, timeout, retry, headers };
+}
+
+/**
+ * Pattern matching `{{name}}` template placeholders
+ */
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * List the distinct `{{name}}` placeholders used in a message template
+ */
+export function templatePlaceholders(template: string): string[] {
+  return [
+    ...new Set(
+      Array.from(template.matchAll(PLACEHOLDER_PATTERN), (match) => match[1]!)
+    ),
+  ];
+}
+
+/**
+ * Fill `{{name}}` placeholders in a message template, leaving unknown
+ * placeholders untouched
+ */
+export function renderTemplate(
+  template: string,
+  variables: Record<string, string | number>
+): string {
+  return template.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => {
+    const value = variables[name];
+    return value === undefined ? placeholder : String(value);
+  });
+}
+
+/**
+ * Whether a string is an IANA time zone name known to the runtime
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Resolve a scheduled send time to an instant
+ *
+ * Timestamps without a UTC offset are read as wall-clock time in the given
+ * time zone. Returns `undefined` for such timestamps when no time zone is
+ * given.
+ */
+export function resolveSendAt(
+  sendAt: string | Date,
+  timeZone?: string
+): Date | undefined {
+  if (sendAt instanceof Date) {
+    return sendAt;
+  }
+
+  if (/(Z|[+-]\d{2}(:?\d{2})?)$/i.test(sendAt)) {
+    return new Date(sendAt);
+  }
+
+  if (!timeZone) {
+    return undefined;
+  }
+
+  // Correct the offset guess in case it changes across the wall-clock time
+  const wallClock = Date.parse(`${sendAt}Z`);
+  const offset = timeZoneOffset(
+    wallClock - timeZoneOffset(wallClock, timeZone),
+    timeZone
+  );
+
+  return new Date(wallClock - offset);
+}
+
+/**
+ * Offset of a time zone from UTC at an instant, in milliseconds
+ */
+function timeZoneOffset(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(new Date(instant));
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)?.value);
+
+  const local = Date.UTC(
+    part('year'),
+    part('month') - 1,
+    part('day'),
+    part('hour'),
+    part('minute'),
+    part('second')
+  );
+
+  return local - Math.floor(instant / 1000) * 1000;
+}
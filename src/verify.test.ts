@@ -0,0 +1,225 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  MemoryVerificationStore,
+  MsGineClient,
+  MsGineVerificationError,
+  VerifyConfig,
+} from '../src';
+
+describe('Verify', () => {
+  let mockFetch: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+
+    mockFetch = vi.fn();
+    mockFetch.mockImplementation(() =>
+      Promise.resolve({
+        ok: true,
+        status: 200,
+        headers: new Headers({ 'content-type': 'application/json' }),
+        json: () =>
+          Promise.resolve({
+            id: 'msg_123',
+            sid: null,
+            channel: 'sms',
+            to: ['+256701521269'],
+            from: 'MsGine',
+            content: 'code',
+            status: 'pending',
+            cost: 30,
+            currency: 'UGX',
+            createdAt: '2025-01-01T00:00:00Z',
+          }),
+      })
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const createClient = (verify: VerifyConfig = {}) =>
+    new MsGineClient({
+      apiToken: 'test-token',
+      fetch: mockFetch as unknown as typeof fetch,
+      defaultCountry: 'UG',
+      verify,
+    });
+
+  const sentMessage = (call = 0): string => {
+    const [, options] = mockFetch.mock.calls[call] as [string, RequestInit];
+    return (JSON.parse(options.body as string) as { message: string }).message;
+  };
+
+  const sentCode = (call = 0): string => /(\w+)$/.exec(sentMessage(call))![1]!;
+
+  it('should send a code and accept it once', async () => {
+    const client = createClient();
+
+    const result = await client.verify.send('0701 521 269');
+
+    expect(result.to).toBe('+256701521269');
+    expect(result.expiresAt).toEqual(new Date('2025-01-01T00:05:00Z'));
+    expect(sentMessage()).toMatch(/^Your verification code is \d{6}$/);
+
+    const code = sentCode();
+    await expect(client.verify.check('+256701521269', code)).resolves.toEqual({
+      status: 'valid',
+    });
+    await expect(client.verify.check('+256701521269', code)).resolves.toEqual({
+      status: 'not_found',
+    });
+  });
+
+  it('should use the configured code length, alphabet and template', async () => {
+    const client = createClient({
+      codeLength: 8,
+      alphabet: 'ABC',
+      template: 'otp',
+    });
+    client.templates.register('otp', 'Code: {{code}}');
+
+    await client.verify.send('+256701521269');
+
+    expect(sentMessage()).toMatch(/^Code: [ABC]{8}$/);
+  });
+
+  it('should limit failed attempts', async () => {
+    const client = createClient({ maxAttempts: 2 });
+    await client.verify.send('+256701521269');
+    const code = sentCode();
+
+    await expect(
+      client.verify.check('+256701521269', 'wrong')
+    ).resolves.toEqual({ status: 'invalid', attemptsRemaining: 1 });
+    await expect(
+      client.verify.check('+256701521269', 'wrong')
+    ).resolves.toEqual({ status: 'too_many_attempts' });
+    await expect(client.verify.check('+256701521269', code)).resolves.toEqual({
+      status: 'too_many_attempts',
+    });
+
+    const error = await client.verify
+      .send('+256701521269')
+      .catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(MsGineVerificationError);
+    expect(error).toMatchObject({ code: 'LOCKED', retryAfter: 5 * 60 * 1000 });
+  });
+
+  it('should count parallel checks against the attempt limit', async () => {
+    const client = createClient({ maxAttempts: 3 });
+    await client.verify.send('+256701521269');
+    const code = sentCode();
+
+    const results = await Promise.all(
+      Array.from({ length: 10 }, () =>
+        client.verify.check('+256701521269', 'wrong')
+      )
+    );
+
+    expect(results.filter((r) => r.status === 'invalid')).toHaveLength(2);
+    await expect(client.verify.check('+256701521269', code)).resolves.toEqual({
+      status: 'too_many_attempts',
+    });
+  });
+
+  it('should draw each distinct alphabet character equally', async () => {
+    const client = createClient({ codeLength: 100, alphabet: '000000000X' });
+
+    await client.verify.send('+256701521269');
+
+    // About 50 with distinct characters, about 10 if repeats were weighted
+    expect(sentCode().split('X').length - 1).toBeGreaterThan(25);
+  });
+
+  it('should expire codes', async () => {
+    const client = createClient({ store: new NonExpiringStore() });
+    await client.verify.send('+256701521269');
+
+    vi.setSystemTime(new Date('2025-01-01T00:06:00Z'));
+
+    await expect(
+      client.verify.check('+256701521269', sentCode())
+    ).resolves.toEqual({ status: 'expired' });
+  });
+
+  it('should enforce the resend cooldown', async () => {
+    const client = createClient();
+    await client.verify.send('+256701521269');
+
+    vi.setSystemTime(new Date('2025-01-01T00:00:10Z'));
+    const error = await client.verify
+      .send('+256701521269')
+      .catch((e: unknown) => e);
+    expect(error).toMatchObject({
+      code: 'RESEND_COOLDOWN',
+      retryAfter: 20 * 1000,
+    });
+
+    vi.setSystemTime(new Date('2025-01-01T00:00:30Z'));
+    await client.verify.send('+256701521269');
+
+    // Only the latest code is valid
+    await expect(
+      client.verify.check('+256701521269', sentCode(0))
+    ).resolves.toMatchObject({ status: 'invalid' });
+    await expect(
+      client.verify.check('+256701521269', sentCode(1))
+    ).resolves.toEqual({ status: 'valid' });
+  });
+
+  it('should send one code to parallel sends', async () => {
+    const client = createClient();
+
+    const results = await Promise.allSettled(
+      Array.from({ length: 5 }, () => client.verify.send('+256701521269'))
+    );
+
+    expect(results.filter((r) => r.status === 'fulfilled')).toHaveLength(1);
+    for (const result of results.filter((r) => r.status === 'rejected')) {
+      expect(result.reason).toMatchObject({
+        code: 'RESEND_COOLDOWN',
+      });
+    }
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    await expect(
+      client.verify.check('+256701521269', sentCode())
+    ).resolves.toEqual({ status: 'valid' });
+  });
+
+  it('should not start the cooldown when sending fails', async () => {
+    const client = createClient();
+    mockFetch.mockRejectedValueOnce(new TypeError('fetch failed'));
+
+    await expect(
+      client.verify.send('+256701521269', { retry: { maxRetries: 0 } })
+    ).rejects.toThrow();
+    await client.verify.send('+256701521269');
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should only store hashed codes', async () => {
+    const store = new MemoryVerificationStore();
+    const client = createClient({ store, secret: 'pepper' });
+    await client.verify.send('+256701521269');
+
+    const record = await store.get('msgine:verify:+256701521269');
+    expect(record).toBeDefined();
+    expect(JSON.stringify(record)).not.toContain(sentCode());
+  });
+});
+
+/**
+ * Store that keeps records past their TTL, like a store with coarse expiry
+ */
+class NonExpiringStore extends MemoryVerificationStore {
+  override set(
+    key: string,
+    record: Parameters<MemoryVerificationStore['set']>[1]
+  ): Promise<void> {
+    return super.set(key, record, Infinity);
+  }
+}
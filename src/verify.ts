@@ -0,0 +1,351 @@
+import { createHmac, randomBytes, randomInt, timingSafeEqual } from 'crypto';
+import type { MsGineClient } from './client';
+import { createPhoneNumberSchema, PhoneNumberOptions } from './phone';
+import {
+  MsGineValidationError,
+  MsGineVerificationError,
+  SendSmsResponse,
+  VerificationCheckResult,
+  VerificationRecord,
+  VerificationStore,
+  VerifyConfig,
+  VerifySendOptions,
+  VerifySendResult,
+} from './types';
+import { renderTemplate } from './utils';
+
+/**
+ * Default verification settings
+ */
+const DEFAULT_VERIFY_CONFIG = {
+  codeLength: 6,
+  alphabet: '0123456789',
+  expiresIn: 5 * 60 * 1000,
+  maxAttempts: 5,
+  resendCooldown: 30 * 1000,
+  message: 'Your verification code is {{code}}',
+};
+
+/**
+ * Prefix of store keys, followed by the E.164 number
+ */
+const STORE_KEY_PREFIX = 'msgine:verify:';
+
+/**
+ * Prefix of the store keys reserving a send during the resend cooldown,
+ * followed by the E.164 number
+ */
+const SEND_KEY_PREFIX = 'msgine:verify-send:';
+
+/**
+ * In-memory verification store, local to the process
+ */
+export class MemoryVerificationStore implements VerificationStore {
+  private readonly records = new Map<
+    string,
+    { record: VerificationRecord; expiresAt: number }
+  >();
+  private readonly reservations = new Map<string, number>();
+
+  get(key: string): Promise<VerificationRecord | undefined> {
+    const entry = this.records.get(key);
+
+    if (entry && entry.expiresAt <= Date.now()) {
+      this.records.delete(key);
+      return Promise.resolve(undefined);
+    }
+
+    return Promise.resolve(entry && { ...entry.record });
+  }
+
+  set(key: string, record: VerificationRecord, ttl: number): Promise<void> {
+    this.records.set(key, {
+      record: { ...record },
+      expiresAt: Date.now() + ttl,
+    });
+    return Promise.resolve();
+  }
+
+  incrementAttempts(key: string): Promise<number | undefined> {
+    const entry = this.records.get(key);
+
+    if (!entry || entry.expiresAt <= Date.now()) {
+      this.records.delete(key);
+      return Promise.resolve(undefined);
+    }
+
+    entry.record.attempts += 1;
+    return Promise.resolve(entry.record.attempts);
+  }
+
+  reserve(key: string, ttl: number): Promise<boolean> {
+    const expiresAt = this.reservations.get(key);
+
+    if (expiresAt !== undefined && expiresAt > Date.now()) {
+      return Promise.resolve(false);
+    }
+
+    this.reservations.set(key, Date.now() + ttl);
+    return Promise.resolve(true);
+  }
+
+  delete(key: string): Promise<void> {
+    this.records.delete(key);
+    this.reservations.delete(key);
+    return Promise.resolve();
+  }
+}
+
+/**
+ * One-time code verification
+ *
+ * Available as `client.verify`. Codes are generated with a cryptographically
+ * secure random source, sent by SMS, and only stored as salted hashes.
+ *
+ * @example
+ * ```typescript
+ * await client.verify.send('+256701521269');
+ *
+ * const result = await client.verify.check('+256701521269', userInput);
+ * if (result.status === 'valid') {
+ *   // Signed in
+ * }
+ * ```
+ */
+export class Verify {
+  private readonly config: Required<
+    Omit<VerifyConfig, 'template' | 'secret' | 'store'>
+  > &
+    Pick<VerifyConfig, 'template'>;
+  private readonly secret: string;
+  private readonly store: VerificationStore;
+  private readonly phoneNumberSchema: ReturnType<
+    typeof createPhoneNumberSchema
+  >;
+
+  /**
+   * @throws {Error} If the code length or alphabet is invalid
+   */
+  constructor(
+    private readonly client: Pick<MsGineClient, 'sendSms' | 'templates'>,
+    config: VerifyConfig = {},
+    phoneNumberOptions: PhoneNumberOptions = {}
+  ) {
+    const { secret, store, ...settings } = config;
+    this.config = { ...DEFAULT_VERIFY_CONFIG, ...settings };
+    this.secret = secret ?? '';
+    this.store = store ?? new MemoryVerificationStore();
+    this.phoneNumberSchema = createPhoneNumberSchema(phoneNumberOptions);
+
+    if (
+      !Number.isInteger(this.config.codeLength) ||
+      this.config.codeLength < 4
+    ) {
+      throw new Error(
+        'Verification code length must be an integer of at least 4'
+      );
+    }
+
+    if (new Set(this.config.alphabet).size < 2) {
+      throw new Error(
+        'Verification code alphabet must have at least 2 distinct characters'
+      );
+    }
+  }
+
+  /**
+   * Send a new verification code, replacing any pending one
+   *
+   * @param to - Recipient phone number
+   * @param options - Message and send options
+   * @returns Promise resolving to the normalised recipient and code expiry
+   * @throws {MsGineValidationError} If the phone number is invalid
+   * @throws {MsGineVerificationError} If a code was sent too recently, or
+   * the pending code is locked after too many failed checks
+   * @throws {MsGineError} If the API request fails
+   */
+  async send(
+    to: string,
+    options: VerifySendOptions = {}
+  ): Promise<VerifySendResult> {
+    const number = this.normalize(to);
+    const key = STORE_KEY_PREFIX + number;
+    const sendKey = SEND_KEY_PREFIX + number;
+    const now = Date.now();
+    const pending = await this.store.get(key);
+
+    if (pending && pending.expiresAt > now) {
+      if (pending.attempts >= this.config.maxAttempts) {
+        throw new MsGineVerificationError(
+          'Too many failed attempts; wait for the pending code to expire',
+          'LOCKED',
+          pending.expiresAt - now
+        );
+      }
+
+      const cooldownEnds = pending.sentAt + this.config.resendCooldown;
+      if (cooldownEnds > now) {
+        throw new MsGineVerificationError(
+          'A verification code was sent too recently',
+          'RESEND_COOLDOWN',
+          cooldownEnds - now
+        );
+      }
+    }
+
+    // Reserve the send, so that a parallel send to the same number cannot
+    // also get past the cooldown
+    const { resendCooldown } = this.config;
+    if (
+      resendCooldown > 0 &&
+      !(await this.store.reserve(sendKey, resendCooldown))
+    ) {
+      throw new MsGineVerificationError(
+        'A verification code was sent too recently',
+        'RESEND_COOLDOWN',
+        resendCooldown
+      );
+    }
+
+    const code = this.generateCode();
+    const {
+      idempotencyKey,
+      signal,
+      timeout,
+      retry,
+      headers,
+      ignoreSuppression,
+      ...messageOptions
+    } = options;
+    let response: SendSmsResponse;
+    try {
+      const message = this.config.template
+        ? this.client.templates.render(this.config.template, { code }).text
+        : renderTemplate(this.config.message, { code });
+
+      response = await this.client.sendSms(
+        { ...messageOptions, to: number, message },
+        { idempotencyKey, signal, timeout, retry, headers, ignoreSuppression }
+      );
+    } catch (error) {
+      // Nothing was sent, so a new attempt need not wait
+      await this.store.delete(sendKey);
+      throw error;
+    }
+
+    // Failed attempts carry over so resending cannot reset the limit
+    const salt = randomBytes(16).toString('hex');
+    const record: VerificationRecord = {
+      hash: this.hash(code, salt),
+      salt,
+      expiresAt: now + this.config.expiresIn,
+      sentAt: now,
+      attempts: pending && pending.expiresAt > now ? pending.attempts : 0,
+    };
+    await this.store.set(key, record, this.config.expiresIn);
+
+    return { to: number, expiresAt: new Date(record.expiresAt), response };
+  }
+
+  /**
+   * Check a code entered by the user. A valid code can only be used once.
+   *
+   * @param to - Phone number the code was sent to
+   * @param code - Code entered by the user
+   * @returns Promise resolving to the outcome of the check
+   * @throws {MsGineValidationError} If the phone number is invalid
+   */
+  async check(to: string, code: string): Promise<VerificationCheckResult> {
+    const number = this.normalize(to);
+    const key = STORE_KEY_PREFIX + number;
+    const record = await this.store.get(key);
+
+    if (!record) {
+      return { status: 'not_found' };
+    }
+
+    const now = Date.now();
+
+    if (record.expiresAt <= now) {
+      await this.store.delete(key);
+      return { status: 'expired' };
+    }
+
+    if (record.attempts >= this.config.maxAttempts) {
+      return { status: 'too_many_attempts' };
+    }
+
+    // Count the attempt before comparing, so parallel checks cannot all
+    // see the same count
+    const attempts = await this.store.incrementAttempts(key);
+
+    if (attempts === undefined) {
+      return { status: 'not_found' };
+    }
+
+    if (attempts > this.config.maxAttempts) {
+      return { status: 'too_many_attempts' };
+    }
+
+    const expected = Buffer.from(record.hash, 'hex');
+    const actual = Buffer.from(this.hash(code.trim(), record.salt), 'hex');
+
+    if (
+      expected.length === actual.length &&
+      timingSafeEqual(expected, actual)
+    ) {
+      await this.store.delete(key);
+      await this.store.delete(SEND_KEY_PREFIX + number);
+      return { status: 'valid' };
+    }
+
+    if (attempts >= this.config.maxAttempts) {
+      return { status: 'too_many_attempts' };
+    }
+
+    return {
+      status: 'invalid',
+      attemptsRemaining: this.config.maxAttempts - attempts,
+    };
+  }
+
+  /**
+   * Discard the pending code for a number
+   *
+   * @param to - Phone number the code was sent to
+   * @throws {MsGineValidationError} If the phone number is invalid
+   */
+  async cancel(to: string): Promise<void> {
+    const number = this.normalize(to);
+
+    await this.store.delete(STORE_KEY_PREFIX + number);
+    await this.store.delete(SEND_KEY_PREFIX + number);
+  }
+
+  private normalize(to: string): string {
+    const validation = this.phoneNumberSchema.safeParse(to);
+
+    if (!validation.success) {
+      throw new MsGineValidationError('Invalid phone number', validation.error);
+    }
+
+    return validation.data;
+  }
+
+  private generateCode(): string {
+    const { alphabet, codeLength } = this.config;
+    // Distinct characters, so repeated ones are not drawn more often
+    const characters = [...new Set(alphabet)];
+
+    return Array.from(
+      { length: codeLength },
+      () => characters[randomInt(characters.length)]!
+    ).join('');
+  }
+
+  private hash(code: string, salt: string): string {
+    return createHmac('sha256', this.secret)
+      .update(`${salt}:${code}`)
+      .digest('hex');
+  }
+}
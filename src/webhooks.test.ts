@@ -0,0 +1,240 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  MessageStatus,
+  MsGineWebhookError,
+  WebhookEvent,
+  constructWebhookEvent,
+  createFetchWebhookHandler,
+  createNodeWebhookHandler,
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from '../src';
+
+describe('webhooks', () => {
+  const secret = 'whsec_test';
+  const now = 1_700_000_000;
+
+  const statusEvent = {
+    id: 'evt_1',
+    type: 'message.status',
+    createdAt: '2024-01-01T00:00:05Z',
+    data: {
+      messageId: 'msg_123',
+      status: 'delivered',
+      previousStatus: 'sent',
+      to: '+256701521269',
+      updatedAt: '2024-01-01T00:00:05Z',
+    },
+  };
+
+  const signedRequest = (payload: unknown, timestamp = now) => {
+    const rawBody = JSON.stringify(payload);
+    return {
+      rawBody,
+      headers: {
+        'X-MsGine-Signature': signWebhookPayload(rawBody, secret, timestamp),
+        'X-MsGine-Timestamp': String(timestamp),
+      },
+    };
+  };
+
+  const options = { secret, now: () => now * 1000 };
+
+  const expectWebhookError = (fn: () => unknown, code: string) => {
+    try {
+      fn();
+      expect.fail('Expected a MsGineWebhookError');
+    } catch (error) {
+      expect(error).toBeInstanceOf(MsGineWebhookError);
+      expect((error as MsGineWebhookError).code).toBe(code);
+    }
+  };
+
+  describe('constructWebhookEvent', () => {
+    it('should verify and parse a status event', () => {
+      const { rawBody, headers } = signedRequest(statusEvent);
+
+      const event = constructWebhookEvent(rawBody, headers, options);
+
+      expect(event.type).toBe('message.status');
+      if (event.type === 'message.status') {
+        expect(event.data.status).toBe(MessageStatus.DELIVERED);
+      }
+    });
+
+    it('should parse an inbound message event', () => {
+      const { rawBody, headers } = signedRequest({
+        id: 'evt_2',
+        type: 'message.inbound',
+        createdAt: '2024-01-01T00:00:00Z',
+        data: {
+          messageId: 'msg_in_1',
+          from: '+256701521269',
+          to: 'MsGine',
+          content: 'STOP',
+          receivedAt: '2024-01-01T00:00:00Z',
+        },
+      });
+
+      const event = constructWebhookEvent(
+        Buffer.from(rawBody),
+        headers,
+        options
+      );
+
+      expect(event.type).toBe('message.inbound');
+    });
+
+    it('should accept statuses added by the API', () => {
+      const { rawBody, headers } = signedRequest({
+        ...statusEvent,
+        data: { ...statusEvent.data, status: 'read', previousStatus: 'seen' },
+      });
+
+      const event = constructWebhookEvent(rawBody, headers, options);
+
+      expect(event.data).toMatchObject({
+        status: 'read',
+        previousStatus: 'seen',
+      });
+    });
+
+    it('should reject unknown event types', () => {
+      const { rawBody, headers } = signedRequest({
+        ...statusEvent,
+        type: 'message.unknown',
+      });
+
+      expectWebhookError(
+        () => constructWebhookEvent(rawBody, headers, options),
+        'INVALID_PAYLOAD'
+      );
+    });
+  });
+
+  describe('verifyWebhookSignature', () => {
+    it('should reject a tampered body', () => {
+      const { rawBody, headers } = signedRequest(statusEvent);
+
+      expectWebhookError(
+        () =>
+          verifyWebhookSignature(
+            rawBody.replace('delivered', 'failed'),
+            headers,
+            options
+          ),
+        'INVALID_SIGNATURE'
+      );
+    });
+
+    it('should reject the wrong secret', () => {
+      const { rawBody, headers } = signedRequest(statusEvent);
+
+      expectWebhookError(
+        () =>
+          verifyWebhookSignature(rawBody, headers, {
+            ...options,
+            secret: 'whsec_other',
+          }),
+        'INVALID_SIGNATURE'
+      );
+    });
+
+    it('should accept any of several rotating secrets', () => {
+      const { rawBody, headers } = signedRequest(statusEvent);
+
+      expect(() =>
+        verifyWebhookSignature(rawBody, headers, {
+          ...options,
+          secret: ['whsec_new', secret],
+        })
+      ).not.toThrow();
+    });
+
+    it('should reject stale timestamps', () => {
+      const { rawBody, headers } = signedRequest(statusEvent, now - 301);
+
+      expectWebhookError(
+        () => verifyWebhookSignature(rawBody, headers, options),
+        'TIMESTAMP_EXPIRED'
+      );
+    });
+
+    it('should reject missing headers', () => {
+      expectWebhookError(
+        () => verifyWebhookSignature('{}', {}, options),
+        'MISSING_SIGNATURE'
+      );
+    });
+  });
+
+  describe('createFetchWebhookHandler', () => {
+    it('should dispatch verified events', async () => {
+      const onEvent = vi.fn();
+      const handler = createFetchWebhookHandler({ ...options, onEvent });
+      const { rawBody, headers } = signedRequest(statusEvent);
+
+      const response = await handler(
+        new Request('https://example.com/webhooks', {
+          method: 'POST',
+          body: rawBody,
+          headers,
+        })
+      );
+
+      expect(response.status).toBe(200);
+      expect(onEvent).toHaveBeenCalledWith(statusEvent);
+    });
+
+    it('should respond 401 to unsigned requests', async () => {
+      const onEvent = vi.fn();
+      const handler = createFetchWebhookHandler({ ...options, onEvent });
+
+      const response = await handler(
+        new Request('https://example.com/webhooks', {
+          method: 'POST',
+          body: JSON.stringify(statusEvent),
+        })
+      );
+
+      expect(response.status).toBe(401);
+      expect(onEvent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createNodeWebhookHandler', () => {
+    let server: Server | undefined;
+
+    afterEach(async () => {
+      await new Promise((resolve) => server?.close(resolve));
+      server = undefined;
+    });
+
+    it('should read the raw body and acknowledge the event', async () => {
+      const events: WebhookEvent[] = [];
+      server = createServer(
+        createNodeWebhookHandler({
+          ...options,
+          onEvent: (event) => {
+            events.push(event);
+          },
+        })
+      );
+      await new Promise<void>((resolve) => server?.listen(0, resolve));
+      const { port } = server.address() as AddressInfo;
+      const { rawBody, headers } = signedRequest(statusEvent);
+
+      const response = await fetch(`http://127.0.0.1:${port}/`, {
+        method: 'POST',
+        body: rawBody,
+        headers,
+      });
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ received: true });
+      expect(events).toEqual([statusEvent]);
+    });
+  });
+});
@@ -0,0 +1,464 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { z } from 'zod';
+import { MessageStatus, MsGineWebhookError, openEnum } from './types';
+
+/**
+ * Header carrying the hex-encoded HMAC-SHA256 signature
+ */
+export const WEBHOOK_SIGNATURE_HEADER = 'x-msgine-signature';
+
+/**
+ * Header carrying the Unix timestamp (seconds) the webhook was signed at
+ */
+export const WEBHOOK_TIMESTAMP_HEADER = 'x-msgine-timestamp';
+
+/**
+ * Default maximum age of a webhook, in seconds
+ */
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+/**
+ * Delivery status change event schema
+ */
+export const MessageStatusEventSchema = z.object({
+  id: z.string(),
+  type: z.literal('message.status'),
+  createdAt: z.string(),
+  data: z.object({
+    messageId: z.string(),
+    status: openEnum(MessageStatus),
+    previousStatus: openEnum(MessageStatus).optional(),
+    to: z.string(),
+    errorCode: z.string().optional(),
+    errorMessage: z.string().optional(),
+    updatedAt: z.string(),
+  }),
+});
+
+/**
+ * Inbound SMS event schema
+ */
+export const InboundMessageEventSchema = z.object({
+  id: z.string(),
+  type: z.literal('message.inbound'),
+  createdAt: z.string(),
+  data: z.object({
+    messageId: z.string(),
+    from: z.string(),
+    to: z.string(),
+    content: z.string(),
+    receivedAt: z.string(),
+  }),
+});
+
+/**
+ * Webhook event schema, discriminated on `type`
+ */
+export const WebhookEventSchema = z.discriminatedUnion('type', [
+  MessageStatusEventSchema,
+  InboundMessageEventSchema,
+]);
+
+/**
+ * Delivery status change event
+ */
+export type MessageStatusEvent = z.infer<typeof MessageStatusEventSchema>;
+
+/**
+ * Inbound SMS event
+ */
+export type InboundMessageEvent = z.infer<typeof InboundMessageEventSchema>;
+
+/**
+ * Any webhook event sent by MsGine
+ */
+export type WebhookEvent = z.infer<typeof WebhookEventSchema>;
+
+/**
+ * Incoming request headers, either a fetch `Headers` object or a Node-style
+ * header map
+ */
+export type WebhookHeaders =
+  | Headers
+  | Record<string, string | string[] | undefined>;
+
+/**
+ * Options for verifying webhook signatures
+ */
+export interface WebhookVerifyOptions {
+  /**
+   * Shared webhook signing secret. Pass several secrets while rotating.
+   */
+  secret: string | string[];
+
+  /**
+   * Maximum age of a webhook in seconds before it is rejected as a replay
+   * @default 300
+   */
+  toleranceSeconds?: number;
+
+  /**
+   * Current time in milliseconds, overridable for testing
+   * @default Date.now
+   */
+  now?: () => number;
+}
+
+/**
+ * Options for the webhook handler adapters
+ */
+export interface WebhookHandlerOptions extends WebhookVerifyOptions {
+  /**
+   * Called with every verified event. The webhook is acknowledged with a
+   * 200 once the returned promise resolves, and with a 500 if it rejects.
+   */
+  onEvent: (event: WebhookEvent) => void | Promise<void>;
+}
+
+/**
+ * Compute the signature for a webhook body
+ *
+ * Useful for testing your webhook endpoint locally.
+ *
+ * @param rawBody - Raw request body, exactly as received
+ * @param secret - Shared webhook signing secret
+ * @param timestamp - Unix timestamp in seconds
+ * @returns Hex-encoded HMAC-SHA256 of `${timestamp}.${rawBody}`
+ */
+export function signWebhookPayload(
+  rawBody: string | Uint8Array,
+  secret: string,
+  timestamp: number
+): string {
+  return createHmac('sha256', secret)
+    .update(`${timestamp}.`)
+    .update(rawBody)
+    .digest('hex');
+}
+
+/**
+ * Verify the signature and timestamp of a webhook request
+ *
+ * @param rawBody - Raw request body, exactly as received
+ * @param headers - Request headers
+ * @param options - Verification options
+ * @throws {MsGineWebhookError} If the signature is missing, invalid or stale
+ */
+export function verifyWebhookSignature(
+  rawBody: string | Uint8Array,
+  headers: WebhookHeaders,
+  options: WebhookVerifyOptions
+): void {
+  const signatureHeader = getHeader(headers, WEBHOOK_SIGNATURE_HEADER);
+  const timestampHeader = getHeader(headers, WEBHOOK_TIMESTAMP_HEADER);
+
+  if (!signatureHeader || !timestampHeader) {
+    throw new MsGineWebhookError(
+      'Missing webhook signature headers',
+      'MISSING_SIGNATURE'
+    );
+  }
+
+  const timestamp = Number(timestampHeader);
+  if (!Number.isInteger(timestamp)) {
+    throw new MsGineWebhookError(
+      'Invalid webhook timestamp',
+      'INVALID_SIGNATURE'
+    );
+  }
+
+  const now = Math.floor((options.now ?? Date.now)() / 1000);
+  const tolerance = options.toleranceSeconds ?? DEFAULT_TOLERANCE_SECONDS;
+  if (Math.abs(now - timestamp) > tolerance) {
+    throw new MsGineWebhookError(
+      'Webhook timestamp is outside the tolerance window',
+      'TIMESTAMP_EXPIRED'
+    );
+  }
+
+  const secrets = Array.isArray(options.secret)
+    ? options.secret
+    : [options.secret];
+  const signatures = signatureHeader.split(',').map((s) => s.trim());
+
+  const isValid = secrets.some((secret) => {
+    const expected = Buffer.from(
+      signWebhookPayload(rawBody, secret, timestamp),
+      'hex'
+    );
+    return signatures.some((signature) => {
+      const actual = Buffer.from(signature, 'hex');
+      return (
+        actual.length === expected.length && timingSafeEqual(actual, expected)
+      );
+    });
+  });
+
+  if (!isValid) {
+    throw new MsGineWebhookError(
+      'Webhook signature does not match',
+      'INVALID_SIGNATURE'
+    );
+  }
+}
+
+/**
+ * Validate an already-verified webhook payload
+ *
+ * @param payload - Parsed JSON body
+ * @returns Typed webhook event
+ * @throws {MsGineWebhookError} If the payload is not a known event
+ */
+export function parseWebhookEvent(payload: unknown): WebhookEvent {
+  const validation = WebhookEventSchema.safeParse(payload);
+
+  if (!validation.success) {
+    throw new MsGineWebhookError(
+      'Invalid webhook payload',
+      'INVALID_PAYLOAD',
+      validation.error
+    );
+  }
+
+  return validation.data;
+}
+
+/**
+ * Verify a webhook request and parse its body into a typed event
+ *
+ * @param rawBody - Raw request body, exactly as received
+ * @param headers - Request headers
+ * @param options - Verification options
+ * @returns Typed webhook event
+ * @throws {MsGineWebhookError} If verification or parsing fails
+ *
+ * @example
+ * ```typescript
+ * const event = constructWebhookEvent(rawBody, req.headers, {
+ *   secret: process.env.MSGINE_WEBHOOK_SECRET!,
+ * });
+ *
+ * if (event.type === 'message.status') {
+ *   console.log(event.data.messageId, event.data.status);
+ * }
+ * ```
+ */
+export function constructWebhookEvent(
+  rawBody: string | Uint8Array,
+  headers: WebhookHeaders,
+  options: WebhookVerifyOptions
+): WebhookEvent {
+  verifyWebhookSignature(rawBody, headers, options);
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(
+      typeof rawBody === 'string' ? rawBody : Buffer.from(rawBody).toString()
+    );
+  } catch {
+    throw new MsGineWebhookError(
+      'Webhook body is not valid JSON',
+      'INVALID_PAYLOAD'
+    );
+  }
+
+  return parseWebhookEvent(payload);
+}
+
+/**
+ * Create a request listener for Node's `http` module
+ *
+ * @example
+ * ```typescript
+ * http
+ *   .createServer(
+ *     createNodeWebhookHandler({
+ *       secret: process.env.MSGINE_WEBHOOK_SECRET!,
+ *       onEvent: (event) => console.log(event.type),
+ *     })
+ *   )
+ *   .listen(3000);
+ * ```
+ */
+export function createNodeWebhookHandler(
+  options: WebhookHandlerOptions
+): (req: IncomingMessage, res: ServerResponse) => void {
+  const listener = async (req: IncomingMessage, res: ServerResponse) => {
+    try {
+      const rawBody = await readBody(req);
+      const { status, body } = await handleWebhook(
+        rawBody,
+        req.headers,
+        options
+      );
+      sendJson(res, status, body);
+    } catch {
+      sendJson(res, 500, {
+        error: { code: 'HANDLER_ERROR', message: 'Webhook handler failed' },
+      });
+    }
+  };
+
+  return (req, res) => {
+    void listener(req, res);
+  };
+}
+
+/**
+ * Create an Express route handler
+ *
+ * The route must receive the raw body, e.g. via `express.raw({ type:
+ * 'application/json' })`, since signatures are computed over the exact bytes
+ * sent.
+ *
+ * @example
+ * ```typescript
+ * app.post(
+ *   '/webhooks/msgine',
+ *   express.raw({ type: 'application/json' }),
+ *   createExpressWebhookHandler({ secret, onEvent })
+ * );
+ * ```
+ */
+export function createExpressWebhookHandler(
+  options: WebhookHandlerOptions
+): (
+  req: IncomingMessage & { body?: unknown },
+  res: ServerResponse,
+  next: (error?: unknown) => void
+) => void {
+  const middleware = async (
+    req: IncomingMessage & { body?: unknown },
+    res: ServerResponse,
+    next: (error?: unknown) => void
+  ) => {
+    try {
+      let rawBody: string | Uint8Array;
+      if (typeof req.body === 'string' || req.body instanceof Uint8Array) {
+        rawBody = req.body;
+      } else if (req.body === undefined) {
+        rawBody = await readBody(req);
+      } else {
+        throw new MsGineWebhookError(
+          'Webhook body was already parsed; mount express.raw() on this route',
+          'INVALID_PAYLOAD'
+        );
+      }
+
+      const { status, body } = await handleWebhook(
+        rawBody,
+        req.headers,
+        options
+      );
+      sendJson(res, status, body);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  return (req, res, next) => {
+    void middleware(req, res, next);
+  };
+}
+
+/**
+ * Create a handler for fetch-style runtimes (Next.js route handlers,
+ * Cloudflare Workers, Deno, Bun, Hono, ...)
+ *
+ * @example
+ * ```typescript
+ * export const POST = createFetchWebhookHandler({ secret, onEvent });
+ * ```
+ */
+export function createFetchWebhookHandler(
+  options: WebhookHandlerOptions
+): (request: Request) => Promise<Response> {
+  return async (request) => {
+    const rawBody = await request.text();
+    const { status, body } = await handleWebhook(
+      rawBody,
+      request.headers,
+      options
+    );
+    return new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  };
+}
+
+/**
+ * Verify, parse and dispatch a webhook, mapping the outcome to an HTTP
+ * status and JSON body
+ */
+async function handleWebhook(
+  rawBody: string | Uint8Array,
+  headers: WebhookHeaders,
+  options: WebhookHandlerOptions
+): Promise<{ status: number; body: Record<string, unknown> }> {
+  let event: WebhookEvent;
+  try {
+    event = constructWebhookEvent(rawBody, headers, options);
+  } catch (error) {
+    if (error instanceof MsGineWebhookError) {
+      return {
+        status: error.code === 'INVALID_PAYLOAD' ? 400 : 401,
+        body: { error: { code: error.code, message: error.message } },
+      };
+    }
+    throw error;
+  }
+
+  try {
+    await options.onEvent(event);
+  } catch {
+    return {
+      status: 500,
+      body: {
+        error: { code: 'HANDLER_ERROR', message: 'Webhook handler failed' },
+      },
+    };
+  }
+
+  return { status: 200, body: { received: true } };
+}
+
+/**
+ * Read a header value case-insensitively
+ */
+function getHeader(headers: WebhookHeaders, name: string): string | undefined {
+  if (typeof (headers as Headers).get === 'function') {
+    return (headers as Headers).get(name) ?? undefined;
+  }
+
+  const entry = Object.entries(headers).find(
+    ([key]) => key.toLowerCase() === name
+  );
+  const value = entry?.[1] as string | string[] | undefined;
+  return Array.isArray(value) ? value.join(',') : value;
+}
+
+/**
+ * Read a Node request stream into a buffer
+ */
+async function readBody(req: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req as AsyncIterable<Buffer | string>) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Write a JSON response to a Node server response
+ */
+function sendJson(
+  res: ServerResponse,
+  status: number,
+  body: Record<string, unknown>
+): void {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+}
@@ -11,6 +11,7 @@ export default defineConfig({
         'node_modules/',
         'dist/',
         '**/*.test.ts',
+        'src/test-helpers.ts',
         '**/*.config.ts',
         '**/*.config.js',
       ],